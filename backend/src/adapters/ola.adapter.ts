@@ -1,50 +1,39 @@
-import { Page } from 'playwright';
+import { BrowserContext } from 'playwright';
 import { PlatformAdapter, FareEstimate, GeoLocation } from '../interfaces/types';
-import { BrowserService } from '../services/browser.service';
-import { calculateDistance, calculateFare } from '../utils/fare-calculator';
+import { City } from '../interfaces/city';
+import { BrowserService, PageLease, WarmContext } from '../services/browser.service';
+import { RoadRoutingService } from '../services/road-routing.service';
+import { FareModel, RateCardFareModel } from '../services/fare-model.service';
+import { SessionVault } from '../services/session-vault.service';
+import { AccountLease, AccountRotationService } from '../services/account-rotation.service';
+import { AccountOutcome } from '../interfaces/session';
 
 export class OlaAdapter implements PlatformAdapter {
   platformName = 'ola';
+  requestsPerMinute = 6;
 
-  async getFareEstimate(pickup: GeoLocation, drop: GeoLocation): Promise<FareEstimate[]> {
+  constructor(private fareModel: FareModel = RateCardFareModel.getInstance()) {}
+
+  async getFareEstimate(pickup: GeoLocation, drop: GeoLocation, city: City): Promise<FareEstimate[]> {
     const browserService = BrowserService.getInstance();
-    let page: Page | null = null;
-    let context = null;
+    let lease: PageLease | null = null;
+    let failed = false;
+    let account: AccountLease | null = null;
+    let outcome: AccountOutcome | undefined;
 
     try {
-      const instance = await browserService.getNewPage();
-      page = instance.page;
-      context = instance.context;
+      account = AccountRotationService.getInstance().checkout(this.platformName);
+      lease = await browserService.acquire(this.platformName, {
+        geolocation: pickup,
+        timezoneId: city.timezone,
+        account: account?.account,
+        session: account?.savedAt,
+        prepare: context => this.restoreSession(context, account)
+      });
+      const page = lease.page;
 
       console.log('[Ola] Starting scraping process...');
 
-      // --- COOKIE INJECTION START ---
-      try {
-        const fs = require('fs');
-        const path = require('path');
-        const cookiePath = path.join(process.cwd(), 'cookies', 'ola.json');
-        
-        if (fs.existsSync(cookiePath)) {
-          const cookies = JSON.parse(fs.readFileSync(cookiePath, 'utf-8'));
-          if (Array.isArray(cookies) && cookies.length > 0) {
-            console.log(`[Ola] Injecting ${cookies.length} cookies...`);
-            const validCookies = cookies.map((c: any) => {
-              if (c.sameSite === 'unspecified' || c.sameSite === 'no_restriction') {
-                c.sameSite = 'None';
-              }
-              if (c.sameSite === 'lax') c.sameSite = 'Lax';
-              if (c.sameSite === 'strict') c.sameSite = 'Strict';
-              if (c.sameSite === 'none') c.sameSite = 'None';
-              return c;
-            });
-            await context.addCookies(validCookies);
-          }
-        }
-      } catch (cookieErr) {
-        console.warn('[Ola] Failed to inject cookies:', cookieErr);
-      }
-      // --- COOKIE INJECTION END ---
-
       // 1. Navigate to Ola's booking page
       console.log(`[Ola] Navigating to booking page...`);
       await page.goto('https://book.olacabs.com/', { waitUntil: 'networkidle' });
@@ -79,7 +68,9 @@ export class OlaAdapter implements PlatformAdapter {
       const isLoginPage = page.url().includes('login');
       if (isLoginPage) {
           console.warn('[Ola] On login page. Cookies might be invalid. Falling back to estimates.');
-          return this.getMockData(pickup, drop);
+          outcome = 'login_redirect';
+          failed = true;
+          return this.getMockData(pickup, drop, city);
       }
 
       // Try to interact to trigger the API
@@ -92,7 +83,9 @@ export class OlaAdapter implements PlatformAdapter {
       const loginBtn = page.locator('div:has-text("Login"), a[href*="login"]');
       if (await loginBtn.count() > 0 && await loginBtn.first().isVisible()) {
           console.warn('[Ola] Login button found. Cookies might be invalid. Falling back to estimates.');
-          return this.getMockData(pickup, drop);
+          outcome = 'login_redirect';
+          failed = true;
+          return this.getMockData(pickup, drop, city);
       }
 
       console.log('[Ola] Attempting to trigger estimate API...');
@@ -130,7 +123,9 @@ export class OlaAdapter implements PlatformAdapter {
         } catch (err) {
             console.error('[Ola] Failed to save error log:', err);
         }
-        return this.getMockData(pickup, drop); 
+        outcome = 'error';
+        failed = true;
+        return this.getMockData(pickup, drop, city); 
       }
 
       const data = await response.json();
@@ -140,16 +135,22 @@ export class OlaAdapter implements PlatformAdapter {
       const results = this.normalizeResponse(data);
       if (results.length === 0) {
         console.warn('[Ola] Normalized data is empty. Using estimates.');
-        return this.getMockData(pickup, drop);
+        outcome = 'error';
+        failed = true;
+        return this.getMockData(pickup, drop, city);
       }
+      outcome = 'ok';
       return results;
 
     } catch (error) {
+      failed = true;
+      if (lease) outcome = 'error';
+      else account?.refund(); // No page could be had: not the account's fault, nor a use of it
       console.error('[Ola] Error fetching estimates:', error);
-      return this.getMockData(pickup, drop);
+      return this.getMockData(pickup, drop, city);
     } finally {
-      if (page) await page.close();
-      if (context) await context.close();
+      await lease?.release(failed);
+      account?.release(outcome);
     }
   }
 
@@ -199,16 +200,44 @@ export class OlaAdapter implements PlatformAdapter {
     return estimates;
   }
 
-  private getMockData(pickup: GeoLocation, drop: GeoLocation): FareEstimate[] {
+  // Loads the vault session of the account picked for this scrape into a new pooled context
+  // One logged in as each account available now, or a logged-out one when there are none
+  warmContexts(timezoneId: string): WarmContext[] {
+    const sessions = AccountRotationService.getInstance().availableSessions(this.platformName);
+    if (sessions.length === 0) return [{ platform: this.platformName, options: { timezoneId } }];
+    return sessions.map(session => ({
+      platform: this.platformName,
+      options: {
+        timezoneId,
+        account: session.account,
+        session: session.savedAt,
+        prepare: context => this.restoreSession(context, session)
+      }
+    }));
+  }
+
+  private async restoreSession(context: BrowserContext, account: Pick<AccountLease, 'account' | 'state'> | null): Promise<void> {
+    if (!account) {
+      console.warn('[Ola] No saved session in the vault. Scraping logged out.');
+      return;
+    }
+    await SessionVault.applyTo(context, account.state);
+    console.log(`[Ola] Restored session "${account.account}" (${account.state.cookies.length} cookies)`);
+  }
+
+  private getMockData(pickup: GeoLocation, drop: GeoLocation, city: City): FareEstimate[] {
     console.log('[Ola] Generating fallback estimates...');
-    const distance = calculateDistance(pickup.lat, pickup.lng, drop.lat, drop.lng);
+    const trip = RoadRoutingService.getInstance().estimate(pickup, drop);
+    const fare = (vehicleType: string) => {
+      const quote = this.fareModel.quote({ city, platform: this.platformName, vehicleType, pickup, drop, trip });
+      return { price: quote.price, currency: quote.currency, breakdown: quote.breakdown };
+    };
     
     return [
       {
         platform: 'ola',
         vehicleType: 'mini',
-        price: calculateFare(distance, 'mini'),
-        currency: 'INR',
+        ...fare('mini'),
         eta: '4 mins',
         confidence: 'medium',
         source: 'estimate',
@@ -217,8 +246,7 @@ export class OlaAdapter implements PlatformAdapter {
       {
         platform: 'ola',
         vehicleType: 'prime_sedan',
-        price: calculateFare(distance, 'sedan'),
-        currency: 'INR',
+        ...fare('prime_sedan'),
         eta: '6 mins',
         confidence: 'medium',
         source: 'estimate',
@@ -227,8 +255,7 @@ export class OlaAdapter implements PlatformAdapter {
       {
         platform: 'ola',
         vehicleType: 'auto',
-        price: calculateFare(distance, 'auto'),
-        currency: 'INR',
+        ...fare('auto'),
         eta: '2 mins',
         confidence: 'medium',
         source: 'estimate',
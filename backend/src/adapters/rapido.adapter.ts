@@ -1,20 +1,23 @@
-import { Page } from 'playwright';
 import { PlatformAdapter, FareEstimate, GeoLocation } from '../interfaces/types';
-import { BrowserService } from '../services/browser.service';
-import { calculateDistance, calculateFare } from '../utils/fare-calculator';
+import { City } from '../interfaces/city';
+import { BrowserService, PageLease, WarmContext } from '../services/browser.service';
+import { RoadRoutingService } from '../services/road-routing.service';
+import { FareModel, RateCardFareModel } from '../services/fare-model.service';
 
 export class RapidoAdapter implements PlatformAdapter {
   platformName = 'rapido';
+  requestsPerMinute = 10;
 
-  async getFareEstimate(pickup: GeoLocation, drop: GeoLocation): Promise<FareEstimate[]> {
+  constructor(private fareModel: FareModel = RateCardFareModel.getInstance()) {}
+
+  async getFareEstimate(pickup: GeoLocation, drop: GeoLocation, city: City): Promise<FareEstimate[]> {
     const browserService = BrowserService.getInstance();
-    let page: Page | null = null;
-    let context = null;
+    let lease: PageLease | null = null;
+    let failed = false;
 
     try {
-      const instance = await browserService.getNewPage();
-      page = instance.page;
-      context = instance.context;
+      lease = await browserService.acquire(this.platformName, { geolocation: pickup, timezoneId: city.timezone });
+      const page = lease.page;
 
       // Rapido is primarily app-based. We will attempt to use a web interface if available.
       // If not, this serves as a template for where the PWA/Web interaction would go.
@@ -27,7 +30,7 @@ export class RapidoAdapter implements PlatformAdapter {
       } catch (e) {
         console.warn('[Rapido] Could not load web interface. Rapido might be app-only.');
         // Return mock data for demonstration if real scraping fails (optional, but helpful for testing the API)
-        return this.getMockData(pickup, drop); 
+        return this.getMockData(pickup, drop, city); 
       }
 
       // Check if there is a booking widget
@@ -35,31 +38,38 @@ export class RapidoAdapter implements PlatformAdapter {
       
       if (!hasBookingWidget) {
          console.warn('[Rapido] No booking widget found. Returning mock data for demonstration.');
-         return this.getMockData(pickup, drop);
+         return this.getMockData(pickup, drop, city);
       }
 
       // ... Implementation of interaction would go here similar to Ola ...
       // For now, we return mock data as Rapido is likely app-only
-      return this.getMockData(pickup, drop);
+      return this.getMockData(pickup, drop, city);
 
     } catch (error) {
+      failed = true;
       console.error('[Rapido] Error fetching estimates:', error);
-      return this.getMockData(pickup, drop);
+      return this.getMockData(pickup, drop, city);
     } finally {
-      if (page) await page.close();
-      if (context) await context.close();
+      await lease?.release(failed);
     }
   }
 
-  private getMockData(pickup: GeoLocation, drop: GeoLocation): FareEstimate[] {
-     const distance = calculateDistance(pickup.lat, pickup.lng, drop.lat, drop.lng);
+  warmContexts(timezoneId: string): WarmContext[] {
+    return [{ platform: this.platformName, options: { timezoneId } }];
+  }
+
+  private getMockData(pickup: GeoLocation, drop: GeoLocation, city: City): FareEstimate[] {
+     const trip = RoadRoutingService.getInstance().estimate(pickup, drop);
+     const fare = (vehicleType: string) => {
+       const quote = this.fareModel.quote({ city, platform: this.platformName, vehicleType, pickup, drop, trip });
+       return { price: quote.price, currency: quote.currency, breakdown: quote.breakdown };
+     };
      
      return [
        {
           platform: 'rapido',
           vehicleType: 'bike',
-          price: calculateFare(distance, 'bike'),
-          currency: 'INR',
+          ...fare('bike'),
           eta: '3 mins',
           confidence: 'medium',
           source: 'estimate',
@@ -68,8 +78,7 @@ export class RapidoAdapter implements PlatformAdapter {
         {
           platform: 'rapido',
           vehicleType: 'auto',
-          price: calculateFare(distance, 'auto'),
-          currency: 'INR',
+          ...fare('auto'),
           eta: '7 mins',
           confidence: 'medium',
           source: 'estimate',
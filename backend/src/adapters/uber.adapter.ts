@@ -1,56 +1,39 @@
-import { Page } from 'playwright';
+import { BrowserContext } from 'playwright';
 import { PlatformAdapter, FareEstimate, GeoLocation } from '../interfaces/types';
-import { BrowserService } from '../services/browser.service';
-import { calculateDistance, calculateFare } from '../utils/fare-calculator';
+import { City } from '../interfaces/city';
+import { BrowserService, PageLease, WarmContext } from '../services/browser.service';
+import { RoadRoutingService } from '../services/road-routing.service';
+import { FareModel, RateCardFareModel } from '../services/fare-model.service';
+import { SessionVault } from '../services/session-vault.service';
+import { AccountLease, AccountRotationService } from '../services/account-rotation.service';
+import { AccountOutcome } from '../interfaces/session';
 
 export class UberAdapter implements PlatformAdapter {
   platformName = 'uber';
+  requestsPerMinute = 4;
 
-  async getFareEstimate(pickup: GeoLocation, drop: GeoLocation): Promise<FareEstimate[]> {
+  constructor(private fareModel: FareModel = RateCardFareModel.getInstance()) {}
+
+  async getFareEstimate(pickup: GeoLocation, drop: GeoLocation, city: City): Promise<FareEstimate[]> {
     const browserService = BrowserService.getInstance();
-    let page: Page | null = null;
-    let context = null;
+    let lease: PageLease | null = null;
+    let failed = false;
+    let account: AccountLease | null = null;
+    let outcome: AccountOutcome | undefined;
 
     try {
-      const instance = await browserService.getNewPage();
-      page = instance.page;
-      context = instance.context;
+      account = AccountRotationService.getInstance().checkout(this.platformName);
+      lease = await browserService.acquire(this.platformName, {
+        geolocation: pickup,
+        timezoneId: city.timezone,
+        account: account?.account,
+        session: account?.savedAt,
+        prepare: context => this.restoreSession(context, account)
+      });
+      const page = lease.page;
 
       console.log('[Uber] Starting scraping process...');
 
-      // --- COOKIE INJECTION START ---
-      let cookiesInjected = false;
-      try {
-        const fs = require('fs');
-        const path = require('path');
-        const cookiePath = path.join(process.cwd(), 'cookies', 'uber.json');
-        
-        if (fs.existsSync(cookiePath)) {
-          const cookies = JSON.parse(fs.readFileSync(cookiePath, 'utf-8'));
-          if (Array.isArray(cookies) && cookies.length > 0) {
-            console.log(`[Uber] Found ${cookies.length} cookies. Injecting...`);
-            // Sanitize cookies for Playwright
-            const validCookies = cookies.map((c: any) => {
-              if (c.sameSite === 'unspecified' || c.sameSite === 'no_restriction') {
-                c.sameSite = 'None';
-              }
-              if (c.sameSite === 'lax') c.sameSite = 'Lax';
-              if (c.sameSite === 'strict') c.sameSite = 'Strict';
-              if (c.sameSite === 'none') c.sameSite = 'None';
-              return c;
-            });
-            await context.addCookies(validCookies);
-            cookiesInjected = true;
-            console.log('[Uber] Cookies injected successfully.');
-          }
-        } else {
-            console.warn('[Uber] No cookies found at', cookiePath);
-        }
-      } catch (cookieErr) {
-        console.warn('[Uber] Failed to inject cookies:', cookieErr);
-      }
-      // --- COOKIE INJECTION END ---
-
       // Construct Deep Link directly to avoid navigation issues
       const pickupStr = encodeURIComponent(JSON.stringify({latitude: pickup.lat, longitude: pickup.lng}));
       const dropStr = encodeURIComponent(JSON.stringify({latitude: drop.lat, longitude: drop.lng}));
@@ -62,7 +45,9 @@ export class UberAdapter implements PlatformAdapter {
         await page.goto(deepLink, { waitUntil: 'domcontentloaded', timeout: 20000 });
       } catch (e) {
         console.error('[Uber] Navigation failed:', e);
-        return this.getMockData(pickup, drop);
+        outcome = 'error';
+        failed = true;
+        return this.getMockData(pickup, drop, city);
       }
 
       console.log(`[Uber] Current URL: ${page.url()}`);
@@ -71,7 +56,9 @@ export class UberAdapter implements PlatformAdapter {
       const isLoginPage = page.url().includes('login') || page.url().includes('auth') || page.url().includes('u/login');
       if (isLoginPage) {
          console.warn('[Uber] Redirected to login page. Cookies might be invalid or expired.');
-         return this.getMockData(pickup, drop); 
+         outcome = 'login_redirect';
+         failed = true;
+         return this.getMockData(pickup, drop, city); 
       }
 
       const isHomePage = page.url().includes('go/home');
@@ -125,7 +112,9 @@ export class UberAdapter implements PlatformAdapter {
         } catch (err) {
             console.error('[Uber] Failed to save error log:', err);
         }
-        return this.getMockData(pickup, drop);
+        outcome = 'error';
+        failed = true;
+        return this.getMockData(pickup, drop, city);
       }
 
       // Scrape results
@@ -179,31 +168,65 @@ export class UberAdapter implements PlatformAdapter {
       
       if (estimates.length === 0) {
           console.warn('[Uber] No estimates found via scraping. Falling back to mock data.');
-          return this.getMockData(pickup, drop);
+          outcome = 'error';
+          failed = true;
+          return this.getMockData(pickup, drop, city);
       }
 
+      outcome = 'ok';
       return estimates;
 
     } catch (error) {
+      failed = true;
+      if (lease) outcome = 'error';
+      else account?.refund(); // No page could be had: not the account's fault, nor a use of it
       console.error('[Uber] Error fetching estimates:', error);
-      return this.getMockData(pickup, drop);
+      return this.getMockData(pickup, drop, city);
     } finally {
-      if (page) await page.close();
-      if (context) await context.close();
+      await lease?.release(failed);
+      account?.release(outcome);
+    }
+  }
+
+  // Loads the vault session of the account picked for this scrape into a new pooled context
+  // One logged in as each account available now, or a logged-out one when there are none
+  warmContexts(timezoneId: string): WarmContext[] {
+    const sessions = AccountRotationService.getInstance().availableSessions(this.platformName);
+    if (sessions.length === 0) return [{ platform: this.platformName, options: { timezoneId } }];
+    return sessions.map(session => ({
+      platform: this.platformName,
+      options: {
+        timezoneId,
+        account: session.account,
+        session: session.savedAt,
+        prepare: context => this.restoreSession(context, session)
+      }
+    }));
+  }
+
+  private async restoreSession(context: BrowserContext, account: Pick<AccountLease, 'account' | 'state'> | null): Promise<void> {
+    if (!account) {
+      console.warn('[Uber] No saved session in the vault. Scraping logged out.');
+      return;
     }
+    await SessionVault.applyTo(context, account.state);
+    console.log(`[Uber] Restored session "${account.account}" (${account.state.cookies.length} cookies)`);
   }
 
   // Fallback implemented
-  private getMockData(pickup: GeoLocation, drop: GeoLocation): FareEstimate[] {
+  private getMockData(pickup: GeoLocation, drop: GeoLocation, city: City): FareEstimate[] {
     console.log('[Uber] Generating fallback estimates...');
-    const distance = calculateDistance(pickup.lat, pickup.lng, drop.lat, drop.lng);
+    const trip = RoadRoutingService.getInstance().estimate(pickup, drop);
+    const fare = (vehicleType: string) => {
+      const quote = this.fareModel.quote({ city, platform: this.platformName, vehicleType, pickup, drop, trip });
+      return { price: quote.price, currency: quote.currency, breakdown: quote.breakdown };
+    };
     
     return [
       {
         platform: 'uber',
         vehicleType: 'UberGo',
-        price: calculateFare(distance, 'mini'),
-        currency: 'INR',
+        ...fare('UberGo'),
         eta: '5 mins',
         confidence: 'medium',
         source: 'estimate',
@@ -212,8 +235,7 @@ export class UberAdapter implements PlatformAdapter {
       {
         platform: 'uber',
         vehicleType: 'UberPremier',
-        price: calculateFare(distance, 'sedan'),
-        currency: 'INR',
+        ...fare('UberPremier'),
         eta: '8 mins',
         confidence: 'medium',
         source: 'estimate',
@@ -222,8 +244,7 @@ export class UberAdapter implements PlatformAdapter {
       {
         platform: 'uber',
         vehicleType: 'UberAuto',
-        price: calculateFare(distance, 'auto'),
-        currency: 'INR',
+        ...fare('UberAuto'),
         eta: '3 mins',
         confidence: 'medium',
         source: 'estimate',
@@ -0,0 +1,18 @@
+export interface City {
+  id: string;
+  name: string;
+  timezone: string;
+  currency: string;
+  polygon: [number, number][]; // Service area as [lat, lng] vertices
+  platforms: Record<string, string[]>; // platform -> vehicle types offered in the city
+}
+
+export interface CityRegistryFile {
+  cities: City[];
+}
+
+// Where a trip starts and ends. A null city is outside every service area.
+export interface TripArea {
+  pickupCity: City | null;
+  dropCity: City | null;
+}
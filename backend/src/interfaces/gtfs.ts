@@ -0,0 +1,144 @@
+export interface Stop {
+  stop_id: string;
+  stop_name: string;
+  stop_lat: number;
+  stop_lon: number;
+  zone_id?: string; // Fare zone, matched by fare_rules origin/destination/contains
+}
+
+export interface StopTime {
+  trip_id: string;
+  arrival_time: string;
+  departure_time: string;
+  stop_id: string;
+  stop_sequence: number;
+  shape_dist_traveled?: number;
+}
+
+export interface Trip {
+  route_id: string;
+  service_id: string;
+  trip_id: string;
+  trip_headsign?: string;
+  shape_id?: string;
+}
+
+export interface Agency {
+  agency_id?: string; // Optional when the feed has a single agency
+  agency_name: string;
+  agency_url: string;
+  agency_timezone: string;
+}
+
+export interface Route {
+  route_id: string;
+  agency_id?: string;
+  route_short_name: string;
+  route_long_name: string;
+  route_type: string;
+  route_desc?: string;
+  route_color?: string; // Hex without '#'
+  network_id?: string; // GTFS-Fares v2 network, also settable through route_networks
+}
+
+export interface Calendar {
+  service_id: string;
+  monday: string;
+  tuesday: string;
+  wednesday: string;
+  thursday: string;
+  friday: string;
+  saturday: string;
+  sunday: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface CalendarDate {
+  service_id: string;
+  date: string; // YYYYMMDD
+  exception_type: string; // '1' = service added, '2' = service removed
+}
+
+export interface ShapePoint {
+  lat: number;
+  lng: number;
+  sequence: number;
+  dist?: number; // shape_dist_traveled, in the feed's own unit
+}
+
+export interface Transfer {
+  from_stop_id: string;
+  to_stop_id: string;
+  transfer_type: string; // '0'/'1' = allowed, '2' = needs min_transfer_time, '3' = not possible
+  min_transfer_time?: string; // Seconds
+}
+
+// GTFS fares v1: a price per agency, applied to legs through fare_rules
+export interface FareAttribute {
+  fare_id: string;
+  agency_id?: string;
+  price: number;
+  currency_type: string;
+  transfers: number | null; // Transfers allowed on the ticket, null = unlimited
+  transfer_duration: number | null; // Seconds the ticket stays valid from first boarding, null = until the end of the trip
+}
+
+export interface FareRule {
+  fare_id: string;
+  route_id?: string;
+  origin_id?: string; // Zone where the leg starts
+  destination_id?: string; // Zone where the leg ends
+  contains_id?: string; // Zone the leg passes through
+}
+
+// GTFS-Fares v2: leg rules pick a product, products are priced per rider category
+export interface FareProduct {
+  fare_product_id: string;
+  fare_product_name?: string;
+  rider_category_id?: string;
+  amount: number;
+  currency: string;
+}
+
+export interface FareLegRule {
+  leg_group_id?: string;
+  network_id?: string;
+  from_area_id?: string;
+  to_area_id?: string;
+  fare_product_id: string;
+  rule_priority: number; // Higher wins, 0 when unset
+}
+
+export interface RiderCategory {
+  rider_category_id: string;
+  rider_category_name: string;
+  is_default_fare_category: boolean;
+}
+
+export interface FareTables {
+  attributes: FareAttribute[];
+  rules: FareRule[];
+  products: FareProduct[];
+  legRules: FareLegRule[];
+  riderCategories: RiderCategory[];
+  stopAreas: { area_id: string; stop_id: string }[];
+  routeNetworks: { network_id: string; route_id: string }[];
+}
+
+// Columnar stop_times. Rows of trip i are [offsets[i], offsets[i + 1]), ordered by stop_sequence.
+export interface StopTimeTable {
+  tripIds: string[];
+  offsets: Int32Array;
+  stopIndices: Int32Array; // Index into the feed's stops array, -1 for unknown stops
+  sequences: Int32Array;
+  arrivals: Int32Array; // Seconds since service-day midnight, -1 when missing
+  departures: Int32Array;
+  distances: Float64Array; // shape_dist_traveled, NaN when missing
+}
+
+// Raw GTFS tables as parsed from CSV, before any typing or indexing
+export interface GtfsTables {
+  files: Record<string, string>; // Table name -> File name present in the feed
+  rows: Record<string, Record<string, string>[]>; // Table name -> Rows (empty when the file is absent)
+}
@@ -0,0 +1,34 @@
+import { FareEstimate, GeoLocation } from './types';
+
+export type PriceAlertStatus = 'active' | 'triggered' | 'cancelled' | 'expired';
+
+// A trip to watch until one of its fares is at or below maxPrice
+export interface PriceAlert {
+  id: string;
+  pickup: GeoLocation;
+  drop: GeoLocation;
+  city: string; // Registry ID of the pickup's city, whose currency maxPrice is in
+  maxPrice: number;
+  platforms?: string[]; // Every platform of the city when omitted
+  vehicleTypes?: string[]; // Matched ignoring case. Every vehicle type when omitted.
+  webhookUrl: string;
+  intervalSeconds: number;
+  status: PriceAlertStatus;
+  createdAt: string; // ISO-8601
+  expiresAt: string;
+  nextCheckAt: string;
+  lastCheckedAt?: string;
+  triggeredAt?: string;
+  matches?: FareEstimate[]; // Fares that triggered the alert
+  lastError?: string; // Why the last check or webhook delivery failed
+}
+
+export interface PriceAlertFile {
+  alerts: PriceAlert[];
+}
+
+// Body POSTed to the webhook when an alert triggers
+export interface PriceAlertWebhook {
+  event: 'price_alert.triggered';
+  alert: PriceAlert; // Already marked triggered, with its matches
+}
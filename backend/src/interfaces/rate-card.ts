@@ -0,0 +1,54 @@
+import { DayName } from '../utils/gtfs-time';
+
+// Charges for one vehicle class of one platform
+export interface VehicleRates {
+  baseFare: number;
+  perKm: number;
+  perMin: number;
+  minimumFare: number;
+  bookingFee?: number; // Added after the minimum fare, like tolls and surcharges
+  nightMultiplier?: number; // Applied to the metered fare during the city's night hours
+  airportSurcharge?: number; // When the pickup or drop is at an airport
+  paysTolls?: boolean; // Bikes and autos are usually exempt
+  surges?: boolean; // Defaults to true. Autos on government meters don't surge.
+}
+
+// Deterministic surge for a recurring time window, in the city's local time
+export interface SurgeBand {
+  name: string;
+  days?: DayName[]; // Every day when omitted
+  start: string; // HH:MM. A band ending before it starts runs past midnight.
+  end: string;
+  multiplier: number;
+}
+
+export interface Airport {
+  name: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+// Toll plaza, charged when the trip's route passes within radiusKm
+export interface TollPlaza {
+  name: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  amount: number;
+}
+
+// Charges in one city of the registry (cities.json). The "default" card covers cities
+// without a card of their own and vehicle types a card doesn't list.
+export interface CityRateCard {
+  id: string;
+  night?: { start: string; end: string };
+  surge?: SurgeBand[];
+  airports?: Airport[];
+  tolls?: TollPlaza[];
+  platforms: Record<string, Record<string, VehicleRates>>; // platform -> vehicle type -> rates
+}
+
+export interface RateCardFile {
+  cities: CityRateCard[];
+}
@@ -0,0 +1,82 @@
+import { BrowserContext } from 'playwright';
+
+// Cookies and localStorage of a logged-in browser, as saved by Playwright
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// A cookie in an export file: Playwright's own format, or a browser extension's such as
+// EditThisCookie, which uses expirationDate and Chrome's sameSite names
+export interface ExportedCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path?: string;
+  expires?: number; // Epoch seconds, -1 for a browser-session cookie
+  expirationDate?: number; // Epoch seconds, absent for a browser-session cookie
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: string; // Strict, Lax, None, or unspecified, no_restriction, lax, strict
+  session?: boolean;
+  hostOnly?: boolean;
+  storeId?: string;
+}
+
+// What the vault knows about a saved login without decrypting it
+export interface SessionInfo {
+  platform: string;
+  account: string;
+  savedAt: string; // ISO-8601
+  expiresAt: string; // When the platform's session cookie runs out
+  expired: boolean;
+}
+
+export interface StoredSession extends SessionInfo {
+  state: StorageState;
+}
+
+// On disk: the metadata in the clear, authenticated with the encrypted storage state
+export interface SessionVaultFile {
+  version: number;
+  platform: string;
+  account: string;
+  savedAt: string;
+  expiresAt: string;
+  salt: string; // base64
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// valid: the last check stayed logged in. logged_out: the platform sent it to its login page
+// or dropped the session cookie. missing/expired: there is no usable session to check.
+// error: the check itself failed, e.g. the browser is down.
+export type SessionAuthStatus = 'unchecked' | 'valid' | 'logged_out' | 'missing' | 'expired' | 'error';
+
+export interface PlatformSessionHealth {
+  platform: string;
+  auth: SessionAuthStatus;
+  needsAuth: boolean; // Whether to re-run `npm run auth` for the platform
+  account: string | null; // The session last checked
+  sessionExpiresAt: string | null; // ISO-8601
+  lastCheckedAt: string | null;
+  lastCheckError: string | null;
+  lastLiveScrapeAt: string | null; // Last fetch that returned live fares
+  lastFallbackAt: string | null; // Last fetch that fell back to estimates
+}
+
+export type AccountRotationStrategy = 'round_robin' | 'lru';
+
+// How a scrape with an account went
+export type AccountOutcome = 'ok' | 'login_redirect' | 'error';
+
+export interface AccountStatus {
+  platform: string;
+  account: string;
+  state: 'available' | 'quarantined' | 'over_budget' | 'expired';
+  requestsLastHour: number;
+  budgetPerHour: number;
+  lastUsedAt: string | null; // ISO-8601
+  consecutiveErrors: number;
+  quarantineReason: AccountOutcome | null;
+  quarantinedAt: string | null;
+  quarantinedUntil: string | null; // Null while quarantined means until the account is saved again
+}
@@ -1,3 +1,7 @@
+import { FareBreakdown } from '../utils/fare-calculator';
+import { City } from './city';
+import { WarmContext } from '../services/browser.service';
+
 export interface GeoLocation {
   lat: number;
   lng: number;
@@ -13,9 +17,19 @@ export interface FareEstimate {
   confidence: 'high' | 'medium' | 'low'; // Based on whether we got real data or fallback
   source: 'scraped' | 'api' | 'cached' | 'live' | 'estimate';
   timestamp: number;
+  breakdown?: FareBreakdown; // How an estimate was priced from the rate card
+}
+
+// One platform's answer for a trip. A failed platform has no estimates and an error.
+export interface PlatformResult {
+  platform: string;
+  estimates: FareEstimate[];
+  error?: string;
 }
 
 export interface PlatformAdapter {
   platformName: string;
-  getFareEstimate(pickup: GeoLocation, drop: GeoLocation): Promise<FareEstimate[]>;
+  requestsPerMinute: number; // How often background jobs may fetch from the platform
+  getFareEstimate(pickup: GeoLocation, drop: GeoLocation, city: City): Promise<FareEstimate[]>;
+  warmContexts?(timezoneId: string): WarmContext[]; // Browser contexts worth opening at launch
 }
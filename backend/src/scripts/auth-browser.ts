@@ -1,21 +1,46 @@
-
 import { chromium } from 'playwright';
 import fs from 'fs';
-import path from 'path';
+import { DEFAULT_ACCOUNT, SessionVault, isValidSessionName, sanitizeCookies } from '../services/session-vault.service';
 
-const platform = process.argv[2]; // 'ola' or 'uber'
+// npm run auth -- <ola|uber> [account] [--import <cookies.json>]
+const args = process.argv.slice(2);
+const importIndex = args.indexOf('--import');
+const importPath = importIndex >= 0 ? args[importIndex + 1] : undefined;
+if (importIndex >= 0) args.splice(importIndex, 2);
+const [platform, account = DEFAULT_ACCOUNT] = args;
 
 if (!platform || (platform !== 'ola' && platform !== 'uber')) {
   console.error('Please provide platform: "ola" or "uber"');
   process.exit(1);
 }
+if (!isValidSessionName(account)) {
+  console.error('Account names may only use letters, digits, "_" and "-"');
+  process.exit(1);
+}
 
-const COOKIE_DIR = path.join(process.cwd(), 'cookies');
-if (!fs.existsSync(COOKIE_DIR)) {
-  fs.mkdirSync(COOKIE_DIR);
+const vault = SessionVault.getInstance();
+if (!vault.hasKey()) {
+  console.error('Please set SESSION_VAULT_KEY to the passphrase that encrypts saved sessions');
+  process.exit(1);
+}
+if (importIndex >= 0 && !importPath) {
+  console.error('Please provide the cookie file to import: --import <cookies.json>');
+  process.exit(1);
 }
 
-const COOKIE_PATH = path.join(COOKIE_DIR, `${platform}.json`);
+// Moves a cookie export (e.g. the old cookies/<platform>.json) into the vault without a browser
+if (importPath) {
+  let cookies;
+  try {
+    cookies = sanitizeCookies(JSON.parse(fs.readFileSync(importPath, 'utf-8')));
+  } catch (err) {
+    console.error(`Cannot import ${importPath}: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+  const info = vault.save(platform, account, { cookies, origins: [] });
+  console.log(`[${platform}] Imported ${cookies.length} cookies as "${account}" (expires ${info.expiresAt})`);
+  process.exit(0);
+}
 
 (async () => {
   console.log(`[${platform}] Launching browser for authentication...`);
@@ -32,15 +57,15 @@ const COOKIE_PATH = path.join(COOKIE_DIR, `${platform}.json`);
 
   const page = await context.newPage();
 
-  // Load existing cookies if any
-  if (fs.existsSync(COOKIE_PATH)) {
-    try {
-      const existingCookies = JSON.parse(fs.readFileSync(COOKIE_PATH, 'utf-8'));
-      await context.addCookies(existingCookies);
-      console.log(`[${platform}] Loaded existing cookies.`);
-    } catch (e) {
-      console.warn(`[${platform}] Failed to load existing cookies.`);
+  // Start from the account's saved session if any
+  try {
+    const existing = vault.load(platform, account);
+    if (existing) {
+      await SessionVault.applyTo(context, existing.state);
+      console.log(`[${platform}] Loaded the saved session of "${account}".`);
     }
+  } catch (e) {
+    console.warn(`[${platform}] Failed to load the saved session:`, e instanceof Error ? e.message : e);
   }
 
   const url = platform === 'ola' ? 'https://book.olacabs.com/' : 'https://m.uber.com/';
@@ -61,14 +86,13 @@ const COOKIE_PATH = path.join(COOKIE_DIR, `${platform}.json`);
           // For Uber, wait for the ride request screen
           await page.waitForSelector('div[data-test="ride-request-screen"], div[data-testid="home-header"]', { timeout: 180000 });
       }
-      console.log(`[${platform}] Login detected! Saving cookies...`);
+      console.log(`[${platform}] Login detected! Saving session...`);
   } catch (e) {
-      console.log(`[${platform}] Timeout reached or manual close. Saving cookies anyway...`);
+      console.log(`[${platform}] Timeout reached or manual close. Saving session anyway...`);
   }
 
-  const cookies = await context.cookies();
-  fs.writeFileSync(COOKIE_PATH, JSON.stringify(cookies, null, 2));
-  console.log(`[${platform}] Cookies saved to ${COOKIE_PATH}`);
+  const info = vault.save(platform, account, await context.storageState());
+  console.log(`[${platform}] Session saved to the vault as "${account}" (expires ${info.expiresAt})`);
   console.log(`[${platform}] You can now close the browser.`);
 
   await browser.close();
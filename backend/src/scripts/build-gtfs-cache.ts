@@ -0,0 +1,30 @@
+import path from 'path';
+import { compileFeed, writeFeedCache, resolveFeedSource, cachePathFor, loadFeedConfigs } from '../services/gtfs-loader';
+
+// Usage: npm run build-gtfs [gtfs-dir-or-zip] [cache-file]
+// Without arguments every feed in gtfs-feeds.json (or the default feed) is compiled.
+const sources = process.argv[2] ? [path.resolve(process.argv[2])] : loadFeedConfigs().map(config => config.source);
+let failed = false;
+
+for (const source of sources) {
+  const startedAt = Date.now();
+  try {
+    const gtfsPath = resolveFeedSource(source);
+    const cachePath = process.argv[3] ? path.resolve(process.argv[3]) : cachePathFor(gtfsPath);
+    const feed = compileFeed(gtfsPath);
+
+    if (!feed) {
+      console.error(`No GTFS feed found in ${source}`);
+      failed = true;
+      continue;
+    }
+
+    writeFeedCache(cachePath, feed);
+    console.log(`GTFS cache for feed ${feed.feedVersion} built in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  } catch (error) {
+    console.error(`Failed to compile ${source}:`, error instanceof Error ? error.message : error);
+    failed = true;
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -3,6 +3,7 @@ import { UberAdapter } from '../adapters/uber.adapter';
 import { OlaAdapter } from '../adapters/ola.adapter';
 import { RapidoAdapter } from '../adapters/rapido.adapter';
 import { BrowserService } from '../services/browser.service';
+import { CityService } from '../services/city.service';
 import fs from 'fs';
 import path from 'path';
 
@@ -24,12 +25,13 @@ if (!fs.existsSync(LOG_DIR)) {
     
     // Initialize BrowserService
     const browserService = BrowserService.getInstance();
+    const delhi = CityService.getInstance().resolve(pickupDelhi)!;
     
     // Test Uber
     console.log('\n--- Testing Uber ---');
     const uber = new UberAdapter();
     try {
-        const estimates = await uber.getFareEstimate(pickupDelhi, dropDelhi);
+        const estimates = await uber.getFareEstimate(pickupDelhi, dropDelhi, delhi);
         console.log('Uber Estimates:', JSON.stringify(estimates, null, 2));
         if (estimates.length === 0) {
             console.log('Uber returned empty. Checking for error logs...');
@@ -42,7 +44,7 @@ if (!fs.existsSync(LOG_DIR)) {
     console.log('\n--- Testing Ola ---');
     const ola = new OlaAdapter();
     try {
-        const estimates = await ola.getFareEstimate(pickupDelhi, dropDelhi);
+        const estimates = await ola.getFareEstimate(pickupDelhi, dropDelhi, delhi);
         console.log('Ola Estimates:', JSON.stringify(estimates, null, 2));
     } catch (e) {
         console.error('Ola Error:', e);
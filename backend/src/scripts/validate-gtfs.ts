@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import { readFeedTables, resolveFeedSource, loadFeedConfigs } from '../services/gtfs-loader';
+import { validateFeed, parseServiceArea, summarizeReport } from '../services/gtfs-validator';
+
+// Usage: npm run validate-gtfs [gtfs-dir-or-zip] [--out report.json]
+// Without a source every feed in gtfs-feeds.json (or the default feed) is validated.
+// Prints a JSON array of reports to stdout (or --out) and exits with 1 when any feed has errors.
+const args = process.argv.slice(2);
+const outIndex = args.indexOf('--out');
+const outFile = outIndex !== -1 ? args[outIndex + 1] : undefined;
+const sourceArg = args.find((arg, i) => !arg.startsWith('--') && (outIndex === -1 || i !== outIndex + 1));
+const feeds = sourceArg
+  ? [{ id: null, source: path.resolve(sourceArg) }]
+  : loadFeedConfigs();
+
+// Keep stdout for the report itself
+console.log = console.error;
+
+const reports = feeds.map(feed => {
+  const tables = readFeedTables(resolveFeedSource(feed.source));
+  const report = validateFeed(tables, { serviceArea: parseServiceArea(process.env.GTFS_SERVICE_AREA) });
+  console.error(`${feed.id || feed.source}: ${report.valid ? 'VALID' : 'INVALID'}, ${report.errors} error(s), ${report.warnings} warning(s)${report.errors + report.warnings > 0 ? ` (${summarizeReport(report)})` : ''}`);
+  return { feed_id: feed.id, source: feed.source, ...report };
+});
+
+const json = JSON.stringify(reports, null, 2);
+if (outFile) {
+  fs.writeFileSync(outFile, json);
+} else {
+  process.stdout.write(json + '\n');
+}
+
+process.exit(reports.every(report => report.valid) ? 0 : 1);
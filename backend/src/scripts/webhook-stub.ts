@@ -0,0 +1,23 @@
+import http from 'http';
+
+// Local webhook receiver for trying out price alerts. Prints every request it gets.
+// Usage: npm run webhook-stub [-- <port>], then register alerts with
+// webhookUrl http://localhost:<port>/. Set WEBHOOK_STUB_STATUS to answer with an error.
+const port = parseInt(process.argv[2] || '4000');
+const status = parseInt(process.env.WEBHOOK_STUB_STATUS || '204');
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    res.writeHead(status).end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook stub listening on http://localhost:${port}/ (answering ${status})`);
+});
@@ -1,9 +1,18 @@
-import express from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import { FareService } from './services/fare.service';
 import { BusService } from './services/bus.service';
 import { BrowserService } from './services/browser.service';
+import { RoadRoutingService } from './services/road-routing.service';
+import { CityService } from './services/city.service';
+import { FareHistoryQuery, FareHistoryService } from './services/fare-history.service';
+import { FareForecastService } from './services/fare-forecast.service';
+import { PriceAlertService } from './services/price-alert.service';
+import { LOGIN_PLATFORMS, SessionHealthService } from './services/session-health.service';
+import { AccountRotationService } from './services/account-rotation.service';
 import { GeoLocation } from './interfaces/types';
+import { City } from './interfaces/city';
+import { PriceAlertStatus } from './interfaces/price-alert';
 
 const app = express();
 const port = process.env.PORT || 3000;
@@ -13,28 +22,193 @@ app.use(express.json());
 
 const fareService = new FareService();
 const busService = new BusService();
+const cityService = CityService.getInstance();
+const fareHistory = FareHistoryService.getInstance();
+const fareForecast = new FareForecastService(fareHistory);
+const priceAlerts = new PriceAlertService(fareService);
+const sessionHealth = SessionHealthService.getInstance();
+const accountRotation = AccountRotationService.getInstance();
 
-// Initialize Browser Service on startup
-BrowserService.getInstance().init().catch(err => {
+priceAlerts.start();
+sessionHealth.start();
+
+if (process.env.GTFS_WATCH === 'true') {
+  busService.watch();
+}
+
+// Initialize Browser Service on startup, logging a context in for each platform and saved
+// account whenever Chromium (re)launches
+const browserService = BrowserService.getInstance();
+browserService.setWarmup(() => fareService.warmContexts());
+browserService.init().catch(err => {
   console.error('Failed to initialize browser:', err);
 });
 
-app.post('/api/compare-fares', async (req, res) => {
-  try {
-    const { pickup, drop } = req.body;
+// Load the road graph for fallback fare estimates now rather than on the first request
+RoadRoutingService.getInstance();
 
-    if (!pickup || !drop || !pickup.lat || !pickup.lng || !drop.lat || !drop.lng) {
-      return res.status(400).json({ error: 'Invalid pickup or drop coordinates' });
+// Accepts ISO-8601 strings or epoch milliseconds. Returns null when unparseable.
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Query strings carry epoch milliseconds as text
+function parseQueryTimestamp(value: unknown): Date | null {
+  return parseTimestamp(typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value);
+}
+
+// "lat,lng" query string parameter
+function parsePoint(value: unknown): GeoLocation | null {
+  if (typeof value !== 'string') return null;
+  const [lat, lng] = value.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+// Query string shared by the fare history endpoints:
+// pickup=lat,lng & drop=lat,lng & platform & vehicleType, optionally from, to, precision and
+// source (comma-separated). Sends the error response and returns null when invalid.
+function parseFareHistoryQuery(req: Request, res: Response): { query: FareHistoryQuery; city: City } | null {
+  const { pickup, drop, platform, vehicleType, from, to, precision, source } = req.query;
+
+  const pickupLoc = parsePoint(pickup);
+  const dropLoc = parsePoint(drop);
+  if (!pickupLoc || !dropLoc) {
+    res.status(400).json({ error: 'pickup and drop must be "lat,lng" coordinates' });
+    return null;
+  }
+  if (typeof platform !== 'string' || !platform || typeof vehicleType !== 'string' || !vehicleType) {
+    res.status(400).json({ error: 'platform and vehicleType are required' });
+    return null;
+  }
+
+  const toDate = to !== undefined ? parseQueryTimestamp(to) : new Date();
+  const fromDate = from !== undefined ? parseQueryTimestamp(from) : toDate && new Date(toDate.getTime() - 30 * 86400000);
+  if (!fromDate || !toDate || fromDate > toDate) {
+    res.status(400).json({ error: 'Invalid from or to timestamp' });
+    return null;
+  }
+  if (toDate.getTime() - fromDate.getTime() > FareHistoryService.MAX_RANGE_DAYS * 86400000) {
+    res.status(400).json({ error: `from and to can be at most ${FareHistoryService.MAX_RANGE_DAYS} days apart` });
+    return null;
+  }
+
+  const cellPrecision = precision !== undefined ? Number(precision) : FareHistoryService.CELL_PRECISION;
+  if (!(Number.isInteger(cellPrecision) && cellPrecision >= 1 && cellPrecision <= FareHistoryService.CELL_PRECISION)) {
+    res.status(400).json({ error: `precision must be an integer between 1 and ${FareHistoryService.CELL_PRECISION}` });
+    return null;
+  }
+
+  const sources = typeof source === 'string' ? source.split(',') : undefined;
+  if ((source !== undefined && !sources) || sources?.some(s => !(FareHistoryService.RECORDED_SOURCES as string[]).includes(s))) {
+    res.status(400).json({ error: `source must be one or more of ${FareHistoryService.RECORDED_SOURCES.join(', ')}` });
+    return null;
+  }
+
+  // Local hours are those of the pickup's city, where the fares were priced
+  const city = cityService.resolve(pickupLoc);
+  if (!city) {
+    res.status(422).json({ success: false, code: 'out_of_service_area', error: 'Pickup is outside every service area' });
+    return null;
+  }
+
+  return {
+    city,
+    query: {
+      origin: FareHistoryService.cellOf(pickupLoc, cellPrecision),
+      destination: FareHistoryService.cellOf(dropLoc, cellPrecision),
+      platform,
+      vehicleType,
+      sources: sources as FareHistoryQuery['sources'],
+      from: fromDate,
+      to: toDate
     }
+  };
+}
 
-    const pickupLoc: GeoLocation = { lat: parseFloat(pickup.lat), lng: parseFloat(pickup.lng) };
-    const dropLoc: GeoLocation = { lat: parseFloat(drop.lat), lng: parseFloat(drop.lng) };
+// The analytics only read the fares the platforms quoted
+function observedQuery(query: FareHistoryQuery): FareHistoryQuery {
+  const sources = query.sources || FareHistoryService.OBSERVED_SOURCES;
+  return { ...query, sources: sources.filter(source => FareHistoryService.OBSERVED_SOURCES.includes(source)) };
+}
+
+function describeRoute(query: FareHistoryQuery) {
+  return {
+    origin_cell: query.origin,
+    destination_cell: query.destination,
+    platform: query.platform,
+    vehicle_type: query.vehicleType,
+    sources: query.sources ?? null,
+    from: query.from.toISOString(),
+    to: query.to.toISOString()
+  };
+}
+
+// Admin routes need ADMIN_TOKEN to be configured and sent as the x-admin-token header
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(503).json({ error: 'Admin endpoints are disabled. Set ADMIN_TOKEN to enable them.' });
+  }
+  if (req.get('x-admin-token') !== token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  next();
+}
 
-    const estimates = await fareService.getFareEstimates(pickupLoc, dropLoc);
+// Pickup, drop and their cities from a compare-fares body. Trips are priced in the pickup's
+// city: pickups outside every service area are rejected, drops in another city or outside
+// every area are served with a warning. Sends the error response and returns null when invalid.
+function parseTripRequest(req: Request, res: Response) {
+  const { pickup, drop } = req.body || {};
+
+  if (!pickup || !drop || !pickup.lat || !pickup.lng || !drop.lat || !drop.lng) {
+    res.status(400).json({ error: 'Invalid pickup or drop coordinates' });
+    return null;
+  }
+
+  const pickupLoc: GeoLocation = { lat: parseFloat(pickup.lat), lng: parseFloat(pickup.lng) };
+  const dropLoc: GeoLocation = { lat: parseFloat(drop.lat), lng: parseFloat(drop.lng) };
+
+  const { pickupCity, dropCity } = cityService.resolveTrip(pickupLoc, dropLoc);
+  if (!pickupCity) {
+    res.status(422).json({ success: false, code: 'out_of_service_area', error: 'Pickup is outside every service area' });
+    return null;
+  }
+
+  let warning: string | undefined;
+  if (!dropCity) {
+    warning = `Drop is outside every service area. Fares use ${pickupCity.name} rates and leave out outstation charges.`;
+  } else if (dropCity.id !== pickupCity.id) {
+    warning = `Trip crosses from ${pickupCity.name} into ${dropCity.name}. Fares use ${pickupCity.name} rates.`;
+  }
+
+  return {
+    pickupLoc,
+    dropLoc,
+    pickupCity,
+    area: {
+      city: { id: pickupCity.id, name: pickupCity.name, currency: pickupCity.currency, timezone: pickupCity.timezone },
+      drop_city: dropCity?.id ?? null,
+      cross_city: dropCity?.id !== pickupCity.id,
+      warning
+    }
+  };
+}
+
+app.post('/api/compare-fares', async (req, res) => {
+  try {
+    const trip = parseTripRequest(req, res);
+    if (!trip) return;
+
+    const estimates = await fareService.getFareEstimates(trip.pickupLoc, trip.dropLoc, trip.pickupCity);
 
     res.json({
       success: true,
       count: estimates.length,
+      ...trip.area,
       estimates
     });
 
@@ -44,23 +218,352 @@ app.post('/api/compare-fares', async (req, res) => {
   }
 });
 
+// Same request as /api/compare-fares, answered as NDJSON: a "start" event with the trip's
+// cities, one "platform" event per platform as soon as its adapter finishes, then a
+// "summary" event with every estimate.
+app.post('/api/compare-fares/stream', async (req, res) => {
+  const trip = parseTripRequest(req, res);
+  if (!trip) return;
+
+  const startedAt = Date.now();
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson',
+    'Cache-Control': 'no-cache',
+    'X-Accel-Buffering': 'no' // Keep reverse proxies from holding back events
+  });
+  // The fetch carries on after a client disconnects, so its results still reach the cache
+  const send = (event: object) => {
+    if (!res.writableEnded && !res.destroyed) res.write(JSON.stringify(event) + '\n');
+  };
+
+  const platforms = Object.keys(trip.pickupCity.platforms);
+  send({ type: 'start', ...trip.area, platforms });
+
+  try {
+    const failed: string[] = [];
+    const estimates = await fareService.getFareEstimates(trip.pickupLoc, trip.dropLoc, trip.pickupCity, {
+      onPlatform: result => {
+        if (result.error) failed.push(result.platform);
+        send({ type: 'platform', platform: result.platform, count: result.estimates.length, estimates: result.estimates, error: result.error });
+      }
+    });
+    send({ type: 'summary', success: true, count: estimates.length, failed, elapsed_ms: Date.now() - startedAt, estimates });
+  } catch (error) {
+    console.error('API Error:', error);
+    send({ type: 'error', error: 'Internal Server Error' });
+  }
+  res.end();
+});
+
+app.get('/api/cities', (req, res) => {
+  res.json({
+    cities: cityService.list().map(city => {
+      const [south, west, north, east] = CityService.bounds(city);
+      return { ...city, bounds: { north, south, east, west } };
+    })
+  });
+});
+
+// Fares recorded for a route, most recent last. ?limit= keeps only the latest (default 1000).
+app.get('/api/fare-history', async (req, res) => {
+  const parsed = parseFareHistoryQuery(req, res);
+  if (!parsed) return;
+
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 1000;
+  if (!(Number.isInteger(limit) && limit >= 1 && limit <= 10000)) {
+    return res.status(400).json({ error: 'limit must be an integer between 1 and 10000' });
+  }
+
+  try {
+    const observations = await fareHistory.query(parsed.query);
+    res.json({
+      success: true,
+      route: describeRoute(parsed.query),
+      count: observations.length,
+      observations: observations.slice(-limit).map(item => ({
+        time: new Date(item.time).toISOString(),
+        price: item.price,
+        currency: item.currency,
+        source: item.source,
+        surge_multiplier: item.surgeMultiplier ?? null
+      }))
+    });
+  } catch (error) {
+    console.error('Fare History API Error:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+});
+
+app.get('/api/fare-history/hour-of-week', async (req, res) => {
+  const parsed = parseFareHistoryQuery(req, res);
+  if (!parsed) return;
+
+  try {
+    const query = observedQuery(parsed.query);
+    const observations = await fareHistory.query(query);
+    res.json({
+      success: true,
+      route: describeRoute(query),
+      timezone: parsed.city.timezone,
+      count: observations.length,
+      buckets: fareHistory.hourOfWeek(observations, parsed.city.timezone)
+    });
+  } catch (error) {
+    console.error('Fare History API Error:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+});
+
+app.get('/api/fare-history/surge', async (req, res) => {
+  const parsed = parseFareHistoryQuery(req, res);
+  if (!parsed) return;
+
+  try {
+    const query = observedQuery(parsed.query);
+    const observations = await fareHistory.query(query);
+    const surge = fareHistory.surgeFrequency(observations, parsed.city.timezone);
+    res.json({
+      success: true,
+      route: describeRoute(query),
+      timezone: parsed.city.timezone,
+      observations: surge.observations,
+      surged: surge.surged,
+      frequency: surge.frequency,
+      baseline_price: surge.baselinePrice,
+      buckets: surge.buckets
+    });
+  } catch (error) {
+    console.error('Fare History API Error:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+});
+
+// Predicted fares over the next few hours and the cheapest time to leave, per platform
+// and vehicle type with enough recorded history on the route.
+// Query: pickup=lat,lng & drop=lat,lng, optionally platform, vehicleType, hours, at and precision.
+app.get('/api/fare-forecast', async (req, res) => {
+  const { pickup, drop, platform, vehicleType, hours, at, precision } = req.query;
+
+  const pickupLoc = parsePoint(pickup);
+  const dropLoc = parsePoint(drop);
+  if (!pickupLoc || !dropLoc) {
+    return res.status(400).json({ error: 'pickup and drop must be "lat,lng" coordinates' });
+  }
+  if ((platform !== undefined && typeof platform !== 'string') || (vehicleType !== undefined && typeof vehicleType !== 'string')) {
+    return res.status(400).json({ error: 'platform and vehicleType must be single values' });
+  }
+
+  const horizon = hours !== undefined ? Number(hours) : FareForecastService.DEFAULT_HOURS;
+  if (!(Number.isInteger(horizon) && horizon >= 1 && horizon <= FareForecastService.MAX_HOURS)) {
+    return res.status(400).json({ error: `hours must be an integer between 1 and ${FareForecastService.MAX_HOURS}` });
+  }
+
+  const atDate = at !== undefined ? parseQueryTimestamp(at) : new Date();
+  if (!atDate) {
+    return res.status(400).json({ error: 'Invalid at timestamp' });
+  }
+
+  const cellPrecision = precision !== undefined ? Number(precision) : FareHistoryService.CELL_PRECISION;
+  if (!(Number.isInteger(cellPrecision) && cellPrecision >= 1 && cellPrecision <= FareHistoryService.CELL_PRECISION)) {
+    return res.status(400).json({ error: `precision must be an integer between 1 and ${FareHistoryService.CELL_PRECISION}` });
+  }
+
+  const city = cityService.resolve(pickupLoc);
+  if (!city) {
+    return res.status(422).json({ success: false, code: 'out_of_service_area', error: 'Pickup is outside every service area' });
+  }
+
+  try {
+    const result = await fareForecast.forecast(pickupLoc, dropLoc, city, {
+      at: atDate,
+      hours: horizon,
+      precision: cellPrecision,
+      platform,
+      vehicleType
+    });
+
+    res.json({
+      success: true,
+      route: { origin_cell: result.origin, destination_cell: result.destination },
+      timezone: city.timezone,
+      window_minutes: FareForecastService.WINDOW_MINUTES,
+      observations: result.observations,
+      insufficient_data: result.forecasts.length === 0,
+      recommendation: result.recommendation && {
+        platform: result.recommendation.platform,
+        vehicle_type: result.recommendation.vehicleType,
+        start: result.recommendation.start.toISOString(),
+        end: result.recommendation.end.toISOString(),
+        price: result.recommendation.price,
+        savings: result.recommendation.savings
+      },
+      forecasts: result.forecasts.map(forecast => ({
+        platform: forecast.platform,
+        vehicle_type: forecast.vehicleType,
+        currency: forecast.currency,
+        observations: forecast.observations,
+        recent_observations: forecast.recentObservations,
+        deviation: forecast.deviation,
+        cheapest: {
+          start: forecast.cheapest.start.toISOString(),
+          end: forecast.cheapest.end.toISOString(),
+          price: forecast.cheapest.price,
+          savings: forecast.cheapest.savings
+        },
+        windows: forecast.points.map(point => ({
+          start: point.start.toISOString(),
+          end: point.end.toISOString(),
+          price: point.price,
+          baseline: point.baseline,
+          basis: point.basis,
+          samples: point.samples
+        }))
+      }))
+    });
+  } catch (error) {
+    console.error('Fare Forecast API Error:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+});
+
+// Alerts are admin routes: the server POSTs to their webhooks from inside its own network.
+// Body: { pickup, drop, maxPrice, webhookUrl, platforms?, vehicleTypes?, intervalSeconds?, expiresAt? }
+app.post('/api/alerts', requireAdmin, (req, res) => {
+  const { pickup, drop, maxPrice, webhookUrl, platforms, vehicleTypes, intervalSeconds, expiresAt } = req.body || {};
+
+  if (!pickup || !drop || !pickup.lat || !pickup.lng || !drop.lat || !drop.lng) {
+    return res.status(400).json({ error: 'Invalid pickup or drop coordinates' });
+  }
+  if (!(typeof maxPrice === 'number' && maxPrice > 0)) {
+    return res.status(400).json({ error: 'maxPrice must be a positive number' });
+  }
+
+  let webhook: URL | null = null;
+  try {
+    webhook = new URL(webhookUrl);
+  } catch {
+    // Reported below
+  }
+  if (!webhook || (webhook.protocol !== 'http:' && webhook.protocol !== 'https:')) {
+    return res.status(400).json({ error: 'webhookUrl must be an http or https URL' });
+  }
+
+  const isNameList = (value: unknown) => Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && v);
+  if (platforms !== undefined && !isNameList(platforms)) {
+    return res.status(400).json({ error: 'platforms must be a non-empty list of platform names' });
+  }
+  if (vehicleTypes !== undefined && !isNameList(vehicleTypes)) {
+    return res.status(400).json({ error: 'vehicleTypes must be a non-empty list of vehicle types' });
+  }
+
+  if (intervalSeconds !== undefined && !(Number.isInteger(intervalSeconds)
+    && intervalSeconds >= PriceAlertService.MIN_INTERVAL_SECONDS && intervalSeconds <= PriceAlertService.MAX_INTERVAL_SECONDS)) {
+    return res.status(400).json({ error: `intervalSeconds must be an integer between ${PriceAlertService.MIN_INTERVAL_SECONDS} and ${PriceAlertService.MAX_INTERVAL_SECONDS}` });
+  }
+
+  const expiresAtDate = expiresAt !== undefined ? parseTimestamp(expiresAt) : undefined;
+  const maxExpiry = Date.now() + PriceAlertService.MAX_TTL_DAYS * 86400000;
+  if (expiresAtDate === null || (expiresAtDate && (expiresAtDate.getTime() <= Date.now() || expiresAtDate.getTime() > maxExpiry))) {
+    return res.status(400).json({ error: `expiresAt must be a future timestamp within ${PriceAlertService.MAX_TTL_DAYS} days` });
+  }
+
+  const pickupLoc: GeoLocation = { lat: parseFloat(pickup.lat), lng: parseFloat(pickup.lng) };
+  const dropLoc: GeoLocation = { lat: parseFloat(drop.lat), lng: parseFloat(drop.lng) };
+
+  const city = cityService.resolve(pickupLoc);
+  if (!city) {
+    return res.status(422).json({ success: false, code: 'out_of_service_area', error: 'Pickup is outside every service area' });
+  }
+  const unavailable = (platforms as string[] | undefined)?.filter(platform => !cityService.isAvailable(city, platform));
+  if (unavailable?.length) {
+    return res.status(422).json({ success: false, code: 'platform_unavailable', error: `Not available in ${city.name}: ${unavailable.join(', ')}` });
+  }
+
+  const alert = priceAlerts.create({
+    pickup: pickupLoc,
+    drop: dropLoc,
+    city,
+    maxPrice,
+    platforms,
+    vehicleTypes,
+    webhookUrl: webhook.toString(),
+    intervalSeconds,
+    expiresAt: expiresAtDate
+  });
+  res.status(201).json({ success: true, alert });
+});
+
+// ?status= lists only active, triggered, cancelled or expired alerts
+app.get('/api/alerts', requireAdmin, (req, res) => {
+  const status = req.query.status;
+  if (status !== undefined && !['active', 'triggered', 'cancelled', 'expired'].includes(status as string)) {
+    return res.status(400).json({ error: 'status must be active, triggered, cancelled or expired' });
+  }
+  const alerts = priceAlerts.list(status as PriceAlertStatus | undefined);
+  res.json({ success: true, count: alerts.length, alerts });
+});
+
+app.get('/api/alerts/:id', requireAdmin, (req, res) => {
+  const alert = priceAlerts.get(req.params.id);
+  if (!alert) {
+    return res.status(404).json({ error: 'Alert not found' });
+  }
+  res.json({ success: true, alert });
+});
+
+app.delete('/api/alerts/:id', requireAdmin, (req, res) => {
+  const alert = priceAlerts.cancel(req.params.id);
+  if (!alert) {
+    return res.status(404).json({ error: 'Alert not found' });
+  }
+  if (alert.status !== 'cancelled') {
+    return res.status(409).json({ success: false, error: `Alert is already ${alert.status}`, alert });
+  }
+  res.json({ success: true, alert });
+});
+
 app.post('/api/bus-routes', async (req, res) => {
   try {
-    const { pickup, drop } = req.body;
+    const { pickup, drop, departAt, arriveBy, maxTransfers, maxWalk, riderCategory } = req.body;
 
     if (!pickup || !drop || !pickup.lat || !pickup.lng || !drop.lat || !drop.lng) {
       return res.status(400).json({ error: 'Invalid pickup or drop coordinates' });
     }
 
+    if (departAt && arriveBy) {
+      return res.status(400).json({ error: 'Specify either departAt or arriveBy, not both' });
+    }
+
+    const departAtDate = departAt ? parseTimestamp(departAt) : undefined;
+    const arriveByDate = arriveBy ? parseTimestamp(arriveBy) : undefined;
+
+    if (departAtDate === null || arriveByDate === null) {
+      return res.status(400).json({ error: 'Invalid departAt or arriveBy timestamp' });
+    }
+
+    if (maxTransfers !== undefined && !(Number.isInteger(maxTransfers) && maxTransfers >= 0 && maxTransfers <= BusService.MAX_TRANSFERS_LIMIT)) {
+      return res.status(400).json({ error: `maxTransfers must be an integer between 0 and ${BusService.MAX_TRANSFERS_LIMIT}` });
+    }
+
+    if (maxWalk !== undefined && !(typeof maxWalk === 'number' && maxWalk >= 0 && maxWalk <= BusService.MAX_WALK_METERS)) {
+      return res.status(400).json({ error: `maxWalk must be a distance in meters between 0 and ${BusService.MAX_WALK_METERS}` });
+    }
+
+    if (riderCategory !== undefined && !(typeof riderCategory === 'string' && /^[\w-]{1,64}$/.test(riderCategory))) {
+      return res.status(400).json({ error: 'riderCategory must be a category name such as "woman" or "senior"' });
+    }
+
     const pickupLoc: GeoLocation = { lat: parseFloat(pickup.lat), lng: parseFloat(pickup.lng) };
     const dropLoc: GeoLocation = { lat: parseFloat(drop.lat), lng: parseFloat(drop.lng) };
 
-    const routes = busService.findRoutes(pickupLoc, dropLoc);
+    const routes = busService.findRoutes(pickupLoc, dropLoc, { departAt: departAtDate, arriveBy: arriveByDate, maxTransfers, maxWalkMeters: maxWalk, riderCategory });
+    const feeds = busService.getFeedStatuses(arriveByDate || departAtDate || new Date(), pickupLoc, dropLoc, maxWalk);
 
     res.json({
       success: true,
       count: routes.length,
-      routes
+      routes,
+      feeds
     });
 
   } catch (error) {
@@ -69,22 +572,110 @@ app.post('/api/bus-routes', async (req, res) => {
   }
 });
 
+app.get('/api/admin/gtfs', requireAdmin, (req, res) => {
+  res.json({
+    success: true,
+    feeds: busService.getFeedIds().map(id => ({
+      id,
+      reloading: busService.isReloading(id),
+      active: busService.getFeedInfo(id),
+      validation: busService.getValidationReport(id),
+      last_reload: busService.getReloadStatus(id)
+    }))
+  });
+});
+
+// Starts loading feeds in the background and answers 202 straight away. Each is swapped in
+// once ready, and queries keep using the active feed meanwhile. It stays active if the new
+// one fails to load. Poll GET /api/admin/gtfs for each feed's last_reload.
+// Body: { feed?, source? }. Without a feed ID every configured feed is reloaded.
+app.post('/api/admin/gtfs/reload', requireAdmin, (req, res) => {
+  const { feed, source } = req.body || {};
+
+  if (feed !== undefined && typeof feed !== 'string') {
+    return res.status(400).json({ error: 'feed must be a feed ID' });
+  }
+  if (source !== undefined && typeof source !== 'string') {
+    return res.status(400).json({ error: 'source must be a path to a GTFS directory or zip file' });
+  }
+
+  const feedIds = busService.getFeedIds();
+  const feedId = feed || (feedIds.length === 1 ? feedIds[0] : undefined);
+  if (source && !feedId) {
+    return res.status(400).json({ error: 'Specify which feed the source is for' });
+  }
+  if (feedId && !source && !feedIds.includes(feedId)) {
+    return res.status(404).json({ error: `Unknown GTFS feed "${feedId}". Give a source to add it.` });
+  }
+
+  // Failures are logged and kept in the feed's last_reload
+  const reloading = feedId ? [feedId] : feedIds;
+  const reload = feedId ? busService.reload(feedId, source) : busService.reloadAll();
+  reload.catch(() => {});
+
+  res.status(202).json({ success: true, reloading });
+});
+
+// Whether each platform's saved login still works, when it last scraped live fares, and
+// how its accounts are being rotated
+function describeSessions() {
+  const platforms = sessionHealth.getStatus();
+  return {
+    interval_minutes: sessionHealth.intervalMinutes,
+    needs_auth: platforms.filter(p => p.needsAuth).map(p => p.platform),
+    platforms,
+    rotation: accountRotation.strategy,
+    accounts: accountRotation.getStatus()
+  };
+}
+
+app.get('/api/admin/sessions', requireAdmin, (req, res) => {
+  res.json({ success: true, ...describeSessions() });
+});
+
+// Checks now instead of waiting for the next interval, e.g. after `npm run auth`.
+// Body: { platform? }. Without a platform every platform is checked.
+app.post('/api/admin/sessions/check', requireAdmin, async (req, res) => {
+  const { platform } = req.body || {};
+  if (platform !== undefined && !LOGIN_PLATFORMS.includes(platform)) {
+    return res.status(400).json({ error: `platform must be one of: ${LOGIN_PLATFORMS.join(', ')}` });
+  }
+
+  await sessionHealth.checkAll(platform ? [platform] : undefined);
+  res.json({ success: true, ...describeSessions() });
+});
+
 app.get('/', (req, res) => {
   res.send('Backend Server is Running! 🚀<br>Please open the frontend application (usually at http://localhost:5173) to use the app.');
 });
 
-// Health check
+// Health check. Fares still work on estimates while the scraping browser is down.
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok' });
+  const browser = BrowserService.getInstance();
+  const status = browser.getStatus();
+  res.json({
+    status: status.state === 'ready' || status.state === 'stopped' ? 'ok' : 'degraded',
+    browser: status,
+    browser_pool: browser.getStats()
+  });
 });
 
 // Graceful Shutdown
-process.on('SIGINT', async () => {
-  console.log('Shutting down...');
+let shuttingDown = false;
+async function shutdown(signal: NodeJS.Signals) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received. Shutting down...`);
+  priceAlerts.stop();
+  sessionHealth.stop();
+  server.close();
   await BrowserService.getInstance().close();
   process.exit(0);
-});
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`Server running on http://localhost:${port}`);
 });
@@ -0,0 +1,221 @@
+import { AccountOutcome, AccountRotationStrategy, AccountStatus, SessionInfo, StorageState, StoredSession } from '../interfaces/session';
+import { SessionVault } from './session-vault.service';
+
+// A vault account handed to one scrape. Call release() with how the scrape went, or
+// refund() when the scrape never reached the platform.
+export interface AccountLease {
+  account: string;
+  savedAt: string; // When the session was saved, so a new `npm run auth` can be told apart
+  state: StorageState;
+  release(outcome?: AccountOutcome): void;
+  refund(): void; // Takes the use back off the account's hourly budget
+}
+
+export class NoAccountAvailableError extends Error {
+  constructor(platform: string, reason: string) {
+    super(`No ${platform} account available: ${reason}`);
+    this.name = 'NoAccountAvailableError';
+  }
+}
+
+interface Quarantine {
+  reason: AccountOutcome;
+  at: number;
+  until: number | null; // Null: until the account is saved again
+  savedAt: string; // The session that was quarantined
+}
+
+interface AccountUsage {
+  uses: number[]; // When the account was handed out, over the last hour
+  lastUsedAt: number | null;
+  consecutiveErrors: number;
+  quarantine: Quarantine | null;
+  session: StoredSession | null; // Decrypted once per saved version
+}
+
+/**
+ * Spreads each platform's scrapes over every account saved in the session vault, so no
+ * single login carries all the traffic. SESSION_ROTATION picks the next account in turn
+ * (round_robin) or the one left unused longest (lru, the default).
+ *
+ * Each account may be handed out SESSION_ACCOUNT_REQUESTS_PER_HOUR times an hour. Scrapes that
+ * got no browser page are refunded. An account whose scrape lands on the login page is
+ * quarantined until `npm run auth` saves it again; one that errors ERROR_THRESHOLD times in
+ * a row sits out SESSION_QUARANTINE_MINUTES.
+ */
+export class AccountRotationService {
+  private static instance: AccountRotationService;
+
+  public static readonly STRATEGY: AccountRotationStrategy = process.env.SESSION_ROTATION === 'round_robin' ? 'round_robin' : 'lru';
+  public static readonly REQUESTS_PER_HOUR = parseInt(process.env.SESSION_ACCOUNT_REQUESTS_PER_HOUR || '30');
+  public static readonly QUARANTINE_MINUTES = parseInt(process.env.SESSION_QUARANTINE_MINUTES || '15');
+  public static readonly ERROR_THRESHOLD = 3;
+
+  private usage: Map<string, AccountUsage> = new Map();
+  private lastPicked: Map<string, string> = new Map(); // Round robin position per platform
+
+  constructor(
+    private vault: SessionVault = SessionVault.getInstance(),
+    public readonly strategy: AccountRotationStrategy = AccountRotationService.STRATEGY
+  ) {}
+
+  public static getInstance(): AccountRotationService {
+    if (!AccountRotationService.instance) {
+      AccountRotationService.instance = new AccountRotationService();
+    }
+    return AccountRotationService.instance;
+  }
+
+  // The next account to scrape the platform with. Null when the platform has no saved
+  // sessions, so it is scraped logged out. Throws NoAccountAvailableError when it has some
+  // but every one is expired, quarantined or over its budget.
+  public checkout(platform: string): AccountLease | null {
+    if (!this.vault.hasKey()) return null;
+    const saved = this.vault.list(platform);
+    if (saved.length === 0) return null;
+
+    const now = Date.now();
+    const states = saved.map(info => ({ info, state: this.stateOf(info, now) }));
+    const available = states.filter(s => s.state === 'available').map(s => s.info);
+    if (available.length === 0) {
+      const counts = states.reduce<Record<string, number>>((acc, s) => ({ ...acc, [s.state]: (acc[s.state] || 0) + 1 }), {});
+      throw new NoAccountAvailableError(platform, Object.entries(counts).map(([state, count]) => `${count} ${state}`).join(', '));
+    }
+
+    const info = this.select(platform, available);
+    const usage = this.usageOf(platform, info.account);
+    const session = this.sessionOf(info);
+    if (!session) {
+      throw new NoAccountAvailableError(platform, `the session of "${info.account}" was removed`);
+    }
+    const previousUse = usage.lastUsedAt;
+    usage.uses.push(now);
+    usage.lastUsedAt = now;
+    this.lastPicked.set(platform, info.account);
+
+    let released = false;
+    return {
+      account: info.account,
+      savedAt: session.savedAt,
+      state: session.state,
+      release: outcome => {
+        if (released) return;
+        released = true;
+        if (outcome) this.report(platform, info.account, outcome);
+      },
+      refund: () => {
+        if (released) return;
+        released = true;
+        const index = usage.uses.indexOf(now);
+        if (index >= 0) usage.uses.splice(index, 1);
+        if (usage.lastUsedAt === now) usage.lastUsedAt = previousUse;
+      }
+    };
+  }
+
+  // Sessions of the platform's accounts that checkout() could hand out now, to log browser
+  // contexts in ahead of time. Doesn't use up their budgets. Unreadable sessions are left out.
+  public availableSessions(platform: string): StoredSession[] {
+    if (!this.vault.hasKey()) return [];
+    const now = Date.now();
+    return this.vault.list(platform)
+      .filter(info => this.stateOf(info, now) === 'available')
+      .flatMap(info => {
+        try {
+          return this.sessionOf(info) ?? [];
+        } catch (err) {
+          console.warn(`[AccountRotation] Could not read the ${platform} session of "${info.account}":`, err instanceof Error ? err.message : err);
+          return [];
+        }
+      });
+  }
+
+  public report(platform: string, account: string, outcome: AccountOutcome): void {
+    const usage = this.usageOf(platform, account);
+    if (outcome === 'ok') {
+      usage.consecutiveErrors = 0;
+      return;
+    }
+
+    const savedAt = this.vault.list(platform).find(info => info.account === account)?.savedAt;
+    if (!savedAt) return;
+    if (outcome === 'login_redirect') {
+      this.quarantine(platform, account, usage, { reason: outcome, at: Date.now(), until: null, savedAt });
+    } else if (++usage.consecutiveErrors >= AccountRotationService.ERROR_THRESHOLD) {
+      const now = Date.now();
+      this.quarantine(platform, account, usage, { reason: outcome, at: now, until: now + AccountRotationService.QUARANTINE_MINUTES * 60000, savedAt });
+    }
+  }
+
+  public getStatus(platform?: string): AccountStatus[] {
+    const now = Date.now();
+    return this.vault.list(platform).map(info => {
+      const state = this.stateOf(info, now);
+      const usage = this.usageOf(info.platform, info.account);
+      return {
+        platform: info.platform,
+        account: info.account,
+        state,
+        requestsLastHour: usage.uses.length,
+        budgetPerHour: AccountRotationService.REQUESTS_PER_HOUR,
+        lastUsedAt: usage.lastUsedAt ? new Date(usage.lastUsedAt).toISOString() : null,
+        consecutiveErrors: usage.consecutiveErrors,
+        quarantineReason: usage.quarantine?.reason ?? null,
+        quarantinedAt: usage.quarantine ? new Date(usage.quarantine.at).toISOString() : null,
+        quarantinedUntil: usage.quarantine?.until ? new Date(usage.quarantine.until).toISOString() : null
+      };
+    });
+  }
+
+  private quarantine(platform: string, account: string, usage: AccountUsage, quarantine: Quarantine) {
+    usage.quarantine = quarantine;
+    usage.consecutiveErrors = 0;
+    const until = quarantine.until ? `until ${new Date(quarantine.until).toISOString()}` : `until it is saved again (npm run auth -- ${platform} ${account})`;
+    console.warn(`[AccountRotation] Quarantined ${platform} account "${account}" after ${quarantine.reason === 'login_redirect' ? 'a login redirect' : `${AccountRotationService.ERROR_THRESHOLD} errors`}, ${until}`);
+  }
+
+  // Also lifts quarantines that are over and forgets uses older than an hour
+  private stateOf(info: SessionInfo, now: number): AccountStatus['state'] {
+    const usage = this.usageOf(info.platform, info.account);
+    usage.uses = usage.uses.filter(time => time > now - 3600000);
+
+    const { quarantine } = usage;
+    if (quarantine && (quarantine.savedAt !== info.savedAt || (quarantine.until !== null && quarantine.until <= now))) {
+      usage.quarantine = null;
+    }
+
+    if (info.expired) return 'expired';
+    if (usage.quarantine) return 'quarantined';
+    if (usage.uses.length >= AccountRotationService.REQUESTS_PER_HOUR) return 'over_budget';
+    return 'available';
+  }
+
+  private select(platform: string, available: SessionInfo[]): SessionInfo {
+    const byName = [...available].sort((a, b) => a.account.localeCompare(b.account));
+    if (this.strategy === 'round_robin') {
+      const last = this.lastPicked.get(platform);
+      return byName.find(info => last === undefined || info.account.localeCompare(last) > 0) || byName[0];
+    }
+    const lastUsed = (info: SessionInfo) => this.usageOf(platform, info.account).lastUsedAt ?? 0;
+    return byName.reduce((best, info) => lastUsed(info) < lastUsed(best) ? info : best);
+  }
+
+  // Decrypts the session once per saved version
+  private sessionOf(info: SessionInfo): StoredSession | null {
+    const usage = this.usageOf(info.platform, info.account);
+    if (usage.session?.savedAt !== info.savedAt) {
+      usage.session = this.vault.load(info.platform, info.account);
+    }
+    return usage.session;
+  }
+
+  private usageOf(platform: string, account: string): AccountUsage {
+    const key = `${platform}:${account}`;
+    let usage = this.usage.get(key);
+    if (!usage) {
+      usage = { uses: [], lastUsedAt: null, consecutiveErrors: 0, quarantine: null, session: null };
+      this.usage.set(key, usage);
+    }
+    return usage;
+  }
+}
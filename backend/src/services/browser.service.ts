@@ -1,10 +1,150 @@
 import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { GeoLocation } from '../interfaces/types';
 
+export interface PageOptions {
+  geolocation?: GeoLocation;
+  timezoneId?: string;
+  account?: string; // Vault account the context is logged in as. Accounts never share a context.
+  session?: string; // Version of the account's saved session. Contexts of an older one are closed.
+  // Runs once on each new context of the platform, e.g. to load its login cookies
+  prepare?: (context: BrowserContext) => Promise<void>;
+}
+
+// A context to open ahead of the first request for it, with the options that request will pass
+export interface WarmContext {
+  platform: string;
+  options: PageOptions;
+}
+
+// A page on a pooled context. Call release() when done with it, passing true after an
+// error so the context is replaced rather than reused.
+export interface PageLease {
+  page: Page;
+  context: BrowserContext;
+  release(failed?: boolean): Promise<void>;
+}
+
+export interface BrowserPoolStats {
+  maxContexts: number;
+  inUse: number;
+  idle: number;
+  waiting: number;
+  created: number;
+  recycled: number;
+  timeouts: number;
+  platforms: Record<string, { inUse: number; idle: number; waiting: number }>;
+}
+
+// How big the pool is and how long contexts last. Defaults to the BrowserService statics.
+export interface BrowserPoolLimits {
+  maxContexts: number;
+  queueTimeoutMs: number;
+  contextMaxUses: number;
+}
+
+export type BrowserState = 'stopped' | 'launching' | 'ready' | 'restarting' | 'failed' | 'closing';
+
+export interface BrowserStatus {
+  state: BrowserState;
+  launchedAt: string | null;
+  crashes: number;
+  lastCrashAt: string | null;
+  relaunchAttempts: number; // Since the last crash
+  nextRelaunchAt: string | null;
+  lastError: string | null;
+}
+
+export class BrowserPoolTimeoutError extends Error {
+  constructor(platform: string, waitedMs: number) {
+    super(`No browser context for ${platform} became free within ${waitedMs}ms`);
+    this.name = 'BrowserPoolTimeoutError';
+  }
+}
+
+// Page requests made while the browser is down or shutting down
+export class BrowserUnavailableError extends Error {
+  constructor(reason: string) {
+    super(`Browser unavailable: ${reason}`);
+    this.name = 'BrowserUnavailableError';
+  }
+}
+
+const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+interface PooledContext {
+  key: string; // Platform, account, session and timezone, which can't change once a context exists
+  platform: string;
+  account?: string;
+  session?: string;
+  browser: Browser; // Contexts die with the browser they were opened in
+  context: BrowserContext;
+  uses: number;
+  lastUsed: number;
+}
+
+interface Waiter {
+  platform: string;
+  grant: () => void;
+  fail: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Shared Chromium instance with a pool of browser contexts per platform. At most
+ * MAX_CONTEXTS pages are scraping at once; further requests queue for up to
+ * QUEUE_TIMEOUT_MS. Contexts are kept warm between requests with their cookies loaded,
+ * and replaced after CONTEXT_MAX_USES uses or an error. Idle contexts of other platforms
+ * are closed when a new one is needed, so there are never more than MAX_CONTEXTS. Each time
+ * Chromium launches, the contexts given to setWarmup() are opened straight away, in order,
+ * as far as the pool has room.
+ *
+ * If Chromium disconnects unexpectedly, queued requests are rejected with
+ * BrowserUnavailableError and it is relaunched with exponential backoff, from
+ * RELAUNCH_BASE_MS up to RELAUNCH_MAX_MS, for at most MAX_RELAUNCH_ATTEMPTS. Requests made
+ * meanwhile fail straight away, so adapters fall back to estimates instead of waiting.
+ */
 export class BrowserService {
   private static instance: BrowserService;
   private browser: Browser | null = null;
-  
-  private constructor() {}
+
+  public static readonly MAX_CONTEXTS = parseInt(process.env.BROWSER_MAX_CONTEXTS || '4');
+  public static readonly QUEUE_TIMEOUT_MS = parseInt(process.env.BROWSER_QUEUE_TIMEOUT_MS || '30000');
+  public static readonly CONTEXT_MAX_USES = parseInt(process.env.BROWSER_CONTEXT_MAX_USES || '25');
+  public static readonly RELAUNCH_BASE_MS = 1000;
+  public static readonly RELAUNCH_MAX_MS = 60000;
+  public static readonly MAX_RELAUNCH_ATTEMPTS = 8;
+
+  private state: BrowserState = 'stopped';
+  private launching: Promise<void> | null = null;
+  private relaunchTimer: NodeJS.Timeout | null = null;
+  private health = {
+    launchedAt: null as Date | null,
+    crashes: 0,
+    lastCrashAt: null as Date | null,
+    relaunchAttempts: 0,
+    nextRelaunchAt: null as Date | null,
+    lastError: null as string | null
+  };
+
+  private idle: PooledContext[] = [];
+  private leased: Set<PooledContext> = new Set();
+  private slotsInUse = 0;
+  private waiters: Waiter[] = [];
+  private counters = { created: 0, recycled: 0, timeouts: 0 };
+  private warmup: () => WarmContext[] = () => [];
+
+  // Tests pass a launcher of their own, since Chromium isn't always installed
+  constructor(
+    private launcher: () => Promise<Browser> = () => chromium.launch({
+      headless: true, // Default to headless as requested
+      args: ['--no-sandbox', '--disable-setuid-sandbox']
+    }),
+    private limits: BrowserPoolLimits = {
+      maxContexts: BrowserService.MAX_CONTEXTS,
+      queueTimeoutMs: BrowserService.QUEUE_TIMEOUT_MS,
+      contextMaxUses: BrowserService.CONTEXT_MAX_USES
+    }
+  ) {}
 
   public static getInstance(): BrowserService {
     if (!BrowserService.instance) {
@@ -13,36 +153,304 @@ export class BrowserService {
     return BrowserService.instance;
   }
 
+  // Launches Chromium unless it is running. Concurrent calls share one launch.
   public async init(): Promise<void> {
-    if (!this.browser) {
-      console.log('Launching browser...');
-      this.browser = await chromium.launch({
-        headless: true, // Default to headless as requested
-        args: ['--no-sandbox', '--disable-setuid-sandbox']
+    if (this.browser?.isConnected()) return;
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
       });
     }
+    return this.launching;
+  }
+
+  // Asked for the contexts to open after every launch, so it can return current logins
+  public setWarmup(contexts: () => WarmContext[]): void {
+    this.warmup = contexts;
+  }
+
+  public getStatus(): BrowserStatus {
+    const iso = (date: Date | null) => date?.toISOString() ?? null;
+    return {
+      state: this.state,
+      launchedAt: iso(this.health.launchedAt),
+      crashes: this.health.crashes,
+      lastCrashAt: iso(this.health.lastCrashAt),
+      relaunchAttempts: this.health.relaunchAttempts,
+      nextRelaunchAt: iso(this.health.nextRelaunchAt),
+      lastError: this.health.lastError
+    };
+  }
+
+  private async launch(): Promise<void> {
+    const restarting = this.state === 'restarting';
+    if (!restarting) this.state = 'launching';
+    console.log('Launching browser...');
+    try {
+      const browser = await this.launcher();
+      if (this.state === 'closing') {
+        await browser.close();
+        return;
+      }
+      browser.on('disconnected', () => this.onDisconnected(browser));
+      this.browser = browser;
+      this.state = 'ready';
+      this.health.launchedAt = new Date();
+      this.health.relaunchAttempts = 0;
+      this.health.nextRelaunchAt = null;
+      this.health.lastError = null;
+      this.warm().catch(err => console.error('[BrowserService] Warming contexts failed:', err));
+    } catch (err) {
+      this.health.lastError = err instanceof Error ? err.message.split('\n')[0] : String(err);
+      // A relaunch keeps retrying on its own. Otherwise the next page request tries again.
+      if (!restarting) this.state = 'failed';
+      throw err;
+    }
+  }
+
+  private onDisconnected(browser: Browser) {
+    if (browser !== this.browser || this.state === 'closing') return; // Closed on purpose
+    this.browser = null;
+    this.health.crashes++;
+    this.health.lastCrashAt = new Date();
+    console.error('[BrowserService] Browser disconnected unexpectedly. Relaunching...');
+
+    // Idle contexts died with it. Leased ones fail their scrape and are replaced on release.
+    this.idle = [];
+    this.rejectWaiters(new BrowserUnavailableError('the browser crashed and is restarting'));
+    this.state = 'restarting';
+    this.health.relaunchAttempts = 0;
+    this.scheduleRelaunch();
+  }
+
+  private scheduleRelaunch() {
+    if (this.health.relaunchAttempts >= BrowserService.MAX_RELAUNCH_ATTEMPTS) {
+      console.error(`[BrowserService] Giving up after ${this.health.relaunchAttempts} relaunch attempts.`);
+      this.state = 'failed';
+      this.health.nextRelaunchAt = null;
+      return;
+    }
+
+    const delay = Math.min(BrowserService.RELAUNCH_BASE_MS * 2 ** this.health.relaunchAttempts, BrowserService.RELAUNCH_MAX_MS);
+    this.health.relaunchAttempts++;
+    this.health.nextRelaunchAt = new Date(Date.now() + delay);
+    this.relaunchTimer = setTimeout(() => {
+      this.relaunchTimer = null;
+      this.init().then(
+        () => console.log('[BrowserService] Browser relaunched.'),
+        err => {
+          console.error(`[BrowserService] Relaunch attempt ${this.health.relaunchAttempts} failed:`, this.health.lastError || err);
+          if (this.state === 'restarting') this.scheduleRelaunch();
+        }
+      );
+    }, delay);
+  }
+
+  private async warm(): Promise<void> {
+    const browser = this.browser;
+    for (const { platform, options } of this.warmup()) {
+      if (this.browser !== browser || this.state !== 'ready') return;
+      if (this.leased.size + this.idle.length >= this.limits.maxContexts) return;
+      if (this.idle.some(entry => entry.key === this.keyOf(platform, options))) continue;
+
+      try {
+        const entry = await this.openContext(platform, options);
+        if (entry.browser !== this.browser || this.leased.size + this.idle.length >= this.limits.maxContexts) {
+          await this.recycle(entry); // Crashed or filled up by requests meanwhile
+          return;
+        }
+        this.idle.push(entry);
+        console.log(`[BrowserService] Warmed a ${platform} context${options.account ? ` for "${options.account}"` : ''}.`);
+      } catch (err) {
+        console.warn(`[BrowserService] Could not warm a ${platform} context:`, err instanceof Error ? err.message : err);
+      }
+    }
+  }
+
+  private rejectWaiters(err: Error) {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(waiter => waiter.fail(err));
   }
 
-  public async getNewPage(): Promise<{ page: Page; context: BrowserContext }> {
-    if (!this.browser) {
-      await this.init();
+  // Pages report the trip's pickup as their location, so platforms show that city's fares.
+  // Waits for a free slot, and throws BrowserPoolTimeoutError when none frees up in time.
+  public async acquire(platform: string, options: PageOptions = {}): Promise<PageLease> {
+    if (this.state === 'restarting' || this.state === 'closing') {
+      throw new BrowserUnavailableError(this.state === 'closing' ? 'shutting down' : 'the browser crashed and is restarting');
+    }
+    await this.takeSlot(platform);
+
+    let pooled: PooledContext | null = null;
+    try {
+      pooled = await this.checkOut(platform, options);
+      const { geolocation } = options;
+      if (geolocation) {
+        await pooled.context.setGeolocation({ latitude: geolocation.lat, longitude: geolocation.lng });
+      }
+      const page = await pooled.context.newPage();
+
+      let released = false;
+      const entry = pooled;
+      return {
+        page,
+        context: pooled.context,
+        release: async (failed = false) => {
+          if (released) return;
+          released = true;
+          await page.close().catch(() => { /* Already gone with its context */ });
+          await this.checkIn(entry, failed);
+          this.freeSlot();
+        }
+      };
+    } catch (err) {
+      if (pooled) await this.checkIn(pooled, true);
+      this.freeSlot();
+      throw err;
     }
-    const context = await this.browser!.newContext({
+  }
+
+  public getStats(): BrowserPoolStats {
+    const platforms: BrowserPoolStats['platforms'] = {};
+    const count = (platform: string) => (platforms[platform] ??= { inUse: 0, idle: 0, waiting: 0 });
+    this.leased.forEach(entry => count(entry.platform).inUse++);
+    this.idle.forEach(entry => count(entry.platform).idle++);
+    this.waiters.forEach(waiter => count(waiter.platform).waiting++);
+
+    return {
+      maxContexts: this.limits.maxContexts,
+      inUse: this.leased.size,
+      idle: this.idle.length,
+      waiting: this.waiters.length,
+      ...this.counters,
+      platforms
+    };
+  }
+
+  // Stops relaunching, turns away queued requests and closes the browser
+  public async close(): Promise<void> {
+    this.state = 'closing';
+    if (this.relaunchTimer) clearTimeout(this.relaunchTimer);
+    this.relaunchTimer = null;
+    this.health.nextRelaunchAt = null;
+    this.rejectWaiters(new BrowserUnavailableError('shutting down'));
+
+    await Promise.all(this.idle.map(entry => entry.context.close().catch(() => {})));
+    this.idle = [];
+    if (this.browser) {
+      await this.browser.close().catch(() => { /* Already gone */ });
+      this.browser = null;
+    }
+    this.state = 'stopped';
+  }
+
+  private takeSlot(platform: string): Promise<void> {
+    if (this.slotsInUse < this.limits.maxContexts) {
+      this.slotsInUse++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        platform,
+        grant: () => {
+          clearTimeout(waiter.timer);
+          resolve();
+        },
+        fail: err => {
+          clearTimeout(waiter.timer);
+          reject(err);
+        },
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          this.counters.timeouts++;
+          reject(new BrowserPoolTimeoutError(platform, this.limits.queueTimeoutMs));
+        }, this.limits.queueTimeoutMs)
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  // Hands the slot straight to the longest waiting request, if any
+  private freeSlot() {
+    const next = this.waiters.shift();
+    if (next) {
+      next.grant();
+    } else {
+      this.slotsInUse--;
+    }
+  }
+
+  private keyOf(platform: string, { timezoneId = DEFAULT_TIMEZONE, account, session }: PageOptions): string {
+    return account ? `${platform}:${account}:${session ?? ''}:${timezoneId}` : `${platform}:${timezoneId}`;
+  }
+
+  private async checkOut(platform: string, options: PageOptions): Promise<PooledContext> {
+    const { account, session } = options;
+    const key = this.keyOf(platform, options);
+
+    // The account was saved again since these were logged in, e.g. after a login redirect
+    const stale = this.idle.filter(entry => account && entry.platform === platform && entry.account === account && entry.session !== session);
+    for (const entry of stale) {
+      this.idle.splice(this.idle.indexOf(entry), 1);
+      await this.recycle(entry);
+    }
+
+    const index = this.idle.findIndex(entry => entry.key === key);
+    if (index !== -1) {
+      const [entry] = this.idle.splice(index, 1);
+      this.leased.add(entry);
+      return entry;
+    }
+
+    // Make room by closing the least recently used idle contexts
+    this.idle.sort((a, b) => a.lastUsed - b.lastUsed);
+    while (this.idle.length > 0 && this.leased.size + this.idle.length >= this.limits.maxContexts) {
+      await this.recycle(this.idle.shift()!);
+    }
+
+    const entry = await this.openContext(platform, options);
+    this.leased.add(entry);
+    return entry;
+  }
+
+  // Launches the browser if it isn't running, then runs the context's prepare step
+  private async openContext(platform: string, options: PageOptions): Promise<PooledContext> {
+    const { timezoneId = DEFAULT_TIMEZONE, account, session } = options;
+    await this.init();
+    const browser = this.browser!;
+    const context = await browser.newContext({
       viewport: { width: 390, height: 844 }, // Mobile viewport
       userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1',
-      geolocation: { longitude: 77.5946, latitude: 12.9716 }, // Default to Bangalore
       permissions: ['geolocation'],
       locale: 'en-IN',
-      timezoneId: 'Asia/Kolkata'
+      timezoneId
     });
-    const page = await context.newPage();
-    return { page, context };
+    const entry: PooledContext = { key: this.keyOf(platform, options), platform, account, session, browser, context, uses: 0, lastUsed: Date.now() };
+    this.counters.created++;
+
+    try {
+      await options.prepare?.(context);
+    } catch (err) {
+      await this.recycle(entry);
+      throw err;
+    }
+    return entry;
   }
 
-  public async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+  private async checkIn(entry: PooledContext, failed: boolean) {
+    this.leased.delete(entry);
+    entry.uses++;
+    entry.lastUsed = Date.now();
+    if (failed || entry.uses >= this.limits.contextMaxUses || entry.browser !== this.browser || !entry.browser.isConnected()) {
+      await this.recycle(entry);
+    } else {
+      this.idle.push(entry);
     }
   }
+
+  private async recycle(entry: PooledContext) {
+    this.counters.recycled++;
+    await entry.context.close().catch(() => { /* Browser already gone */ });
+  }
 }
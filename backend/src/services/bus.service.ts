@@ -1,61 +1,38 @@
 import fs from 'fs';
 import path from 'path';
-import { parse } from 'csv-parse/sync';
+import { Worker } from 'worker_threads';
 import { GeoLocation } from '../interfaces/types';
+import { Agency, Stop, StopTime, Trip, Route, Calendar, CalendarDate, ShapePoint, StopTimeTable } from '../interfaces/gtfs';
+import { LatLng, polylineLengthKm, nearestPointIndex } from '../utils/geometry';
+import { SpatialIndex } from '../utils/spatial-index';
+import { ServiceTime, toServiceTime, previousServiceDay, parseTimeSeconds, formatTime } from '../utils/gtfs-time';
+import { RaptorService, RaptorJourney, RaptorEndpoint, JourneyTag, Footpath } from './raptor.service';
+import { StreetNetworkService } from './street-network.service';
 import { calculateDistance } from '../utils/fare-calculator';
+import { GtfsValidationError, ValidationReport } from './gtfs-validator';
+import { TransitMode, MODE_PROFILES, routeTypeToMode, routeColor } from '../utils/route-types';
+import { TransitFareService, FareBreakdown, FareLegInput } from './transit-fare.service';
+import { loadCompiledFeed, loadFeedConfigs, resolveFeedSource, cachePathFor, CompiledFeed, FeedConfig } from './gtfs-loader';
+import { GtfsCompileResult } from './gtfs-compile.worker';
 
-interface Stop {
-  stop_id: string;
-  stop_name: string;
-  stop_lat: number;
-  stop_lon: number;
-}
-
-interface StopTime {
-  trip_id: string;
-  arrival_time: string;
-  departure_time: string;
-  stop_id: string;
-  stop_sequence: number;
-}
-
-interface Trip {
-  route_id: string;
-  service_id: string;
-  trip_id: string;
-  trip_headsign?: string;
-}
-
-interface Route {
-  route_id: string;
-  route_short_name: string;
-  route_long_name: string;
-  route_type: string;
-}
-
-interface Calendar {
-  service_id: string;
-  monday: string;
-  tuesday: string;
-  wednesday: string;
-  thursday: string;
-  friday: string;
-  saturday: string;
-  sunday: string;
-  start_date: string;
-  end_date: string;
-}
+// Under ts-node the worker is the .ts source, which needs ts-node registered as well
+const COMPILE_WORKER_PATH = path.join(__dirname, `gtfs-compile.worker${path.extname(__filename)}`);
+const COMPILE_WORKER_EXEC_ARGV = path.extname(__filename) === '.ts' ? ['--require', 'ts-node/register/transpile-only'] : [];
 
 export interface RouteSegment {
-  type: 'walk' | 'bus';
+  type: 'walk' | TransitMode;
   start: { lat: number; lng: number; name: string };
   end: { lat: number; lng: number; name: string };
   distance: string;
   duration: string;
   instruction: string;
   path?: { lat: number; lng: number }[]; // For map drawing
-  stops?: { name: string; lat: number; lng: number; time: string }[]; // For bus segments
+  stops?: { name: string; lat: number; lng: number; time: string }[]; // For transit segments
   color?: string; // Hex color for UI
+  route_id?: string; // Namespaced as "<feed_id>:<route_id>"
+  route_type?: number; // GTFS route_type of the ridden route, `type` holds the matching mode
+  agency_name?: string;
+  agency_url?: string;
 }
 
 export interface BusRouteResult {
@@ -66,693 +43,877 @@ export interface BusRouteResult {
   arrival_time: string;
   duration: string;
   stops_count: number;
-  fare: number;
+  fare: number; // Same as fare_breakdown.total
+  fare_breakdown: FareBreakdown;
   path: { lat: number; lng: number; name: string; sequence: number }[];
   segments: RouteSegment[];
   total_distance: string;
+  transfers: number;
+  tags: JourneyTag[]; // Which Pareto criteria this option wins (fastest, fewest_transfers, least_walking)
+  feed_id: string; // Feed the journey was planned on
+  operators: { name: string; url: string }[]; // Agencies running the legs, in ride order
+}
+
+export interface FeedStatus {
+  feed_id: string;
+  start_date: string | null; // YYYYMMDD, first day covered by calendar/calendar_dates
+  end_date: string | null;
+  service_date: string; // Date the query was evaluated against, in the feed's timezone
+  stale: boolean; // Service date falls outside the feed's validity
+  warning?: string;
+  version: string; // Active feed version
+  loaded_at: string;
+}
+
+export interface FeedInfo {
+  id: string;
+  version: string; // feed_info.feed_version, or a content hash
+  source: string; // Directory or zip the feed was loaded from
+  timezone: string; // agency_timezone
+  agencies: string[];
+  compiled_at: string; // ISO timestamp the binary cache was built
+  loaded_at: string; // ISO timestamp the feed went live in this process
+  load_ms: number;
+  stops: number;
+  trips: number;
+  route_patterns: number;
+  footpaths: number; // Walking transfers between nearby stops
+  warnings: number; // Validator warnings found when the feed was compiled
+}
+
+// The latest reload of a feed, kept after it finishes so callers can poll for the outcome
+export interface FeedReloadStatus {
+  state: 'reloading' | 'succeeded' | 'failed';
+  source: string;
+  started_at: string;
+  finished_at: string | null;
+  version?: string; // Version swapped in
+  error?: string;
+  validation?: ValidationReport; // Report of a feed rejected by the validator
+}
+
+export interface BusQueryOptions {
+  departAt?: Date; // Leave no earlier than this instant (defaults to now)
+  arriveBy?: Date; // Reach the destination no later than this instant
+  maxTransfers?: number; // Defaults to DEFAULT_MAX_TRANSFERS
+  maxWalkMeters?: number; // Longest single walk: to the first stop, between stops or from the last one
+  riderCategory?: string; // Fare concession category, e.g. "woman" or a GTFS-Fares v2 rider_category_id
+}
+
+interface QueryWindow {
+  mode: 'depart' | 'arrive';
+  time: ServiceTime;
+}
+
+// A route with its departure and arrival in seconds since the query's service-day midnight,
+// negative for trips of the previous service day that left before it
+interface PlannedRoute {
+  result: BusRouteResult;
+  departure: number;
+  arrival: number;
+}
+
+// Everything derived from one GTFS feed. Queries read a single snapshot and a reload builds
+// a new one on the side, so swapping the reference is atomic and a request never mixes feeds.
+interface FeedSnapshot {
+  info: FeedInfo;
+  validation: ValidationReport;
+  agencies: Map<string, Agency>; // AgencyID -> Agency ('' for feeds that omit agency_id)
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
+  stops: Map<string, Stop>;
+  stopList: Stop[]; // Feed order, as referenced by StopTimeTable.stopIndices
+  stopTimes: StopTimeTable;
+  stopTimesRowByTripId: Map<string, number>; // TripID -> Index into stopTimes.tripIds
+  trips: Map<string, Trip>;
+  routes: Map<string, Route>;
+  calendar: Map<string, Calendar>;
+  calendarDates: Map<string, CalendarDate[]>; // Date -> Exceptions
+  activeServicesByDate: Map<string, Set<string>>; // Date -> Active service IDs (cache)
+  startDate: string | null;
+  endDate: string | null;
+  lastTimeSeconds: number; // Latest stop time of any trip, past 86400 when trips run after midnight
+  shapes: Map<string, ShapePoint[]>; // ShapeID -> Points (Ordered)
+  distanceScaleKm: number; // Multiplier from shape_dist_traveled units to km
+  router: RaptorService;
+  fares: TransitFareService;
+  stopIndex: SpatialIndex<Stop>;
 }
 
 export class BusService {
-  private stops: Map<string, Stop> = new Map();
-  private stopTimesByStopId: Map<string, StopTime[]> = new Map();
-  private stopTimesByTripId: Map<string, StopTime[]> = new Map();
-  private trips: Map<string, Trip> = new Map();
-  private routes: Map<string, Route> = new Map();
-  private calendar: Map<string, Calendar> = new Map();
-  
-  // Optimized Indices
-  private routesByStop: Map<string, Set<string>> = new Map(); // StopID -> Set<RouteID>
-  private stopsByRoute: Map<string, string[]> = new Map(); // RouteID -> List<StopID> (Ordered)
-
-  private isLoaded = false;
-
-  private readonly GTFS_PATH = path.join(process.cwd(), 'bus routing');
-
-  constructor() {
-    this.loadData();
-  }
-
-  private loadData() {
-    try {
-      console.log('[BusService] Loading GTFS data...');
-      
-      const stopsPath = path.join(this.GTFS_PATH, 'stops.csv');
-      const stopTimesPath = path.join(this.GTFS_PATH, 'stop_times.csv');
-      const tripsPath = path.join(this.GTFS_PATH, 'trips.csv');
-      const routesPath = path.join(this.GTFS_PATH, 'routes.csv');
-      const calendarPath = path.join(this.GTFS_PATH, 'calendar.csv');
-
-      if (!fs.existsSync(stopsPath) || !fs.existsSync(stopTimesPath) || !fs.existsSync(tripsPath)) {
-        console.warn('[BusService] GTFS files missing. Bus routing disabled.');
-        return;
+  // FeedID -> Active snapshot. Replaced as a whole on every swap, never mutated in place.
+  private feeds: Map<string, FeedSnapshot> = new Map();
+  private sources: Map<string, string> = new Map(); // FeedID -> Directory or zip
+  private pendingReloads: Map<string, Promise<FeedInfo>> = new Map();
+  private lastReloads: Map<string, FeedReloadStatus> = new Map();
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+  private watching = false;
+
+  private readonly DEFAULT_TIMEZONE = 'Asia/Kolkata';
+  private readonly WATCH_DEBOUNCE_MS = 2000;
+  private readonly NEARBY_STOP_RADIUS_KM = 2.0;
+  public static readonly DEFAULT_MAX_TRANSFERS = 2;
+  public static readonly MAX_TRANSFERS_LIMIT = 4;
+  public static readonly MAX_WALK_METERS = 2000;
+  private readonly MAX_JOURNEY_SECONDS = 4 * 3600;
+
+  // Without a walk network (no OSM_PATH), walks are straight lines between points
+  constructor(
+    configs: FeedConfig[] = loadFeedConfigs(),
+    private walkNetwork: StreetNetworkService | null = StreetNetworkService.fromEnv('foot')
+  ) {
+    const loaded = new Map<string, FeedSnapshot>();
+
+    for (const config of configs) {
+      this.sources.set(config.id, config.source);
+      try {
+        console.log(`[BusService] Loading GTFS feed "${config.id}"...`);
+        const snapshot = this.loadSnapshot(config.id, config.source);
+        if (snapshot) {
+          loaded.set(config.id, snapshot);
+        } else {
+          console.warn(`[BusService] GTFS files missing for "${config.id}". Its routes are disabled.`);
+        }
+      } catch (error) {
+        if (error instanceof GtfsValidationError) {
+          console.error(`[BusService] "${config.id}": ${error.message}. Its routes are disabled. Run npm run validate-gtfs for the full report.`);
+        } else {
+          console.error(`[BusService] Error loading GTFS feed "${config.id}":`, error);
+        }
       }
+    }
 
-      const loadCsv = (filePath: string) => {
-        const fileContent = fs.readFileSync(filePath, 'utf-8');
-        return parse(fileContent, {
-          columns: true,
-          skip_empty_lines: true,
-          trim: true
-        });
-      };
+    this.feeds = loaded;
+  }
 
-      // Load Stops
-      const stopsData = loadCsv(stopsPath);
-      stopsData.forEach((s: any) => {
-        this.stops.set(s.stop_id, {
-          ...s,
-          stop_lat: parseFloat(s.stop_lat),
-          stop_lon: parseFloat(s.stop_lon)
-        });
-      });
+  public getFeedIds(): string[] {
+    return [...this.sources.keys()];
+  }
 
-      // Load Trips
-      const tripsData = loadCsv(tripsPath);
-      tripsData.forEach((t: any) => {
-        this.trips.set(t.trip_id, t as Trip);
+  /**
+   * Load a feed (directory or zip, defaults to its current source) and swap it in once it
+   * has loaded. An unknown feed ID adds a new feed. Concurrent calls for the same feed share
+   * the reload in flight. The feed is parsed, validated and compiled in a worker thread, so
+   * queries keep being answered from the previous snapshot until the swap. It stays active
+   * if the new one fails to load. getReloadStatus() reports the outcome.
+   */
+  public reload(feedId: string, source?: string): Promise<FeedInfo> {
+    const pending = this.pendingReloads.get(feedId);
+    if (pending) return pending;
+
+    const feedSource = source || this.sources.get(feedId);
+    if (!feedSource) return Promise.reject(new Error(`Unknown GTFS feed "${feedId}" and no source given`));
+
+    const startedAt = Date.now();
+    const status: FeedReloadStatus = { state: 'reloading', source: feedSource, started_at: new Date(startedAt).toISOString(), finished_at: null };
+    this.lastReloads.set(feedId, status);
+    console.log(`[BusService] Reloading GTFS feed "${feedId}" from ${feedSource}...`);
+
+    const reload = this.compileInWorker(feedSource).then(compiled => {
+      if (!compiled) throw new Error(`No GTFS feed found at ${feedSource}`);
+      const snapshot = this.snapshotFrom(feedId, feedSource, compiled, startedAt);
+
+      this.feeds = new Map(this.feeds).set(feedId, snapshot);
+      if (feedSource !== this.sources.get(feedId)) {
+        this.sources.set(feedId, feedSource);
+        if (this.watching) this.watchFeed(feedId);
+      }
+      console.log(`[BusService] Switched "${feedId}" to GTFS feed ${snapshot.info.version}.`);
+      Object.assign(status, { state: 'succeeded', finished_at: new Date().toISOString(), version: snapshot.info.version });
+      return snapshot.info;
+    }).catch(error => {
+      console.error(`[BusService] GTFS reload of "${feedId}" failed, keeping the active feed:`, error);
+      Object.assign(status, {
+        state: 'failed',
+        finished_at: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+        validation: error instanceof GtfsValidationError ? error.report : undefined
       });
+      throw error;
+    }).finally(() => {
+      this.pendingReloads.delete(feedId);
+    });
 
-      // Load Routes
-      const routesData = loadCsv(routesPath);
-      routesData.forEach((r: any) => {
-        this.routes.set(r.route_id, r as Route);
-      });
+    this.pendingReloads.set(feedId, reload);
+    return reload;
+  }
 
-      // Load StopTimes (Optimized Indexing)
-      console.log('[BusService] Indexing StopTimes...');
-      const stopTimesData = loadCsv(stopTimesPath);
-      
-      // Temporary map to build stopsByRoute efficiently
-      const routeSampleTrip = new Map<string, string>(); // RouteID -> TripID
-      tripsData.forEach((t: any) => {
-          if (!routeSampleTrip.has(t.route_id)) {
-              routeSampleTrip.set(t.route_id, t.trip_id);
-          }
-      });
+  // Reload every configured feed from its current source, one after another. A failing
+  // feed doesn't stop the others, its error is rethrown once they are done.
+  public async reloadAll(): Promise<FeedInfo[]> {
+    const infos: FeedInfo[] = [];
+    let failure: unknown = null;
+    for (const feedId of this.getFeedIds()) {
+      try {
+        infos.push(await this.reload(feedId));
+      } catch (error) {
+        failure = failure || error;
+      }
+    }
+    if (failure) throw failure;
+    return infos;
+  }
 
-      const tempStopsByTrip = new Map<string, {seq: number, stop_id: string}[]>();
-
-      stopTimesData.forEach((s: any) => {
-        const st: StopTime = {
-          ...s,
-          stop_sequence: parseInt(s.stop_sequence)
-        };
-        
-        // Index by Stop ID
-        if (!this.stopTimesByStopId.has(st.stop_id)) {
-          this.stopTimesByStopId.set(st.stop_id, []);
-        }
-        this.stopTimesByStopId.get(st.stop_id)?.push(st);
+  public getFeedInfo(feedId: string): FeedInfo | null {
+    return this.feeds.get(feedId)?.info ?? null;
+  }
 
-        // Index by Trip ID
-        if (!this.stopTimesByTripId.has(st.trip_id)) {
-            this.stopTimesByTripId.set(st.trip_id, []);
-        }
-        this.stopTimesByTripId.get(st.trip_id)?.push(st);
-
-        // Build RoutesByStop
-        const trip = this.trips.get(st.trip_id);
-        if (trip) {
-            if (!this.routesByStop.has(st.stop_id)) {
-                this.routesByStop.set(st.stop_id, new Set());
-            }
-            this.routesByStop.get(st.stop_id)?.add(trip.route_id);
-        }
+  public getFeedInfos(): FeedInfo[] {
+    return [...this.feeds.values()].map(feed => feed.info);
+  }
+
+  public getValidationReport(feedId: string): ValidationReport | null {
+    return this.feeds.get(feedId)?.validation ?? null;
+  }
+
+  public getReloadStatus(feedId: string): FeedReloadStatus | null {
+    return this.lastReloads.get(feedId) ?? null;
+  }
+
+  public isReloading(feedId?: string): boolean {
+    return feedId ? this.pendingReloads.has(feedId) : this.pendingReloads.size > 0;
+  }
+
+  // Reload feeds automatically when files in their source change (debounced, since
+  // copying a feed touches every file)
+  public watch(): void {
+    this.watching = true;
+    this.getFeedIds().forEach(feedId => this.watchFeed(feedId));
+  }
+
+  public unwatch(): void {
+    this.watching = false;
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+  }
 
-        // Build Temp StopsByTrip (only for sample trips)
-        // This is an optimization to avoid storing every trip's full path
-        // But we need to check if this trip is a sample trip
-        // Checking map for every row is fast enough
+  private watchFeed(feedId: string) {
+    const source = this.sources.get(feedId);
+    this.watchers.get(feedId)?.close();
+    if (!source || !fs.existsSync(source)) return;
+
+    let timer: NodeJS.Timeout | null = null;
+    this.watchers.set(feedId, fs.watch(source, () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        this.reload(feedId).catch(() => { /* Already logged, the active feed stays in place */ });
+      }, this.WATCH_DEBOUNCE_MS);
+    }));
+    console.log(`[BusService] Watching ${source} for changes to "${feedId}".`);
+  }
+
+  // Startup load, before any request is served
+  private loadSnapshot(feedId: string, source: string): FeedSnapshot | null {
+    const startedAt = Date.now();
+    const gtfsPath = resolveFeedSource(source);
+    const compiled = loadCompiledFeed(gtfsPath, cachePathFor(gtfsPath));
+    return compiled ? this.snapshotFrom(feedId, source, compiled, startedAt) : null;
+  }
+
+  // Resolves, compiles and caches a feed source in a worker thread
+  private compileInWorker(source: string): Promise<CompiledFeed | null> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(COMPILE_WORKER_PATH, { workerData: { source }, execArgv: COMPILE_WORKER_EXEC_ARGV });
+      worker.once('message', (result: GtfsCompileResult) => {
+        if ('error' in result) {
+          reject(result.report ? new GtfsValidationError(result.report) : new Error(result.error));
+        } else {
+          resolve(result.feed);
+        }
+      });
+      worker.once('error', reject);
+      worker.once('exit', code => {
+        if (code !== 0) reject(new Error(`GTFS compile worker exited with code ${code}`));
       });
+    });
+  }
 
-      // Build StopsByRoute from sample trips
-      // We iterate trips because we need the full sequence
-      // Actually, we can just iterate stopTimesByTripId for the sample trips
-      routeSampleTrip.forEach((tripId, routeId) => {
-          const tripStops = this.stopTimesByTripId.get(tripId);
-          if (tripStops) {
-              const sortedStops = tripStops
-                  .sort((a, b) => a.stop_sequence - b.stop_sequence)
-                  .map(st => st.stop_id);
-              this.stopsByRoute.set(routeId, sortedStops);
-          }
+  private snapshotFrom(feedId: string, source: string, compiled: CompiledFeed, startedAt: number): FeedSnapshot {
+    if (compiled.stops.length === 0 || compiled.patterns.length === 0) {
+      throw new Error('GTFS feed has no stops or no scheduled trips');
+    }
+
+    const snapshot = this.buildSnapshot(feedId, source, compiled);
+    snapshot.info.load_ms = Date.now() - startedAt;
+
+    console.log(`[BusService] Loaded ${snapshot.stops.size} stops, ${compiled.stopTimes.stopIndices.length} stop_times, ${snapshot.trips.size} trips, ${snapshot.shapes.size} shapes.`);
+    console.log(`[BusService] Indexed ${snapshot.router.patternCount} route patterns in ${snapshot.info.load_ms}ms.`);
+    return snapshot;
+  }
+
+  private buildSnapshot(feedId: string, source: string, compiled: CompiledFeed): FeedSnapshot {
+    const routesById = new Map(compiled.routes.map(r => [r.route_id, r]));
+    const footpaths = this.walkNetwork ? this.routeFootpaths(compiled) : compiled.footpaths;
+    const located = compiled.stops.filter(s => !isNaN(s.stop_lat) && !isNaN(s.stop_lon));
+    const feed: FeedSnapshot = {
+      info: {
+        id: feedId,
+        version: compiled.feedVersion,
+        source,
+        timezone: compiled.agencies[0]?.agency_timezone || this.DEFAULT_TIMEZONE,
+        agencies: compiled.agencies.map(a => a.agency_name),
+        compiled_at: new Date(compiled.compiledAt).toISOString(),
+        loaded_at: new Date().toISOString(),
+        load_ms: 0,
+        stops: compiled.stops.length,
+        trips: compiled.trips.length,
+        route_patterns: compiled.patterns.length,
+        footpaths: footpaths.length,
+        warnings: compiled.validation.warnings
+      },
+      validation: compiled.validation,
+      agencies: new Map(compiled.agencies.map(a => [a.agency_id || '', a])),
+      bounds: {
+        minLat: Math.min(...located.map(s => s.stop_lat)),
+        maxLat: Math.max(...located.map(s => s.stop_lat)),
+        minLng: Math.min(...located.map(s => s.stop_lon)),
+        maxLng: Math.max(...located.map(s => s.stop_lon))
+      },
+      stops: new Map(compiled.stops.map(s => [s.stop_id, s])),
+      stopList: compiled.stops,
+      stopTimes: compiled.stopTimes,
+      stopTimesRowByTripId: new Map(compiled.stopTimes.tripIds.map((tripId, i) => [tripId, i])),
+      trips: new Map(compiled.trips.map(t => [t.trip_id, t])),
+      routes: routesById,
+      calendar: new Map(compiled.calendar.map(c => [c.service_id, c])),
+      calendarDates: new Map(),
+      activeServicesByDate: new Map(),
+      startDate: null,
+      endDate: null,
+      lastTimeSeconds: compiled.stopTimes.arrivals.reduce((max, t) => Math.max(max, t), 0),
+      shapes: compiled.shapes,
+      distanceScaleKm: compiled.distanceScaleKm,
+      router: new RaptorService(
+        compiled.stops.map(s => s.stop_id),
+        compiled.patterns,
+        pattern => MODE_PROFILES[this.getRouteMode(routesById.get(pattern.routeId))].transferSeconds,
+        footpaths
+      ),
+      fares: new TransitFareService(feedId, compiled.fares, compiled.agencies.length),
+      stopIndex: new SpatialIndex<Stop>(compiled.stops, s => ({ lat: s.stop_lat, lng: s.stop_lon }))
+    };
+
+    // Holidays and special service
+    compiled.calendarDates.forEach(d => {
+      if (!feed.calendarDates.has(d.date)) {
+        feed.calendarDates.set(d.date, []);
+      }
+      feed.calendarDates.get(d.date)?.push(d);
+    });
+    this.computeFeedValidity(feed);
+
+    return feed;
+  }
+
+  // Compiled footpaths are straight lines. Re-measure them along the streets and drop the ones
+  // that turn out to be long detours (a rail line or a highway in between), except those
+  // transfers.txt lists explicitly.
+  private routeFootpaths(compiled: CompiledFeed): Footpath[] {
+    const stopLocation = (index: number) => ({ lat: compiled.stops[index].stop_lat, lng: compiled.stops[index].stop_lon });
+    const byStop = new Map<number, Footpath[]>();
+    compiled.footpaths.forEach(footpath => {
+      if (!byStop.has(footpath.from)) byStop.set(footpath.from, []);
+      byStop.get(footpath.from)!.push(footpath);
+    });
+
+    const routed: Footpath[] = [];
+    const maxMeters = RaptorService.MAX_FOOTPATH_METERS * 1.5;
+    byStop.forEach((footpaths, from) => {
+      const walks = this.walkRoutes(stopLocation(from), footpaths.map(f => stopLocation(f.to)), maxMeters);
+      footpaths.forEach((footpath, i) => {
+        const walk = walks[i];
+        if (footpath.listed) {
+          routed.push(footpath);
+        } else if (walk) {
+          const meters = Math.round(walk.meters);
+          routed.push({ ...footpath, meters, seconds: this.getWalkTimeMins(meters / 1000) * 60 });
+        }
       });
+    });
+
+    console.log(`[BusService] Routed footpaths along streets: kept ${routed.length} of ${compiled.footpaths.length}.`);
+    return routed;
+  }
 
-      this.isLoaded = true;
-      console.log(`[BusService] Loaded ${this.stops.size} stops, ${stopTimesData.length} stop_times, ${this.trips.size} trips.`);
-      console.log(`[BusService] Indexed ${this.routesByStop.size} stops with routes and ${this.stopsByRoute.size} unique route paths.`);
+  // Walks from one point to several, along the street network when one is loaded. Points off
+  // the network fall back to straight lines. Targets further than maxMeters come back as null.
+  private walkRoutes(from: GeoLocation, targets: GeoLocation[], maxMeters: number): ({ meters: number; path: GeoLocation[] } | null)[] {
+    const straight = (to: GeoLocation) => {
+      const meters = calculateDistance(from.lat, from.lng, to.lat, to.lng) * 1000;
+      return meters <= maxMeters ? { meters, path: [from, to] } : null;
+    };
+
+    const network = this.walkNetwork;
+    if (!network || !network.covers(from)) return targets.map(straight);
+    const routes = network.routesFrom(from, targets, maxMeters);
+    return targets.map((to, i) => routes[i] ?? (network.covers(to) ? null : straight(to)));
+  }
 
-    } catch (error) {
-      console.error('[BusService] Error loading GTFS data:', error);
-    }
+  // Feeds with a stop within walking distance of both points. Large-scale bounds first, then
+  // an actual stop lookup with the same radius as the walks to and from the stops.
+  private getCoveringFeeds(feeds: Map<string, FeedSnapshot>, pickup: GeoLocation, drop: GeoLocation, maxWalkMeters: number): FeedSnapshot[] {
+    const radiusKm = maxWalkMeters / 1000;
+    const padLat = radiusKm / 111.32;
+    const inBounds = (feed: FeedSnapshot, p: GeoLocation) => {
+      const padLng = padLat / Math.max(Math.cos(p.lat * Math.PI / 180), 1e-6);
+      return p.lat >= feed.bounds.minLat - padLat && p.lat <= feed.bounds.maxLat + padLat
+        && p.lng >= feed.bounds.minLng - padLng && p.lng <= feed.bounds.maxLng + padLng;
+    };
+
+    return [...feeds.values()].filter(feed =>
+      inBounds(feed, pickup) && inBounds(feed, drop)
+      && this.nearbyStops(feed, pickup, 1, radiusKm).length > 0 && this.nearbyStops(feed, drop, 1, radiusKm).length > 0
+    );
   }
 
-  public findRoutes(pickup: GeoLocation, drop: GeoLocation): BusRouteResult[] {
-    if (!this.isLoaded) {
+  public findRoutes(pickup: GeoLocation, drop: GeoLocation, options: BusQueryOptions = {}): BusRouteResult[] {
+    const feeds = this.feeds;
+    if (feeds.size === 0) {
         console.log('[BusService] Data not loaded yet.');
         return [];
     }
 
+    const maxTransfers = Math.min(options.maxTransfers ?? BusService.DEFAULT_MAX_TRANSFERS, BusService.MAX_TRANSFERS_LIMIT);
     console.log(`[BusService] Finding routes from ${pickup.lat},${pickup.lng} to ${drop.lat},${drop.lng}`);
 
-    // 1. Find nearest stops to pickup and drop
-    const nearbyPickupStops = this.findNearbyStopsWithDistance(pickup);
-    const nearbyDropStops = this.findNearbyStopsWithDistance(drop);
+    const covering = this.getCoveringFeeds(feeds, pickup, drop, options.maxWalkMeters ?? BusService.MAX_WALK_METERS);
+    if (covering.length === 0) {
+        console.log('[BusService] No GTFS feed covers both pickup and drop.');
+        return [];
+    }
 
-    console.log(`[BusService] Found ${nearbyPickupStops.length} nearby pickup stops and ${nearbyDropStops.length} nearby drop stops.`);
+    const mode: QueryWindow['mode'] = options.arriveBy ? 'arrive' : 'depart';
+    const allRoutes = covering.flatMap(feed => this.findFeedRoutes(feed, pickup, drop, options, maxTransfers));
 
-    if (nearbyPickupStops.length === 0 || nearbyDropStops.length === 0) {
+    // Filter out routes with excessive duration (> 4 hours)
+    const filteredRoutes = allRoutes.filter(r => r.arrival - r.departure < this.MAX_JOURNEY_SECONDS);
+
+    // Depart-at: earliest arrival first. Arrive-by: latest departure first.
+    return filteredRoutes.sort((a, b) => {
+        if (mode === 'arrive') {
+            return b.departure - a.departure;
+        }
+        const arrDiff = a.arrival - b.arrival;
+        return arrDiff !== 0 ? arrDiff : parseInt(a.result.duration) - parseInt(b.result.duration);
+    }).slice(0, 5).map(r => r.result);
+  }
+
+  private findFeedRoutes(feed: FeedSnapshot, pickup: GeoLocation, drop: GeoLocation, options: BusQueryOptions, maxTransfers: number): PlannedRoute[] {
+    const query: QueryWindow = options.arriveBy
+        ? { mode: 'arrive', time: toServiceTime(options.arriveBy, feed.info.timezone) }
+        : { mode: 'depart', time: toServiceTime(options.departAt || new Date(), feed.info.timezone) };
+
+    console.log(`[BusService] [${feed.info.id}] ${query.mode === 'arrive' ? 'Arrive by' : 'Depart at'} ${formatTime(query.time.seconds)} on service date ${query.time.serviceDate}, max ${maxTransfers} transfers`);
+
+    // 1. Find the stops within walking distance of pickup and drop. Straight-line distance is
+    // a lower bound of the walk, so it narrows the candidates before routing on the streets.
+    const maxWalkMeters = options.maxWalkMeters ?? BusService.MAX_WALK_METERS;
+    const origins = this.walkEndpoints(feed, pickup, maxWalkMeters, 'from');
+    const destinations = this.walkEndpoints(feed, drop, maxWalkMeters, 'to');
+
+    console.log(`[BusService] Found ${origins.length} nearby pickup stops and ${destinations.length} nearby drop stops.`);
+
+    if (origins.length === 0 || destinations.length === 0) {
         console.log('[BusService] No nearby stops found within range.');
       return [];
     }
 
-    // 2. Find Direct Routes
-    console.log('[BusService] Searching for direct routes...');
-    const directRoutes = this.findDirectRoutes(pickup, drop, nearbyPickupStops, nearbyDropStops);
-    console.log(`[BusService] Found ${directRoutes.length} direct routes.`);
-    
-    // 3. Find Transfer Routes (1-hop)
-    // Only look for transfers if we don't have enough direct routes
-    let transferRoutes: BusRouteResult[] = [];
-    if (directRoutes.length < 5) {
-        console.log('[BusService] Searching for transfer routes...');
-        transferRoutes = this.findTransferRoutes(pickup, drop, nearbyPickupStops, nearbyDropStops);
-        console.log(`[BusService] Found ${transferRoutes.length} transfer routes.`);
+    // 2. Run the round-based router from all nearby pickup stops to all nearby drop stops.
+    // Trips of the previous service day with times past 24:00:00 are still running, so when
+    // the query falls within their reach, plan on that day too, 24 hours later in its times.
+    const days = [query.time];
+    const reach = query.mode === 'arrive' ? this.MAX_JOURNEY_SECONDS : 0;
+    if (query.time.seconds + 86400 <= feed.lastTimeSeconds + reach) {
+        days.push(previousServiceDay(query.time));
     }
 
-    const allRoutes = [...directRoutes, ...transferRoutes];
+    return days.flatMap(day => {
+        const dayOffset = query.time.seconds - day.seconds;
+        const journeys = feed.router.plan({
+            origins,
+            destinations,
+            time: day.seconds,
+            mode: query.mode,
+            maxTransfers,
+            maxWalkMeters,
+            isServiceActive: serviceId => this.isServiceActive(feed, serviceId, day)
+        });
+        console.log(`[BusService] Router returned ${journeys.length} Pareto-optimal journeys on service date ${day.serviceDate}.`);
 
-    // Filter out routes with excessive duration (> 4 hours)
-    const filteredRoutes = allRoutes.filter(r => {
-        const dur = parseInt(r.duration);
-        return dur < 240; // Max 4 hours
+        return journeys.map(j => ({
+            result: this.buildRouteResult(feed, pickup, drop, j, options.riderCategory, dayOffset),
+            departure: j.legs[0].departure + dayOffset,
+            arrival: j.legs[j.legs.length - 1].arrival + dayOffset
+        }));
     });
+  }
 
-    return filteredRoutes.sort((a, b) => {
-        const durA = parseInt(a.duration);
-        const durB = parseInt(b.duration);
-        return durA - durB;
-    }).slice(0, 5);
-  }
-
-  private calculateBusFare(distanceKm: number): number {
-    // DTC Fare Structure (Non-AC / AC Mixed assumption capped at 25)
-    // 0-4 km: ₹5
-    // 4-10 km: ₹10
-    // 10-15 km: ₹15
-    // 15-20 km: ₹20
-    // >20 km: ₹25
-    if (distanceKm <= 4) return 5;
-    if (distanceKm <= 10) return 10;
-    if (distanceKm <= 15) return 15;
-    if (distanceKm <= 20) return 20;
-    return 25;
-  }
-
-  private parseTimeSeconds(timeStr: string): number {
-      const [h, m, s] = timeStr.split(':').map(Number);
-      return h * 3600 + m * 60 + s;
-  }
-
-  private formatTime(seconds: number): string {
-      const h = Math.floor(seconds / 3600);
-      const m = Math.floor((seconds % 3600) / 60);
-      const s = seconds % 60;
-      return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
-  }
-
-  private findDirectRoutes(
-    pickup: GeoLocation, 
-    drop: GeoLocation, 
-    pStops: { stop: Stop, distance: number }[], 
-    dStops: { stop: Stop, distance: number }[]
-  ): BusRouteResult[] {
-    const results: BusRouteResult[] = [];
-    const seenRoutes = new Set<string>();
-
-    // 1. Identify Routes at Pickup and Drop
-    const pRoutesMap = new Map<string, { stop: Stop, distance: number }[]>(); 
-    const dRoutesMap = new Map<string, { stop: Stop, distance: number }[]>();
-
-    for (const p of pStops) {
-        const routes = this.routesByStop.get(p.stop.stop_id);
-        if (routes) {
-            routes.forEach(rId => {
-                if (!pRoutesMap.has(rId)) pRoutesMap.set(rId, []);
-                pRoutesMap.get(rId)?.push(p);
-            });
-        }
-    }
+  // Walks between a point and its nearby stops, 'from' the point (pickup) or 'to' it (drop)
+  private walkEndpoints(feed: FeedSnapshot, point: GeoLocation, maxWalkMeters: number, direction: 'from' | 'to'): RaptorEndpoint[] {
+    const nearby = this.nearbyStops(feed, point, 20, maxWalkMeters / 1000);
+    const walks = this.walkRoutes(point, nearby.map(item => ({ lat: item.stop.stop_lat, lng: item.stop.stop_lon })), maxWalkMeters);
+
+    const endpoints: RaptorEndpoint[] = [];
+    nearby.forEach((item, i) => {
+      const walk = walks[i];
+      if (!walk) return;
+      endpoints.push({
+        stopId: item.stop.stop_id,
+        walkSeconds: this.getWalkTimeMins(walk.meters / 1000) * 60,
+        walkMeters: walk.meters,
+        walkPath: direction === 'from' ? walk.path : [...walk.path].reverse()
+      });
+    });
+    return endpoints;
+  }
 
-    for (const d of dStops) {
-        const routes = this.routesByStop.get(d.stop.stop_id);
-        if (routes) {
-            routes.forEach(rId => {
-                if (!dRoutesMap.has(rId)) dRoutesMap.set(rId, []);
-                dRoutesMap.get(rId)?.push(d);
-            });
-        }
-    }
+  // Routes without a usable route_type are treated as buses, like the bundled DTC feed
+  private getRouteMode(route: Route | undefined): TransitMode {
+    const routeType = route ? parseInt(route.route_type) : NaN;
+    return isNaN(routeType) ? 'bus' : routeTypeToMode(routeType);
+  }
 
-    // 2. Intersect Routes
-    const commonRouteIds = [...pRoutesMap.keys()].filter(rId => dRoutesMap.has(rId));
-    console.log(`[BusService] Found ${commonRouteIds.length} common routes directly connecting areas.`);
-
-    for (const routeId of commonRouteIds) {
-        const routeStops = this.stopsByRoute.get(routeId);
-        if (!routeStops) continue;
-
-        const potentialPStops = pRoutesMap.get(routeId) || [];
-        const potentialDStops = dRoutesMap.get(routeId) || [];
-
-        for (const pStopItem of potentialPStops) {
-            for (const dStopItem of potentialDStops) {
-                const pIndex = routeStops.indexOf(pStopItem.stop.stop_id);
-                const dIndex = routeStops.indexOf(dStopItem.stop.stop_id);
-
-                if (pIndex !== -1 && dIndex !== -1 && pIndex < dIndex) {
-                    // Valid Direction!
-                    const route = this.routes.get(routeId);
-                    if (!route) continue;
-
-                    // Find a valid trip
-                    const tripInfo = this.findTripForLeg(routeId, pStopItem.stop.stop_id, dStopItem.stop.stop_id);
-
-                    if (tripInfo) {
-                        const routeName = route.route_short_name || route.route_long_name;
-                        const uniqueKey = `${routeName}-${pStopItem.stop.stop_name}-${dStopItem.stop.stop_name}`;
-                        
-                        if (!seenRoutes.has(uniqueKey)) {
-                            console.log(`[BusService] Found Direct Route: ${routeName}`);
-                            results.push(this.buildRouteResult(
-                                pickup, drop, pStopItem, dStopItem,
-                                tripInfo.trip, route, tripInfo.start, tripInfo.end, tripInfo.stops, routeName
-                            ));
-                            seenRoutes.add(uniqueKey);
-                        }
-                    }
-                }
-            }
-            if (results.length >= 5) break;
-        }
-        if (results.length >= 5) break;
-    }
+  private getWalkTimeMins(distanceKm: number): number {
+      return Math.ceil((distanceKm * 1000) / 80);
+  }
 
-    return results;
+  // Status of the feeds a query between pickup and drop would use, or of every feed
+  public getFeedStatuses(at: Date = new Date(), pickup?: GeoLocation, drop?: GeoLocation, maxWalkMeters: number = BusService.MAX_WALK_METERS): FeedStatus[] {
+      const feeds = pickup && drop ? this.getCoveringFeeds(this.feeds, pickup, drop, maxWalkMeters) : [...this.feeds.values()];
+      return feeds.map(feed => this.getFeedStatus(feed, at));
   }
 
-  private findTransferRoutes(
-    pickup: GeoLocation,
-    drop: GeoLocation,
-    pStops: { stop: Stop, distance: number }[],
-    dStops: { stop: Stop, distance: number }[]
-  ): BusRouteResult[] {
-    const results: BusRouteResult[] = [];
-    const seenRoutes = new Set<string>();
+  private getFeedStatus(feed: FeedSnapshot, at: Date): FeedStatus {
+      const { serviceDate } = toServiceTime(at, feed.info.timezone);
+      const status: FeedStatus = {
+          feed_id: feed.info.id,
+          start_date: feed.startDate,
+          end_date: feed.endDate,
+          service_date: serviceDate,
+          stale: this.isOutsideFeed(feed, serviceDate),
+          version: feed.info.version,
+          loaded_at: feed.info.loaded_at
+      };
 
-    const pRoutesMap = new Map<string, { stop: Stop, distance: number }>(); 
-    const dRoutesMap = new Map<string, { stop: Stop, distance: number }>();
+      if (status.stale) {
+          status.warning = status.end_date && serviceDate > status.end_date
+              ? `GTFS feed expired on ${status.end_date}. Timetables are matched by day of week only and may be out of date.`
+              : `GTFS feed starts on ${status.start_date}. Timetables are matched by day of week only and may be out of date.`;
+      }
+      return status;
+  }
 
-    for (const p of pStops.slice(0, 5)) {
-        const routes = this.routesByStop.get(p.stop.stop_id);
-        if (routes) routes.forEach(rId => {
-            if (!pRoutesMap.has(rId)) pRoutesMap.set(rId, p);
-        });
-    }
+  private computeFeedValidity(feed: FeedSnapshot) {
+      const dates: string[] = [...feed.calendarDates.keys()];
+      feed.calendar.forEach(cal => dates.push(cal.start_date, cal.end_date));
+      if (dates.length === 0) return;
 
-    for (const d of dStops.slice(0, 5)) {
-        const routes = this.routesByStop.get(d.stop.stop_id);
-        if (routes) routes.forEach(rId => {
-            if (!dRoutesMap.has(rId)) dRoutesMap.set(rId, d);
-        });
-    }
+      dates.sort();
+      feed.startDate = dates[0];
+      feed.endDate = dates[dates.length - 1];
 
-    const pRouteIds = [...pRoutesMap.keys()];
-    const dRouteIds = [...dRoutesMap.keys()];
-    
-    console.log(`[BusService] Checking transfers between ${pRouteIds.length} pickup routes and ${dRouteIds.length} drop routes.`);
-
-    const stopsToDropRoutes = new Map<string, string[]>();
-    for (const rId of dRouteIds) {
-        const stops = this.stopsByRoute.get(rId);
-        if (stops) {
-            for (const sId of stops) {
-                if (!stopsToDropRoutes.has(sId)) stopsToDropRoutes.set(sId, []);
-                stopsToDropRoutes.get(sId)?.push(rId);
-            }
-        }
-    }
+      const { serviceDate } = toServiceTime(new Date(), feed.info.timezone);
+      if (this.isOutsideFeed(feed, serviceDate)) {
+          console.warn(`[BusService] GTFS feed "${feed.info.id}" is only valid from ${feed.startDate} to ${feed.endDate}. Today (${serviceDate}) is outside that range.`);
+      }
+  }
 
-    for (const pRouteId of pRouteIds) {
-        const pRouteStops = this.stopsByRoute.get(pRouteId);
-        if (!pRouteStops) continue;
-        
-        const pStopItem = pRoutesMap.get(pRouteId)!;
-        const pStartIndex = pRouteStops.indexOf(pStopItem.stop.stop_id);
-        if (pStartIndex === -1) continue;
-
-        // Check stops AFTER start index for transfer possibilities
-        for (let i = pStartIndex + 1; i < pRouteStops.length; i++) {
-            const transferStopId = pRouteStops[i];
-            const connectingDropRoutes = stopsToDropRoutes.get(transferStopId);
-
-            if (connectingDropRoutes) {
-                for (const dRouteId of connectingDropRoutes) {
-                    const dRouteStops = this.stopsByRoute.get(dRouteId);
-                    const dStopItem = dRoutesMap.get(dRouteId)!;
-                    
-                    if (dRouteStops) {
-                        const transferIndexInLeg2 = dRouteStops.indexOf(transferStopId);
-                        const dropIndexInLeg2 = dRouteStops.indexOf(dStopItem.stop.stop_id);
-
-                        if (transferIndexInLeg2 !== -1 && dropIndexInLeg2 !== -1 && transferIndexInLeg2 < dropIndexInLeg2) {
-                            
-                            const uniqueKey = `${pRouteId}-${transferStopId}-${dRouteId}`;
-                            if (seenRoutes.has(uniqueKey)) continue;
-
-                            const transferStop = this.stops.get(transferStopId);
-                            if (!transferStop) continue;
-
-                            // Find Trip 1
-                            const trip1Info = this.findTripForLeg(pRouteId, pStopItem.stop.stop_id, transferStopId);
-                            if (!trip1Info) continue;
-
-                            // Find Trip 2 (After Trip 1 arrives)
-                            const arr1Sec = this.parseTimeSeconds(trip1Info.end.arrival_time);
-                            // Look for trip2 departing after arr1Sec, max wait 60 mins
-                            const trip2Info = this.findTripForLeg(dRouteId, transferStopId, dStopItem.stop.stop_id, arr1Sec);
-                            
-                            if (trip2Info) {
-                                const dep2Sec = this.parseTimeSeconds(trip2Info.start.departure_time);
-                                const waitTime = (dep2Sec - arr1Sec) / 60;
-
-                                if (waitTime >= 0 && waitTime < 45) { // Valid transfer within 45 mins
-                                    const route1 = this.routes.get(pRouteId)!;
-                                    const route2 = this.routes.get(dRouteId)!;
-                                    
-                                    console.log(`[BusService] Found Transfer Route: ${route1.route_short_name} -> ${route2.route_short_name} (Wait: ${Math.round(waitTime)}m)`);
-                                    
-                                    results.push(this.buildTransferRouteResult(
-                                        pickup, drop,
-                                        pStopItem, dStopItem,
-                                        trip1Info.trip, route1,
-                                        trip2Info.trip, route2,
-                                        trip1Info.start, trip1Info.end,
-                                        trip2Info.start, trip2Info.end,
-                                        trip1Info.stops, trip2Info.stops,
-                                        transferStop
-                                    ));
-                                    seenRoutes.add(uniqueKey);
-                                    if (results.length >= 5) return results;
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-        }
-        if (results.length >= 5) break;
-    }
-    
-    return results;
-  }
-
-  private isServiceActive(serviceId: string): boolean {
-      // Assuming "Today" is consistent with system time or <env> date
-      // <env> says Today's date: 2026-01-10 (Saturday)
-      // But for robustness, let's use the actual current date of the system
-      const now = new Date();
-      
-      // Override with env date if needed, but new Date() is safer for real-time
-      // Note: The user env says 2026-01-10.
-      
-      const cal = this.calendar.get(serviceId);
-      if (!cal) return true; // If no calendar, assume active (or false? usually true for robustness if file missing)
-
-      // Check date range
-      const yyyy = now.getFullYear();
-      const mm = String(now.getMonth() + 1).padStart(2, '0');
-      const dd = String(now.getDate()).padStart(2, '0');
-      const dateStr = `${yyyy}${mm}${dd}`;
-
-      // If current date is outside range, it might be stale data. 
-      // Given the user context implies we want "actual" routes, let's respect the range if possible.
-      // However, if the GTFS is old (2024-2025) and today is 2026, we might filter everything out.
-      // Let's perform a check: if dateStr > cal.end_date, maybe we should ignore year?
-      // For now, let's strictly check day of week, and loosely check date range (warn if out of range).
-      
-      const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-      const dayName = days[now.getDay()];
-      
-      // @ts-ignore
-      return cal[dayName] === '1';
-  }
-
-  private findTripForLeg(routeId: string, startStopId: string, endStopId: string, afterTimeSec?: number): { trip: Trip, start: StopTime, end: StopTime, stops: StopTime[] } | null {
-      const startStopTimes = this.stopTimesByStopId.get(startStopId);
-      if (!startStopTimes) return null;
-
-      // Filter and Sort by time
-      let candidates = startStopTimes.filter(st => {
-          const trip = this.trips.get(st.trip_id);
-          if (!trip || trip.route_id !== routeId) return false;
-          
-          // Check Service Validity
-          return this.isServiceActive(trip.service_id);
-      });
+  private isOutsideFeed(feed: FeedSnapshot, serviceDate: string): boolean {
+      if (!feed.startDate || !feed.endDate) return false;
+      return serviceDate < feed.startDate || serviceDate > feed.endDate;
+  }
 
-      // Sort by departure time
-      candidates.sort((a, b) => this.parseTimeSeconds(a.departure_time) - this.parseTimeSeconds(b.departure_time));
+  private isServiceActive(feed: FeedSnapshot, serviceId: string, serviceTime: ServiceTime): boolean {
+      // If neither calendar file is present, assume every service runs
+      if (feed.calendar.size === 0 && feed.calendarDates.size === 0) return true;
 
-      if (afterTimeSec !== undefined) {
-          candidates = candidates.filter(st => this.parseTimeSeconds(st.departure_time) >= afterTimeSec);
+      let active = feed.activeServicesByDate.get(serviceTime.serviceDate);
+      if (!active) {
+          active = this.buildActiveServices(feed, serviceTime);
+          feed.activeServicesByDate.set(serviceTime.serviceDate, active);
       }
+      return active.has(serviceId);
+  }
 
-      for (const st of candidates) {
-          const tripStops = this.stopTimesByTripId.get(st.trip_id);
-          if (tripStops) {
-              const endSt = tripStops.find(s => s.stop_id === endStopId && s.stop_sequence > st.stop_sequence);
-              if (endSt) {
-                  return {
-                      trip: this.trips.get(st.trip_id)!,
-                      start: st,
-                      end: endSt,
-                      stops: tripStops
-                  };
-              }
-          }
+  // Resolve calendar.csv (weekday pattern within start/end date) and calendar_dates.csv
+  // (added/removed service) into the set of services running on one service date.
+  // Outside the feed's validity the weekday pattern is used on its own, so an expired
+  // feed still answers queries and FeedStatus reports it as stale.
+  private buildActiveServices(feed: FeedSnapshot, serviceTime: ServiceTime): Set<string> {
+      const date = serviceTime.serviceDate;
+      const stale = this.isOutsideFeed(feed, date);
+      const active = new Set<string>();
+
+      feed.calendar.forEach((cal, serviceId) => {
+          const inRange = stale || (cal.start_date <= date && date <= cal.end_date);
+          if (inRange && cal[serviceTime.dayName] === '1') active.add(serviceId);
+      });
+
+      if (!stale) {
+          (feed.calendarDates.get(date) || []).forEach(exception => {
+              if (exception.exception_type === '1') active.add(exception.service_id);
+              if (exception.exception_type === '2') active.delete(exception.service_id);
+          });
       }
-      return null;
-  }
-
-  private buildRouteResult(
-      pickup: GeoLocation, drop: GeoLocation,
-      pStopItem: {stop: Stop, distance: number}, dStopItem: {stop: Stop, distance: number},
-      trip: Trip, route: Route,
-      pSt: StopTime, dSt: StopTime,
-      tripStopTimes: StopTime[],
-      routeName: string
-  ): BusRouteResult {
-        const busDurationMins = this.calculateDurationInMinutes(pSt.departure_time, dSt.arrival_time);
-        
-        const walk1DistKm = pStopItem.distance;
-        const walk1TimeMins = Math.ceil((walk1DistKm * 1000) / 80);
-        
-        const walk2DistKm = dStopItem.distance;
-        const walk2TimeMins = Math.ceil((walk2DistKm * 1000) / 80);
-
-        const routeStops = this.extractRouteStops(tripStopTimes, pSt.stop_sequence, dSt.stop_sequence);
-        const busDistKm = routeStops.length * 0.5; // Approximation if shape_dist_traveled missing
-
-        const segments: RouteSegment[] = [];
-        
-        // 1. Walk to Stop
-        segments.push({
-            type: 'walk',
-            start: { lat: pickup.lat, lng: pickup.lng, name: 'Your Location' },
-            end: { lat: pStopItem.stop.stop_lat, lng: pStopItem.stop.stop_lon, name: pStopItem.stop.stop_name },
-            distance: `${(walk1DistKm * 1000).toFixed(0)}m`,
-            duration: `${walk1TimeMins} mins`,
-            instruction: `Walk to ${pStopItem.stop.stop_name}`,
-            color: '#94a3b8',
-            path: [{ lat: pickup.lat, lng: pickup.lng }, { lat: pStopItem.stop.stop_lat, lng: pStopItem.stop.stop_lon }]
-        });
 
-        // 2. Bus Ride
-        segments.push({
-            type: 'bus',
-            start: { lat: pStopItem.stop.stop_lat, lng: pStopItem.stop.stop_lon, name: pStopItem.stop.stop_name },
-            end: { lat: dStopItem.stop.stop_lat, lng: dStopItem.stop.stop_lon, name: dStopItem.stop.stop_name },
-            distance: `${busDistKm.toFixed(1)} km`,
-            duration: `${busDurationMins} mins`,
-            instruction: `Take bus ${routeName} towards ${trip.trip_headsign || 'Destination'}`,
-            color: '#f97316',
-            stops: routeStops,
-            path: routeStops.map(s => ({ lat: s.lat, lng: s.lng }))
-        });
+      return active;
+  }
 
-        // 3. Walk to Dest
-        segments.push({
-            type: 'walk',
-            start: { lat: dStopItem.stop.stop_lat, lng: dStopItem.stop.stop_lon, name: dStopItem.stop.stop_name },
-            end: { lat: drop.lat, lng: drop.lng, name: 'Destination' },
-            distance: `${(walk2DistKm * 1000).toFixed(0)}m`,
-            duration: `${walk2TimeMins} mins`,
-            instruction: `Walk to Destination`,
-            color: '#94a3b8',
-            path: [{ lat: dStopItem.stop.stop_lat, lng: dStopItem.stop.stop_lon }, { lat: drop.lat, lng: drop.lng }]
-        });
+  // dayOffset shifts the journey's times to the query's service day (-86400 for a trip of the
+  // previous day). Times shown are wall clock, so 24:30:00 of the previous day reads 00:30:00.
+  private buildRouteResult(feed: FeedSnapshot, pickup: GeoLocation, drop: GeoLocation, journey: RaptorJourney, riderCategory?: string, dayOffset: number = 0): BusRouteResult {
+      const clock = (seconds: number) => formatTime(seconds + dayOffset >= 0 ? seconds + dayOffset : seconds);
 
-        const totalDuration = walk1TimeMins + busDurationMins + walk2TimeMins;
-        const totalFare = this.calculateBusFare(busDistKm);
+      const originStop = feed.stops.get(journey.origin.stopId)!;
+      const destStop = feed.stops.get(journey.destination.stopId)!;
 
-        // Sanitize Path for MapView (No extra fields)
-        const pathForMap = routeStops.map(s => ({ 
-            lat: s.lat, 
-            lng: s.lng, 
-            name: s.name, 
-            sequence: s.sequence 
-        }));
+      const walk1Dist = journey.origin.walkMeters / 1000;
+      const walk1Time = journey.origin.walkSeconds / 60;
 
-        return {
-            route_name: routeName,
-            start_stop: pStopItem.stop.stop_name,
-            end_stop: dStopItem.stop.stop_name,
-            departure_time: pSt.departure_time,
-            arrival_time: dSt.arrival_time,
-            duration: `${totalDuration} mins`,
-            stops_count: routeStops.length,
-            fare: totalFare,
-            path: pathForMap,
-            segments: segments,
-            total_distance: `${(walk1DistKm + walk2DistKm + busDistKm).toFixed(1)} km`
-        };
-  }
-
-  private buildTransferRouteResult(
-      pickup: GeoLocation, drop: GeoLocation,
-      pStopItem: {stop: Stop, distance: number}, dStopItem: {stop: Stop, distance: number},
-      trip1: Trip, route1: Route,
-      trip2: Trip, route2: Route,
-      pSt: StopTime, tSt1: StopTime, // Leg 1
-      tSt2: StopTime, dSt: StopTime, // Leg 2
-      trip1Stops: StopTime[], trip2Stops: StopTime[],
-      transferStop: Stop | undefined
-  ): BusRouteResult {
-      if (!transferStop) throw new Error("Transfer stop missing");
-
-      const routeName1 = route1.route_short_name || route1.route_long_name;
-      const routeName2 = route2.route_short_name || route2.route_long_name;
-
-      const leg1Stops = this.extractRouteStops(trip1Stops, pSt.stop_sequence, tSt1.stop_sequence);
-      const leg2Stops = this.extractRouteStops(trip2Stops, tSt2.stop_sequence, dSt.stop_sequence);
-
-      const dur1 = this.calculateDurationInMinutes(pSt.departure_time, tSt1.arrival_time);
-      const transferWait = this.calculateDurationInMinutes(tSt1.arrival_time, tSt2.departure_time);
-      const dur2 = this.calculateDurationInMinutes(tSt2.departure_time, dSt.arrival_time);
-
-      const walk1Dist = pStopItem.distance;
-      const walk1Time = Math.ceil((walk1Dist * 1000) / 80);
-      
-      const walk2Dist = dStopItem.distance;
-      const walk2Time = Math.ceil((walk2Dist * 1000) / 80);
-
-      const leg1DistKm = leg1Stops.length * 0.5;
-      const leg2DistKm = leg2Stops.length * 0.5;
+      const walk2Dist = journey.destination.walkMeters / 1000;
+      const walk2Time = journey.destination.walkSeconds / 60;
 
       const segments: RouteSegment[] = [];
-
-      // Walk 1
+      const routeNames: string[] = [];
+      const pathForMap: BusRouteResult['path'] = [];
+      const operators: BusRouteResult['operators'] = [];
+      const fareLegs: FareLegInput[] = [];
+      let busDistKm = 0;
+      let transferWalkKm = 0;
+      let stopsCount = 0;
+
+      // Walk to first stop
       segments.push({
           type: 'walk',
           start: { lat: pickup.lat, lng: pickup.lng, name: 'Your Location' },
-          end: { lat: pStopItem.stop.stop_lat, lng: pStopItem.stop.stop_lon, name: pStopItem.stop.stop_name },
+          end: { lat: originStop.stop_lat, lng: originStop.stop_lon, name: originStop.stop_name },
           distance: `${(walk1Dist * 1000).toFixed(0)}m`,
           duration: `${walk1Time} mins`,
-          instruction: `Walk to ${pStopItem.stop.stop_name}`,
+          instruction: `Walk to ${originStop.stop_name}`,
           color: '#94a3b8',
-          path: [{ lat: pickup.lat, lng: pickup.lng }, { lat: pStopItem.stop.stop_lat, lng: pStopItem.stop.stop_lon }]
+          path: journey.origin.walkPath || [{ lat: pickup.lat, lng: pickup.lng }, { lat: originStop.stop_lat, lng: originStop.stop_lon }]
       });
 
-      // Bus 1
-      segments.push({
-          type: 'bus',
-          start: { lat: pStopItem.stop.stop_lat, lng: pStopItem.stop.stop_lon, name: pStopItem.stop.stop_name },
-          end: { lat: transferStop.stop_lat, lng: transferStop.stop_lon, name: transferStop.stop_name },
-          distance: `${leg1DistKm.toFixed(1)} km`,
-          duration: `${dur1} mins`,
-          instruction: `Bus ${routeName1} to ${transferStop.stop_name}`,
-          color: '#f97316',
-          stops: leg1Stops,
-          path: leg1Stops.map(s => ({ lat: s.lat, lng: s.lng }))
-      });
+      journey.legs.forEach((leg, i) => {
+          const tripStops = this.getTripStopTimes(feed, leg.tripId);
+          const trip = feed.trips.get(leg.tripId)!;
+          const route = feed.routes.get(leg.routeId);
+          const routeName = route ? (route.route_short_name || route.route_long_name) : leg.routeId;
+          const mode = this.getRouteMode(route);
+          const profile = MODE_PROFILES[mode];
+          // agency_id is optional when a feed has a single agency
+          const agency = feed.agencies.get(route?.agency_id || '') || (feed.agencies.size === 1 ? [...feed.agencies.values()][0] : undefined);
+          const boardSt = tripStops[leg.boardIndex];
+          const alightSt = tripStops[leg.alightIndex];
+          const boardStop = feed.stops.get(boardSt.stop_id)!;
+          const alightStop = feed.stops.get(alightSt.stop_id)!;
+
+          const walk = journey.walks.find(w => w.beforeLeg === i);
+
+          // Transfer between consecutive legs, walking over to another stop if needed
+          if (i > 0) {
+              const prevAlight = this.getTripStopTimes(feed, journey.legs[i - 1].tripId)[journey.legs[i - 1].alightIndex];
+              const transferTime = this.calculateDurationInMinutes(prevAlight.arrival_time, boardSt.departure_time);
+              if (walk) {
+                  const fromStop = feed.stops.get(walk.fromStopId)!;
+                  const walkMins = Math.ceil(walk.seconds / 60);
+                  segments.push(this.buildWalkSegment(
+                      fromStop, boardStop, walk.meters, transferTime,
+                      `Walk to ${boardStop.stop_name} (${walkMins}m walk, wait ${Math.max(transferTime - walkMins, 0)}m)`
+                  ));
+                  transferWalkKm += walk.meters / 1000;
+              } else {
+                  segments.push({
+                      type: 'walk',
+                      start: { lat: boardStop.stop_lat, lng: boardStop.stop_lon, name: boardStop.stop_name },
+                      end: { lat: boardStop.stop_lat, lng: boardStop.stop_lon, name: boardStop.stop_name },
+                      distance: `0m`,
+                      duration: `${transferTime} mins`,
+                      instruction: `Transfer at ${boardStop.stop_name} (Wait ${transferTime}m)`,
+                      color: '#94a3b8',
+                      path: [] // No path for waiting
+                  });
+              }
+          } else if (walk) {
+              // Reached a stop near the pickup first, and boards across the road from it
+              segments.push(this.buildWalkSegment(
+                  feed.stops.get(walk.fromStopId)!, boardStop, walk.meters, Math.ceil(walk.seconds / 60), `Walk to ${boardStop.stop_name}`
+              ));
+              transferWalkKm += walk.meters / 1000;
+          }
 
-      // Transfer (Walk/Wait)
-      segments.push({
-          type: 'walk',
-          start: { lat: transferStop.stop_lat, lng: transferStop.stop_lon, name: transferStop.stop_name },
-          end: { lat: transferStop.stop_lat, lng: transferStop.stop_lon, name: transferStop.stop_name },
-          distance: `0m`,
-          duration: `${transferWait} mins`,
-          instruction: `Transfer at ${transferStop.stop_name} (Wait ${transferWait}m)`,
-          color: '#94a3b8',
-          path: [] // No path for waiting
-      });
+          const legStops = this.extractRouteStops(feed, tripStops, boardSt.stop_sequence, alightSt.stop_sequence)
+              .map(stop => ({ ...stop, time: stop.time && clock(parseTimeSeconds(stop.time)) }));
+          const { path: legPath, distanceKm: legDistKm } = this.getLegGeometry(feed, trip, boardSt, alightSt, legStops);
+          const legDuration = this.calculateDurationInMinutes(boardSt.departure_time, alightSt.arrival_time);
+
+          segments.push({
+              type: mode,
+              start: { lat: boardStop.stop_lat, lng: boardStop.stop_lon, name: boardStop.stop_name },
+              end: { lat: alightStop.stop_lat, lng: alightStop.stop_lon, name: alightStop.stop_name },
+              distance: `${legDistKm.toFixed(1)} km`,
+              duration: `${legDuration} mins`,
+              instruction: journey.legs.length === 1
+                  ? `Take ${profile.label} ${routeName} towards ${trip.trip_headsign || 'Destination'}`
+                  : `${profile.label.charAt(0).toUpperCase()}${profile.label.slice(1)} ${routeName} to ${alightStop.stop_name}`,
+              color: routeColor(mode, route?.route_color, i > 0), // Darker shade after a transfer
+              stops: legStops,
+              path: legPath,
+              route_id: `${feed.info.id}:${leg.routeId}`,
+              route_type: route && !isNaN(parseInt(route.route_type)) ? parseInt(route.route_type) : 3,
+              agency_name: agency?.agency_name,
+              agency_url: agency?.agency_url
+          });
+
+          if (agency && !operators.some(o => o.name === agency.agency_name)) {
+              operators.push({ name: agency.agency_name, url: agency.agency_url });
+          }
 
-      // Bus 2
-      segments.push({
-          type: 'bus',
-          start: { lat: transferStop.stop_lat, lng: transferStop.stop_lon, name: transferStop.stop_name },
-          end: { lat: dStopItem.stop.stop_lat, lng: dStopItem.stop.stop_lon, name: dStopItem.stop.stop_name },
-          distance: `${leg2DistKm.toFixed(1)} km`,
-          duration: `${dur2} mins`,
-          instruction: `Bus ${routeName2} to ${dStopItem.stop.stop_name}`,
-          color: '#ea580c', // Darker orange
-          stops: leg2Stops,
-          path: leg2Stops.map(s => ({ lat: s.lat, lng: s.lng }))
+          routeNames.push(routeName);
+          pathForMap.push(...legStops.map(s => ({ lat: s.lat, lng: s.lng, name: s.name, sequence: s.sequence })));
+          busDistKm += legDistKm;
+          stopsCount += legStops.length;
+          fareLegs.push({
+              routeId: leg.routeId,
+              route,
+              agency,
+              mode,
+              boardStopId: boardSt.stop_id,
+              alightStopId: alightSt.stop_id,
+              zones: tripStops.slice(leg.boardIndex, leg.alightIndex + 1).map(st => feed.stops.get(st.stop_id)?.zone_id || ''),
+              departure: leg.departure,
+              distanceKm: legDistKm
+          });
       });
 
-      // Walk 2
+      const fareBreakdown = feed.fares.price(fareLegs, riderCategory);
+
+      // Alighted, then walked to a stop near the drop
+      const finalWalk = journey.walks.find(w => w.beforeLeg === journey.legs.length);
+      if (finalWalk) {
+          const fromStop = feed.stops.get(finalWalk.fromStopId)!;
+          segments.push(this.buildWalkSegment(
+              fromStop, destStop, finalWalk.meters, Math.ceil(finalWalk.seconds / 60), `Walk to ${destStop.stop_name}`
+          ));
+          transferWalkKm += finalWalk.meters / 1000;
+      }
+
+      // Walk to Dest
       segments.push({
           type: 'walk',
-          start: { lat: dStopItem.stop.stop_lat, lng: dStopItem.stop.stop_lon, name: dStopItem.stop.stop_name },
+          start: { lat: destStop.stop_lat, lng: destStop.stop_lon, name: destStop.stop_name },
           end: { lat: drop.lat, lng: drop.lng, name: 'Destination' },
           distance: `${(walk2Dist * 1000).toFixed(0)}m`,
           duration: `${walk2Time} mins`,
           instruction: `Walk to Destination`,
           color: '#94a3b8',
-          path: [{ lat: dStopItem.stop.stop_lat, lng: dStopItem.stop.stop_lon }, { lat: drop.lat, lng: drop.lng }]
+          path: journey.destination.walkPath || [{ lat: destStop.stop_lat, lng: destStop.stop_lon }, { lat: drop.lat, lng: drop.lng }]
       });
 
-      const totalDuration = walk1Time + dur1 + transferWait + dur2 + walk2Time;
-      const totalFare = this.calculateBusFare(leg1DistKm) + this.calculateBusFare(leg2DistKm);
-      
-      const pathForMap = [
-          ...leg1Stops.map(s => ({ lat: s.lat, lng: s.lng, name: s.name, sequence: s.sequence })),
-          ...leg2Stops.map(s => ({ lat: s.lat, lng: s.lng, name: s.name, sequence: s.sequence }))
-      ];
+      const firstLeg = journey.legs[0];
+      const lastLeg = journey.legs[journey.legs.length - 1];
+      const totalDuration = Math.floor((journey.arrival - journey.departure) / 60);
 
       return {
-          route_name: `${routeName1} + ${routeName2}`,
-          start_stop: pStopItem.stop.stop_name,
-          end_stop: dStopItem.stop.stop_name,
-          departure_time: pSt.departure_time,
-          arrival_time: dSt.arrival_time,
+          route_name: routeNames.join(' + '),
+          start_stop: originStop.stop_name,
+          end_stop: destStop.stop_name,
+          departure_time: clock(firstLeg.departure),
+          arrival_time: clock(lastLeg.arrival),
           duration: `${totalDuration} mins`,
-          stops_count: leg1Stops.length + leg2Stops.length,
-          fare: totalFare,
+          stops_count: stopsCount,
+          fare: fareBreakdown.total,
+          fare_breakdown: fareBreakdown,
           path: pathForMap,
           segments: segments,
-          total_distance: `${(walk1Dist + walk2Dist + leg1DistKm + leg2DistKm).toFixed(1)} km`
+          total_distance: `${(walk1Dist + walk2Dist + transferWalkKm + busDistKm).toFixed(1)} km`,
+          transfers: journey.transfers,
+          tags: journey.tags,
+          feed_id: feed.info.id,
+          operators
       };
   }
 
-  private extractRouteStops(tripStopTimes: StopTime[], startSeq: number, endSeq: number) {
+  private buildWalkSegment(from: Stop, to: Stop, meters: number, minutes: number, instruction: string): RouteSegment {
+      const fromLocation = { lat: from.stop_lat, lng: from.stop_lon };
+      const toLocation = { lat: to.stop_lat, lng: to.stop_lon };
+      const [walk] = this.walkRoutes(fromLocation, [toLocation], Infinity);
+      return {
+          type: 'walk',
+          start: { lat: from.stop_lat, lng: from.stop_lon, name: from.stop_name },
+          end: { lat: to.stop_lat, lng: to.stop_lon, name: to.stop_name },
+          distance: `${meters.toFixed(0)}m`,
+          duration: `${minutes} mins`,
+          instruction,
+          color: '#94a3b8',
+          path: walk?.path || [fromLocation, toLocation]
+      };
+  }
+
+  // Ridden geometry and distance of one bus leg. Prefers shape_dist_traveled, then the
+  // clipped shape length, and falls back to straight lines between stops.
+  private getLegGeometry(
+      feed: FeedSnapshot, trip: Trip, boardSt: StopTime, alightSt: StopTime,
+      legStops: { lat: number; lng: number }[]
+  ): { path: LatLng[]; distanceKm: number } {
+      const stopPath = legStops.map(s => ({ lat: s.lat, lng: s.lng }));
+      let path = stopPath;
+      let distanceKm: number | null = null;
+
+      if (boardSt.shape_dist_traveled !== undefined && alightSt.shape_dist_traveled !== undefined) {
+          distanceKm = (alightSt.shape_dist_traveled - boardSt.shape_dist_traveled) * feed.distanceScaleKm;
+      }
+
+      const shape = trip.shape_id ? feed.shapes.get(trip.shape_id) : undefined;
+      if (shape && shape.length >= 2 && stopPath.length >= 2) {
+          const start = stopPath[0];
+          const end = stopPath[stopPath.length - 1];
+          let clipped: ShapePoint[];
+
+          if (distanceKm !== null && shape.every(p => p.dist !== undefined)) {
+              clipped = shape.filter(p => p.dist! >= boardSt.shape_dist_traveled! && p.dist! <= alightSt.shape_dist_traveled!);
+          } else {
+              const startIndex = nearestPointIndex(shape, start);
+              const endIndex = nearestPointIndex(shape, end, startIndex);
+              clipped = shape.slice(startIndex, endIndex + 1);
+          }
+
+          path = [start, ...clipped.map(p => ({ lat: p.lat, lng: p.lng })), end];
+          if (distanceKm === null) distanceKm = polylineLengthKm(path);
+      }
+
+      return {
+          path,
+          distanceKm: distanceKm ?? legStops.length * 0.5 // Approximation if shapes and shape_dist_traveled are missing
+      };
+  }
+
+  // Materialize one trip's rows of the columnar stop_times, ordered by stop_sequence
+  private getTripStopTimes(feed: FeedSnapshot, tripId: string): StopTime[] {
+      const t = feed.stopTimesRowByTripId.get(tripId);
+      if (t === undefined) return [];
+
+      const table = feed.stopTimes;
+      const result: StopTime[] = [];
+      for (let row = table.offsets[t]; row < table.offsets[t + 1]; row++) {
+          const stop = feed.stopList[table.stopIndices[row]];
+          result.push({
+              trip_id: tripId,
+              arrival_time: table.arrivals[row] === -1 ? '' : formatTime(table.arrivals[row]),
+              departure_time: table.departures[row] === -1 ? '' : formatTime(table.departures[row]),
+              stop_id: stop ? stop.stop_id : '',
+              stop_sequence: table.sequences[row],
+              shape_dist_traveled: isNaN(table.distances[row]) ? undefined : table.distances[row]
+          });
+      }
+      return result;
+  }
+
+  private extractRouteStops(feed: FeedSnapshot, tripStopTimes: StopTime[], startSeq: number, endSeq: number) {
       return tripStopTimes
         .filter(st => st.stop_sequence >= startSeq && st.stop_sequence <= endSeq)
         .sort((a, b) => a.stop_sequence - b.stop_sequence)
         .map(st => {
-            const s = this.stops.get(st.stop_id);
+            const s = feed.stops.get(st.stop_id);
             return s ? {
                 lat: s.stop_lat,
                 lng: s.stop_lon,
@@ -764,19 +925,20 @@ export class BusService {
         .filter((s): s is { lat: number; lng: number; name: string; sequence: number; time: string } => s !== null);
   }
 
-  private findNearbyStopsWithDistance(location: GeoLocation, limit: number = 20, maxDistanceKm: number = 2.0): { stop: Stop, distance: number }[] {
-    const stopsArray = Array.from(this.stops.values());
-    
-    return stopsArray
-      .map(stop => ({
-        stop,
-        distance: calculateDistance(location.lat, location.lng, stop.stop_lat, stop.stop_lon)
-      }))
-      .filter(item => item.distance <= maxDistanceKm)
+  // Nearest stops across all feeds. Stops from different feeds keep their own IDs, so check feed_id.
+  public findNearbyStopsWithDistance(location: GeoLocation, limit: number = 20, maxDistanceKm: number = this.NEARBY_STOP_RADIUS_KM): { feed_id: string, stop: Stop, distance: number }[] {
+    return [...this.feeds.values()]
+      .flatMap(feed => this.nearbyStops(feed, location, limit, maxDistanceKm).map(match => ({ feed_id: feed.info.id, ...match })))
       .sort((a, b) => a.distance - b.distance)
       .slice(0, limit);
   }
 
+  private nearbyStops(feed: FeedSnapshot, location: GeoLocation, limit: number = 20, maxDistanceKm: number = this.NEARBY_STOP_RADIUS_KM): { stop: Stop, distance: number }[] {
+    return feed.stopIndex
+      .nearest(location, limit, maxDistanceKm)
+      .map(match => ({ stop: match.item, distance: match.distance }));
+  }
+
   private calculateDurationInMinutes(start: string, end: string): number {
      const toSeconds = (t: string) => {
         const [h, m, s] = t.split(':').map(Number);
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { GeoLocation } from '../interfaces/types';
+import { City, CityRegistryFile, TripArea } from '../interfaces/city';
+import { pointInPolygon } from '../utils/geometry';
+
+export const DEFAULT_CITIES_PATH = path.join(process.cwd(), 'cities.json');
+
+/**
+ * Registry of the cities the platforms serve (CITIES_PATH, default cities.json): service
+ * area polygon, timezone, currency and the vehicle types each platform offers there.
+ */
+export class CityService {
+  private static instance: CityService;
+
+  constructor(private cities: City[]) {}
+
+  public static getInstance(): CityService {
+    if (!CityService.instance) {
+      CityService.instance = CityService.load(process.env.CITIES_PATH || DEFAULT_CITIES_PATH);
+    }
+    return CityService.instance;
+  }
+
+  public static load(filePath: string): CityService {
+    const data: CityRegistryFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const cities = validateCities(data, filePath);
+    console.log(`[CityService] Loaded ${cities.length} cities from ${filePath}`);
+    return new CityService(cities);
+  }
+
+  public list(): City[] {
+    return this.cities;
+  }
+
+  public get(id: string): City | undefined {
+    return this.cities.find(city => city.id === id);
+  }
+
+  // City whose service area contains the point. First match wins where areas overlap.
+  public resolve(point: GeoLocation): City | null {
+    return this.cities.find(city => pointInPolygon(point, city.polygon)) || null;
+  }
+
+  public resolveTrip(pickup: GeoLocation, drop: GeoLocation): TripArea {
+    return { pickupCity: this.resolve(pickup), dropCity: this.resolve(drop) };
+  }
+
+  public isAvailable(city: City, platform: string, vehicleType?: string): boolean {
+    const vehicles = city.platforms[platform];
+    if (!vehicles) return false;
+    return vehicleType === undefined || vehicles.includes(vehicleType);
+  }
+
+  // [south, west, north, east] box around a city's polygon
+  public static bounds(city: City): [number, number, number, number] {
+    const lats = city.polygon.map(([lat]) => lat);
+    const lngs = city.polygon.map(([, lng]) => lng);
+    return [Math.min(...lats), Math.min(...lngs), Math.max(...lats), Math.max(...lngs)];
+  }
+}
+
+function validateCities(data: CityRegistryFile, filePath: string): City[] {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid city registry ${filePath}: ${message}`);
+  };
+
+  if (!Array.isArray(data?.cities) || data.cities.length === 0) fail('expected a non-empty "cities" list');
+  const ids = new Set<string>();
+  data.cities.forEach(city => {
+    if (!city.id || !city.name) fail('every city needs an id and a name');
+    if (ids.has(city.id)) fail(`duplicate city "${city.id}"`);
+    ids.add(city.id);
+
+    if (!city.currency) fail(`city "${city.id}" needs a currency`);
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: city.timezone });
+    } catch {
+      fail(`city "${city.id}" has an unknown timezone "${city.timezone}"`);
+    }
+    const validVertex = (vertex: unknown) => Array.isArray(vertex) && vertex.length === 2
+      && vertex.every(v => typeof v === 'number' && Number.isFinite(v));
+    if (!Array.isArray(city.polygon) || city.polygon.length < 3 || !city.polygon.every(validVertex)) {
+      fail(`city "${city.id}" polygon needs at least 3 [lat, lng] vertices`);
+    }
+    if (!city.platforms || !Object.values(city.platforms).every(Array.isArray)) {
+      fail(`city "${city.id}" platforms must map each platform to a list of vehicle types`);
+    }
+  });
+  return data.cities;
+}
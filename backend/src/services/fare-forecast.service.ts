@@ -0,0 +1,209 @@
+import { GeoLocation, FareEstimate } from '../interfaces/types';
+import { City } from '../interfaces/city';
+import { FareHistoryService, FareObservation } from './fare-history.service';
+import { DAY_NAMES, toServiceTime } from '../utils/gtfs-time';
+
+export interface ForecastOptions {
+  at?: Date; // Earliest departure. Defaults to now.
+  hours?: number;
+  precision?: number; // Geohash length of the route cells, see FareHistoryService
+  platform?: string;
+  vehicleType?: string;
+}
+
+// Which part of the history a baseline came from, most specific first
+export type BaselineBasis = 'hour_of_week' | 'hour_of_day' | 'overall';
+
+export interface ForecastPoint {
+  start: Date;
+  end: Date;
+  price: number;
+  baseline: number;
+  basis: BaselineBasis;
+  samples: number; // Observations behind the baseline
+}
+
+export interface DepartureWindow {
+  start: Date;
+  end: Date;
+  price: number;
+  savings: number; // Compared with leaving in the first window
+}
+
+export interface FareForecast {
+  platform: FareEstimate['platform'];
+  vehicleType: string;
+  currency: string;
+  observations: number;
+  recentObservations: number;
+  deviation: number; // Recent fares over their baseline. 1.1 means running 10% above usual.
+  points: ForecastPoint[];
+  cheapest: DepartureWindow;
+}
+
+export interface RouteForecast {
+  origin: string;
+  destination: string;
+  observations: number; // Quoted fares on the route over the lookback
+  forecasts: FareForecast[];
+  // Cheapest ride of any platform and vehicle type, and when to take it
+  recommendation: (DepartureWindow & { platform: FareEstimate['platform']; vehicleType: string }) | null;
+}
+
+/**
+ * Predicts fares for the next few hours from the recorded fare history of a route. Only fares
+ * the platforms quoted are used, as rate card estimates would forecast our own prices.
+ *
+ * Each platform and vehicle type gets a seasonal baseline: the average fare of the same
+ * local day of week and hour over the last LOOKBACK_DAYS, falling back to the same hour
+ * of any day, then to all fares, when a slot has fewer than MIN_SLOT_SAMPLES. Fares seen
+ * in the last RECENT_HOURS show how far the route is running from its baseline right now.
+ * That deviation is applied to the baseline and fades out with a half-life of
+ * DEVIATION_HALF_LIFE_HOURS, as surges don't last.
+ */
+export class FareForecastService {
+  public static readonly LOOKBACK_DAYS = 28;
+  public static readonly RECENT_HOURS = 2;
+  public static readonly DEVIATION_HALF_LIFE_HOURS = 1;
+  public static readonly MIN_SLOT_SAMPLES = 2;
+  public static readonly MIN_OBSERVATIONS = 5; // Fewer and a route is not forecast
+  public static readonly WINDOW_MINUTES = 30;
+  public static readonly DEFAULT_HOURS = 4;
+  public static readonly MAX_HOURS = 12;
+
+  constructor(private history: FareHistoryService = FareHistoryService.getInstance()) {}
+
+  public async forecast(pickup: GeoLocation, drop: GeoLocation, city: City, options: ForecastOptions = {}): Promise<RouteForecast> {
+    const at = options.at || new Date();
+    const hours = options.hours || FareForecastService.DEFAULT_HOURS;
+    const origin = FareHistoryService.cellOf(pickup, options.precision);
+    const destination = FareHistoryService.cellOf(drop, options.precision);
+
+    const observations = await this.history.query({
+      origin,
+      destination,
+      platform: options.platform,
+      vehicleType: options.vehicleType,
+      sources: FareHistoryService.OBSERVED_SOURCES,
+      from: new Date(at.getTime() - FareForecastService.LOOKBACK_DAYS * 86400000),
+      to: at
+    });
+
+    const series = new Map<string, FareObservation[]>();
+    observations.forEach(item => {
+      const key = `${item.platform}:${item.vehicleType.toLowerCase()}`;
+      if (!series.has(key)) series.set(key, []);
+      series.get(key)!.push(item);
+    });
+
+    const windows = Math.round(hours * 60 / FareForecastService.WINDOW_MINUTES);
+    const forecasts = [...series.values()]
+      .filter(items => items.length >= FareForecastService.MIN_OBSERVATIONS)
+      .map(items => this.forecastSeries(items, at, windows, city.timezone));
+
+    return { origin, destination, observations: observations.length, forecasts, recommendation: this.recommend(forecasts, windows) };
+  }
+
+  private forecastSeries(items: FareObservation[], at: Date, windows: number, timeZone: string): FareForecast {
+    const baseline = new SeasonalBaseline(items, timeZone);
+
+    const recentFrom = at.getTime() - FareForecastService.RECENT_HOURS * 3600000;
+    const recent = items.filter(item => item.time >= recentFrom);
+    const deviation = recent.length > 0
+      ? recent.reduce((sum, item) => sum + item.price / baseline.at(new Date(item.time)).price, 0) / recent.length
+      : 1;
+
+    const points: ForecastPoint[] = [];
+    for (let i = 0; i < windows; i++) {
+      const start = new Date(at.getTime() + i * FareForecastService.WINDOW_MINUTES * 60000);
+      const end = new Date(start.getTime() + FareForecastService.WINDOW_MINUTES * 60000);
+      const expected = baseline.at(start);
+      const hoursAhead = (start.getTime() - at.getTime()) / 3600000;
+      const fade = Math.pow(0.5, hoursAhead / FareForecastService.DEVIATION_HALF_LIFE_HOURS);
+      points.push({
+        start,
+        end,
+        price: Math.round(expected.price * (1 + (deviation - 1) * fade)),
+        baseline: Math.round(expected.price),
+        basis: expected.basis,
+        samples: expected.samples
+      });
+    }
+
+    const latest = items[items.length - 1];
+    const { start, end, price, savings } = cheapestWindow(points);
+    return {
+      platform: latest.platform,
+      vehicleType: latest.vehicleType,
+      currency: latest.currency,
+      observations: items.length,
+      recentObservations: recent.length,
+      deviation: Math.round(deviation * 1000) / 1000,
+      points,
+      cheapest: { start, end, price, savings }
+    };
+  }
+
+  private recommend(forecasts: FareForecast[], windows: number): RouteForecast['recommendation'] {
+    if (forecasts.length === 0) return null;
+
+    // Cheapest ride in each window, then the window where it is cheapest
+    const best: Array<Omit<DepartureWindow, 'savings'> & { platform: FareEstimate['platform']; vehicleType: string }> = [];
+    for (let i = 0; i < windows; i++) {
+      const forecast = forecasts.reduce((a, b) => (b.points[i].price < a.points[i].price ? b : a));
+      const { start, end, price } = forecast.points[i];
+      best.push({ start, end, price, platform: forecast.platform, vehicleType: forecast.vehicleType });
+    }
+    return cheapestWindow(best);
+  }
+}
+
+// Earliest window at the lowest price, with the savings over leaving right away
+function cheapestWindow<T extends { start: Date; end: Date; price: number }>(points: T[]): T & { savings: number } {
+  const cheapest = points.reduce((a, b) => (b.price < a.price ? b : a));
+  return { ...cheapest, savings: points[0].price - cheapest.price };
+}
+
+// Average fares by local hour of week, hour of day and overall
+class SeasonalBaseline {
+  private byHourOfWeek = new Map<number, number[]>();
+  private byHour = new Map<number, number[]>();
+  private all: number[] = [];
+
+  constructor(items: FareObservation[], private timeZone: string) {
+    items.forEach(item => {
+      const { weekHour, hour } = this.slot(new Date(item.time));
+      push(this.byHourOfWeek, weekHour, item.price);
+      push(this.byHour, hour, item.price);
+      this.all.push(item.price);
+    });
+  }
+
+  public at(date: Date): { price: number; basis: BaselineBasis; samples: number } {
+    const { weekHour, hour } = this.slot(date);
+    const weekly = this.byHourOfWeek.get(weekHour) || [];
+    if (weekly.length >= FareForecastService.MIN_SLOT_SAMPLES) {
+      return { price: mean(weekly), basis: 'hour_of_week', samples: weekly.length };
+    }
+    const daily = this.byHour.get(hour) || [];
+    if (daily.length >= FareForecastService.MIN_SLOT_SAMPLES) {
+      return { price: mean(daily), basis: 'hour_of_day', samples: daily.length };
+    }
+    return { price: mean(this.all), basis: 'overall', samples: this.all.length };
+  }
+
+  private slot(date: Date) {
+    const local = toServiceTime(date, this.timeZone);
+    const hour = Math.floor(local.seconds / 3600);
+    return { weekHour: DAY_NAMES.indexOf(local.dayName) * 24 + hour, hour };
+  }
+}
+
+function push(map: Map<number, number[]>, key: number, value: number) {
+  if (!map.has(key)) map.set(key, []);
+  map.get(key)!.push(value);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
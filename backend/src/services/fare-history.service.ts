@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import { FareEstimate, GeoLocation } from '../interfaces/types';
+import { City } from '../interfaces/city';
+import { geohash } from '../utils/geometry';
+import { DAY_NAMES, DayName, toServiceTime } from '../utils/gtfs-time';
+
+export const DEFAULT_FARE_HISTORY_DIR = path.join(process.cwd(), 'data', 'fare-history');
+
+// One fare seen for a trip, as stored. Trips are kept as geohash cells, not coordinates.
+export interface FareObservation {
+  time: number; // Epoch milliseconds
+  city: string;
+  origin: string;
+  destination: string;
+  platform: FareEstimate['platform'];
+  vehicleType: string;
+  price: number;
+  currency: string;
+  source: FareEstimate['source'];
+  surgeMultiplier?: number; // Only known for rate card estimates
+}
+
+export interface FareHistoryQuery {
+  origin: string; // Geohash cells. Shorter hashes match every cell inside them.
+  destination: string;
+  platform?: string; // Every platform and vehicle type when omitted
+  vehicleType?: string;
+  sources?: FareEstimate['source'][]; // Every source when omitted
+  from: Date;
+  to: Date;
+}
+
+export interface HourOfWeekBucket {
+  day: DayName;
+  hour: number; // 0-23, in the city's local time
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+}
+
+export interface SurgeFrequency {
+  observations: number;
+  surged: number;
+  frequency: number; // Share of observations that were surged, 0-1
+  baselinePrice: number | null;
+  buckets: Array<{ day: DayName; hour: number; count: number; surged: number; frequency: number }>;
+}
+
+/**
+ * Append-only store of every fare fetched by FareService, for analysing prices over time.
+ * Observations are written as NDJSON to one file per UTC day under FARE_HISTORY_DIR
+ * (default data/fare-history/), so a range query only reads the days it covers.
+ */
+export class FareHistoryService {
+  private static instance: FareHistoryService;
+
+  public static readonly CELL_PRECISION = 6;
+  public static readonly MAX_RANGE_DAYS = 366;
+  // Fares a platform quoted. Estimates are priced from our own rate cards, so the analytics
+  // leave them out.
+  public static readonly OBSERVED_SOURCES: FareEstimate['source'][] = ['live', 'scraped', 'api'];
+  // Sources that are recorded. Cached fares repeat an earlier fetch.
+  public static readonly RECORDED_SOURCES: FareEstimate['source'][] = [...FareHistoryService.OBSERVED_SOURCES, 'estimate'];
+  // Quoted fares carry no multiplier. They count as surged when this much above the route's
+  // baseline (its 25th percentile price).
+  public static readonly SURGE_THRESHOLD = 1.2;
+
+  // Appends run one after another so a day's file keeps observations in order
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private dir: string) {}
+
+  public static getInstance(): FareHistoryService {
+    if (!FareHistoryService.instance) {
+      FareHistoryService.instance = new FareHistoryService(process.env.FARE_HISTORY_DIR || DEFAULT_FARE_HISTORY_DIR);
+    }
+    return FareHistoryService.instance;
+  }
+
+  public static cellOf(point: GeoLocation, precision: number = FareHistoryService.CELL_PRECISION): string {
+    return geohash(point, precision);
+  }
+
+  // Writes in the background. A failed write is logged and never fails the fare request.
+  public record(pickup: GeoLocation, drop: GeoLocation, city: City, estimates: FareEstimate[]): void {
+    const fresh = estimates.filter(estimate => estimate.source !== 'cached');
+    if (fresh.length === 0) return;
+
+    const origin = FareHistoryService.cellOf(pickup);
+    const destination = FareHistoryService.cellOf(drop);
+    const byDay = new Map<string, string>();
+    fresh.forEach(estimate => {
+      const observation: FareObservation = {
+        time: estimate.timestamp,
+        city: city.id,
+        origin,
+        destination,
+        platform: estimate.platform,
+        vehicleType: estimate.vehicleType,
+        price: estimate.price,
+        currency: estimate.currency,
+        source: estimate.source,
+        surgeMultiplier: estimate.breakdown?.surgeMultiplier
+      };
+      const file = this.fileFor(new Date(estimate.timestamp));
+      byDay.set(file, (byDay.get(file) || '') + JSON.stringify(observation) + '\n');
+    });
+
+    this.writes = this.writes
+      .then(async () => {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        for (const [file, lines] of byDay) {
+          await fs.promises.appendFile(file, lines);
+        }
+      })
+      .catch(err => console.error('[FareHistory] Failed to record observations:', err));
+  }
+
+  // Observations of a route between two dates, oldest first
+  public async query(query: FareHistoryQuery): Promise<FareObservation[]> {
+    await this.writes;
+
+    const vehicleType = query.vehicleType?.toLowerCase();
+    const from = query.from.getTime();
+    const to = query.to.getTime();
+    const observations: FareObservation[] = [];
+    for (const file of this.filesBetween(query.from, query.to)) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(file, 'utf-8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw err;
+      }
+
+      content.split('\n').forEach(line => {
+        if (!line) return;
+        let observation: FareObservation;
+        try {
+          observation = JSON.parse(line);
+        } catch {
+          return; // Torn last line of an interrupted write
+        }
+        if (observation.time >= from && observation.time <= to
+          && observation.origin.startsWith(query.origin)
+          && observation.destination.startsWith(query.destination)
+          && (query.platform === undefined || observation.platform === query.platform)
+          && (vehicleType === undefined || observation.vehicleType.toLowerCase() === vehicleType)
+          && (query.sources === undefined || query.sources.includes(observation.source))) {
+          observations.push(observation);
+        }
+      });
+    }
+    return observations.sort((a, b) => a.time - b.time);
+  }
+
+  public static isObserved(observation: FareObservation): boolean {
+    return FareHistoryService.OBSERVED_SOURCES.includes(observation.source);
+  }
+
+  // Price statistics per local day of week and hour of the observed fares. Only hours with
+  // observations are listed.
+  public hourOfWeek(observations: FareObservation[], timeZone: string): HourOfWeekBucket[] {
+    return this.groupByHourOfWeek(observations.filter(FareHistoryService.isObserved), timeZone).map(({ day, hour, items }) => {
+      const prices = items.map(item => item.price);
+      return {
+        day,
+        hour,
+        count: items.length,
+        average: Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length * 100) / 100,
+        min: Math.min(...prices),
+        max: Math.max(...prices)
+      };
+    });
+  }
+
+  // Share of the observed fares that were surged
+  public surgeFrequency(all: FareObservation[], timeZone: string): SurgeFrequency {
+    const observations = all.filter(FareHistoryService.isObserved);
+    const baselinePrice = percentile(observations.map(item => item.price), 0.25);
+    const isSurged = (item: FareObservation) => baselinePrice !== null && item.price >= baselinePrice * FareHistoryService.SURGE_THRESHOLD;
+
+    const surged = observations.filter(isSurged).length;
+    return {
+      observations: observations.length,
+      surged,
+      frequency: ratio(surged, observations.length),
+      baselinePrice,
+      buckets: this.groupByHourOfWeek(observations, timeZone).map(({ day, hour, items }) => {
+        const surgedCount = items.filter(isSurged).length;
+        return { day, hour, count: items.length, surged: surgedCount, frequency: ratio(surgedCount, items.length) };
+      })
+    };
+  }
+
+  private groupByHourOfWeek(observations: FareObservation[], timeZone: string) {
+    const groups = new Map<string, { day: DayName; hour: number; order: number; items: FareObservation[] }>();
+    observations.forEach(item => {
+      const local = toServiceTime(new Date(item.time), timeZone);
+      const hour = Math.floor(local.seconds / 3600);
+      const key = `${local.dayName}:${hour}`;
+      let group = groups.get(key);
+      if (!group) {
+        // Monday first
+        const order = ((DAY_NAMES.indexOf(local.dayName) + 6) % 7) * 24 + hour;
+        group = { day: local.dayName, hour, order, items: [] };
+        groups.set(key, group);
+      }
+      group.items.push(item);
+    });
+    return [...groups.values()].sort((a, b) => a.order - b.order);
+  }
+
+  private fileFor(date: Date): string {
+    return path.join(this.dir, `${date.toISOString().slice(0, 10)}.ndjson`);
+  }
+
+  private filesBetween(from: Date, to: Date): string[] {
+    const files: string[] = [];
+    const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+    while (day.getTime() <= to.getTime()) {
+      files.push(this.fileFor(day));
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+    return files;
+  }
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) * p)];
+}
+
+function ratio(part: number, whole: number): number {
+  return whole === 0 ? 0 : Math.round(part / whole * 1000) / 1000;
+}
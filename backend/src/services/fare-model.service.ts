@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { GeoLocation } from '../interfaces/types';
+import { City } from '../interfaces/city';
+import { CityRateCard, RateCardFile, SurgeBand } from '../interfaces/rate-card';
+import { RoadTrip } from './road-routing.service';
+import { calculateDistance, calculateFare, FareBreakdown } from '../utils/fare-calculator';
+import { distanceToPolylineKm } from '../utils/geometry';
+import { DAY_NAMES, ServiceTime, parseTimeSeconds, toServiceTime } from '../utils/gtfs-time';
+
+export const DEFAULT_RATE_CARDS_PATH = path.join(process.cwd(), 'rate-cards.json');
+export const DEFAULT_RATE_CARD = 'default';
+
+export interface FareQuoteRequest {
+  city: City;
+  platform: string;
+  vehicleType: string;
+  pickup: GeoLocation;
+  drop: GeoLocation;
+  trip: RoadTrip;
+  at?: Date; // Defaults to now
+}
+
+export interface FareQuote {
+  price: number;
+  currency: string;
+  city: string;
+  surgeBand?: string;
+  breakdown: FareBreakdown;
+}
+
+// Prices a trip for one vehicle class. Same request, same quote.
+export interface FareModel {
+  quote(request: FareQuoteRequest): FareQuote;
+}
+
+/**
+ * Fare model driven by a rate card file (RATE_CARDS_PATH, JSON or YAML) with the charges of
+ * every platform and vehicle type per city. The "default" card prices cities without a card
+ * and vehicle types a city's card doesn't list. Surge comes from the city's time bands,
+ * never from chance.
+ */
+export class RateCardFareModel implements FareModel {
+  private static instance: RateCardFareModel;
+
+  private fallback: CityRateCard;
+
+  constructor(private cards: CityRateCard[]) {
+    this.fallback = cards.find(card => card.id === DEFAULT_RATE_CARD)!;
+  }
+
+  public static getInstance(): RateCardFareModel {
+    if (!RateCardFareModel.instance) {
+      RateCardFareModel.instance = RateCardFareModel.load(process.env.RATE_CARDS_PATH || DEFAULT_RATE_CARDS_PATH);
+    }
+    return RateCardFareModel.instance;
+  }
+
+  public static load(filePath: string): RateCardFareModel {
+    const text = fs.readFileSync(filePath, 'utf-8');
+    const data = /\.ya?ml$/i.test(filePath) ? parseYaml(text) : JSON.parse(text);
+    const cards = validateRateCards(data, filePath);
+    console.log(`[FareModel] Loaded rate cards for ${cards.map(card => card.id).join(', ')} from ${filePath}`);
+    return new RateCardFareModel(cards);
+  }
+
+  public quote(request: FareQuoteRequest): FareQuote {
+    const { city } = request;
+    const card = this.cards.find(c => c.id === city.id) || this.fallback;
+    const rates = card.platforms[request.platform]?.[request.vehicleType]
+      ?? this.fallback.platforms[request.platform]?.[request.vehicleType];
+    if (!rates) {
+      throw new Error(`No rate card for ${request.platform} ${request.vehicleType} in ${card.id} or ${this.fallback.id}`);
+    }
+
+    const local = toServiceTime(request.at || new Date(), city.timezone);
+    const band = this.surgeAt(card, local);
+    const breakdown = calculateFare(rates, request.trip.distanceKm, request.trip.durationMins, {
+      surgeMultiplier: band?.multiplier ?? 1,
+      night: !!card.night && inWindow(local.seconds, card.night.start, card.night.end),
+      tolls: (card.tolls || [])
+        .filter(toll => distanceToPolylineKm(request.trip.path, toll) <= toll.radiusKm)
+        .reduce((sum, toll) => sum + toll.amount, 0),
+      airport: (card.airports || []).some(airport =>
+        [request.pickup, request.drop].some(point => calculateDistance(point.lat, point.lng, airport.lat, airport.lng) <= airport.radiusKm))
+    });
+
+    return {
+      price: breakdown.total,
+      currency: city.currency,
+      city: city.id,
+      surgeBand: breakdown.surgeMultiplier !== 1 ? band?.name : undefined,
+      breakdown
+    };
+  }
+
+  // Highest multiplier among the bands in force, so overlapping bands don't compound
+  private surgeAt(card: CityRateCard, local: ServiceTime): SurgeBand | null {
+    let best: SurgeBand | null = null;
+    for (const band of card.surge || []) {
+      if (band.days && !band.days.includes(local.dayName)) continue;
+      if (!inWindow(local.seconds, band.start, band.end)) continue;
+      if (!best || band.multiplier > best.multiplier) best = band;
+    }
+    return best;
+  }
+}
+
+// [start, end) in seconds since local midnight, wrapping past midnight when end < start.
+// An end of 00:00 is the midnight that closes the day.
+function inWindow(seconds: number, start: string, end: string): boolean {
+  const from = parseTimeSeconds(start);
+  const to = parseTimeSeconds(end);
+  return from <= to ? seconds >= from && seconds < to : seconds >= from || seconds < to;
+}
+
+function validateRateCards(data: unknown, filePath: string): CityRateCard[] {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid rate card ${filePath}: ${message}`);
+  };
+  const isTime = (value: unknown) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  const isCoordinate = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+  const isNumber = (value: unknown) => isCoordinate(value) && (value as number) >= 0;
+
+  const cities = (data as RateCardFile)?.cities;
+  if (!Array.isArray(cities) || cities.length === 0) fail('expected a non-empty "cities" list');
+
+  const ids = new Set<string>();
+  cities.forEach(city => {
+    if (!city.id) fail('every city needs an id');
+    if (ids.has(city.id)) fail(`duplicate city "${city.id}"`);
+    ids.add(city.id);
+    const where = `city "${city.id}"`;
+
+    if (city.night && !(isTime(city.night.start) && isTime(city.night.end))) fail(`${where} night hours must be HH:MM`);
+
+    (city.surge || []).forEach(band => {
+      if (!band.name || !isTime(band.start) || !isTime(band.end)) fail(`${where} surge bands need a name, start and end (HH:MM)`);
+      if (!(isNumber(band.multiplier) && band.multiplier >= 1)) fail(`${where} surge band "${band.name}" needs a multiplier of at least 1`);
+      (band.days || []).forEach(day => {
+        if (!DAY_NAMES.includes(day)) fail(`${where} surge band "${band.name}" has an unknown day "${day}"`);
+      });
+    });
+    (city.airports || []).forEach(airport => {
+      if (![airport.lat, airport.lng].every(isCoordinate) || !isNumber(airport.radiusKm)) fail(`${where} airport "${airport.name}" needs lat, lng and radiusKm`);
+    });
+    (city.tolls || []).forEach(toll => {
+      if (![toll.lat, toll.lng].every(isCoordinate) || ![toll.radiusKm, toll.amount].every(isNumber)) fail(`${where} toll "${toll.name}" needs lat, lng, radiusKm and amount`);
+    });
+
+    if (!city.platforms || typeof city.platforms !== 'object') fail(`${where} needs platforms`);
+    Object.entries(city.platforms).forEach(([platform, vehicles]) => {
+      Object.entries(vehicles).forEach(([vehicleType, rates]) => {
+        const required = [rates.baseFare, rates.perKm, rates.perMin, rates.minimumFare];
+        const optional = [rates.bookingFee, rates.airportSurcharge].filter(v => v !== undefined);
+        if (!required.every(isNumber) || !optional.every(isNumber)) {
+          fail(`${where} ${platform} ${vehicleType} needs non-negative baseFare, perKm, perMin and minimumFare`);
+        }
+        if (rates.nightMultiplier !== undefined && !(isNumber(rates.nightMultiplier) && rates.nightMultiplier >= 1)) {
+          fail(`${where} ${platform} ${vehicleType} nightMultiplier must be at least 1`);
+        }
+      });
+    });
+  });
+
+  if (!ids.has(DEFAULT_RATE_CARD)) fail(`a "${DEFAULT_RATE_CARD}" card is required for cities without their own`);
+  return cities;
+}
@@ -1,8 +1,18 @@
-import { FareEstimate, PlatformAdapter, GeoLocation } from '../interfaces/types';
+import { FareEstimate, PlatformAdapter, PlatformResult, GeoLocation } from '../interfaces/types';
+import { City } from '../interfaces/city';
+import { CityService } from './city.service';
+import { FareHistoryService } from './fare-history.service';
+import { SessionHealthService } from './session-health.service';
+import { WarmContext } from './browser.service';
 import { OlaAdapter } from '../adapters/ola.adapter';
 import { RapidoAdapter } from '../adapters/rapido.adapter';
 import { UberAdapter } from '../adapters/uber.adapter';
 
+export interface FareRequestOptions {
+  platforms?: string[];
+  onPlatform?: (result: PlatformResult) => void;
+}
+
 interface CacheEntry {
   data: FareEstimate[];
   timestamp: number;
@@ -12,6 +22,8 @@ export class FareService {
   private adapters: PlatformAdapter[] = [];
   private cache: Map<string, CacheEntry> = new Map();
   private readonly CACHE_TTL = 30000; // 30 seconds
+  // When each platform was last fetched from, over the last minute
+  private fetches: Map<string, number[]> = new Map();
 
   constructor() {
     this.adapters.push(new OlaAdapter());
@@ -20,28 +32,52 @@ export class FareService {
   }
 
 
-  public async getFareEstimates(pickup: GeoLocation, drop: GeoLocation): Promise<FareEstimate[]> {
-    const cacheKey = this.getCacheKey(pickup, drop);
+  // Only platforms and vehicle types offered in the pickup's city are returned.
+  // `platforms` narrows the fetch down to some of them. `onPlatform` gets each platform's
+  // estimates as soon as its adapter finishes, before the slowest one is done.
+  public async getFareEstimates(pickup: GeoLocation, drop: GeoLocation, city: City, options: FareRequestOptions = {}): Promise<FareEstimate[]> {
+    const { platforms, onPlatform } = options;
+    const cacheKey = this.getCacheKey(pickup, drop) + (platforms ? `:${[...platforms].sort().join(',')}` : '');
+    const cities = CityService.getInstance();
+    const adapters = this.adapters.filter(adapter => cities.isAvailable(city, adapter.platformName)
+      && (!platforms || platforms.includes(adapter.platformName)));
     
     // Check Cache
     const cached = this.cache.get(cacheKey);
     if (cached && (Date.now() - cached.timestamp < this.CACHE_TTL)) {
       console.log('[FareService] Returning cached results');
-      return cached.data.map(item => ({ ...item, source: 'cached' })); // Mark as cached
+      const data = cached.data.map(item => ({ ...item, source: 'cached' as const })); // Mark as cached
+      adapters.forEach(adapter => onPlatform?.({
+        platform: adapter.platformName,
+        estimates: data.filter(item => item.platform === adapter.platformName)
+      }));
+      return data;
     }
 
     // Fetch from all adapters in parallel
     console.log('[FareService] Fetching fresh estimates...');
-    const promises = this.adapters.map(adapter => 
-      adapter.getFareEstimate(pickup, drop).catch(err => {
-        console.error(`[FareService] Error in ${adapter.platformName}:`, err);
-        return [] as FareEstimate[]; // Return empty array on failure (partial failure support)
-      })
+    adapters.forEach(adapter => this.recentFetches(adapter.platformName).push(Date.now()));
+    const promises = adapters.map(adapter => 
+      adapter.getFareEstimate(pickup, drop, city)
+        // Live results list whatever the platform offers. Estimates are generated for a fixed
+        // set of vehicle types, so drop the ones this city doesn't have.
+        .then(estimates => estimates.filter(estimate => estimate.source !== 'estimate' || cities.isAvailable(city, estimate.platform, estimate.vehicleType)))
+        .then(estimates => {
+          SessionHealthService.getInstance().recordScrape(adapter.platformName, estimates);
+          onPlatform?.({ platform: adapter.platformName, estimates });
+          return estimates;
+        }, err => {
+          console.error(`[FareService] Error in ${adapter.platformName}:`, err);
+          onPlatform?.({ platform: adapter.platformName, estimates: [], error: err instanceof Error ? err.message : String(err) });
+          return [] as FareEstimate[]; // Return empty array on failure (partial failure support)
+        })
     );
 
     const results = await Promise.all(promises);
     const flattenedResults = results.flat();
 
+    FareHistoryService.getInstance().record(pickup, drop, city, flattenedResults);
+
     // Update Cache
     if (flattenedResults.length > 0) {
       this.cache.set(cacheKey, {
@@ -53,6 +89,32 @@ export class FareService {
     return flattenedResults;
   }
 
+  // Whether a background job may fetch from the platform now without going over its
+  // requestsPerMinute. Interactive requests are counted but never held back.
+  public hasCapacity(platform: string): boolean {
+    const adapter = this.adapters.find(a => a.platformName === platform);
+    return !!adapter && this.recentFetches(platform).length < adapter.requestsPerMinute;
+  }
+
+  // The browser contexts each platform would scrape the cities it runs in with. Every
+  // platform's first context comes before any platform's second, so a small pool warms them all.
+  public warmContexts(): WarmContext[] {
+    const cities = CityService.getInstance();
+    const perPlatform = this.adapters.map(adapter => {
+      const timezones = new Set(cities.list().filter(city => cities.isAvailable(city, adapter.platformName)).map(city => city.timezone));
+      return [...timezones].flatMap(timezoneId => adapter.warmContexts?.(timezoneId) ?? []);
+    });
+    const rounds = Math.max(0, ...perPlatform.map(contexts => contexts.length));
+    return Array.from({ length: rounds }, (_, round) => perPlatform.flatMap(contexts => contexts[round] ?? [])).flat();
+  }
+
+  private recentFetches(platform: string): number[] {
+    const since = Date.now() - 60000;
+    const times = (this.fetches.get(platform) || []).filter(time => time > since);
+    this.fetches.set(platform, times);
+    return times;
+  }
+
   private getCacheKey(pickup: GeoLocation, drop: GeoLocation): string {
     // Rounding coordinates to 4 decimal places to group nearby requests (approx 11m precision)
     const pLat = pickup.lat.toFixed(4);
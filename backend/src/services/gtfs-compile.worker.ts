@@ -0,0 +1,23 @@
+import { parentPort, workerData } from 'worker_threads';
+import { loadCompiledFeed, resolveFeedSource, cachePathFor, CompiledFeed } from './gtfs-loader';
+import { GtfsValidationError, ValidationReport } from './gtfs-validator';
+
+// Reply to BusService: the compiled feed (null when the source holds no GTFS tables), or why
+// it failed. Errors don't survive postMessage with their class, so the report travels apart.
+export type GtfsCompileResult =
+  | { feed: CompiledFeed | null }
+  | { error: string; report?: ValidationReport };
+
+// Resolves, compiles and caches one feed source off the main thread, so a reload never
+// blocks requests while CSVs are parsed, validated and indexed
+try {
+  const gtfsPath = resolveFeedSource(workerData.source);
+  const result: GtfsCompileResult = { feed: loadCompiledFeed(gtfsPath, cachePathFor(gtfsPath)) };
+  parentPort!.postMessage(result);
+} catch (error) {
+  const result: GtfsCompileResult = {
+    error: error instanceof Error ? error.message : String(error),
+    report: error instanceof GtfsValidationError ? error.report : undefined
+  };
+  parentPort!.postMessage(result);
+}
@@ -0,0 +1,476 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import v8 from 'v8';
+import { parse } from 'csv-parse/sync';
+import { Agency, Stop, Trip, Route, Calendar, CalendarDate, ShapePoint, StopTimeTable, GtfsTables, FareTables, Transfer } from '../interfaces/gtfs';
+import { parseTimeSeconds } from '../utils/gtfs-time';
+import { polylineLengthKm } from '../utils/geometry';
+import { readZipEntries } from '../utils/zip';
+import { RaptorService, RoutePattern, Footpath } from './raptor.service';
+import { validateFeed, parseServiceArea, summarizeReport, GtfsValidationError, ServiceArea, ValidationReport } from './gtfs-validator';
+
+// Bump whenever CompiledFeed changes shape so stale caches are rebuilt
+export const GTFS_CACHE_VERSION = 8;
+
+export const DEFAULT_GTFS_PATH = path.join(process.cwd(), 'bus routing');
+export const DEFAULT_GTFS_CACHE_PATH = path.join(process.cwd(), 'cache', 'gtfs.bin');
+export const DEFAULT_FEEDS_CONFIG_PATH = path.join(process.cwd(), 'gtfs-feeds.json');
+export const DEFAULT_FEED_ID = 'delhi';
+
+// Tables we read, without extension. Published feeds use .txt, the bundled one uses .csv.
+const GTFS_TABLES = [
+  'agency', 'stops', 'routes', 'trips', 'stop_times',
+  'calendar', 'calendar_dates', 'shapes', 'feed_info', 'transfers',
+  'fare_attributes', 'fare_rules',
+  'fare_products', 'fare_leg_rules', 'rider_categories', 'stop_areas', 'route_networks'
+];
+const GTFS_EXTENSIONS = ['.csv', '.txt'];
+
+export interface FileChecksum {
+  size: number;
+  mtimeMs: number;
+  sha256: string;
+}
+
+export interface FeedConfig {
+  id: string; // Namespace for everything loaded from this feed, e.g. "delhi-dtc"
+  source: string; // Directory or zip, relative paths resolve against the working directory
+}
+
+export interface CompiledFeed {
+  version: number;
+  feedVersion: string; // feed_info.feed_version, or a content hash when the feed doesn't declare one
+  compiledAt: number;
+  serviceArea: string; // GTFS_SERVICE_AREA the feed was validated against, '' for none
+  validation: ValidationReport; // Warnings found when the feed was compiled (feeds with errors are never compiled)
+  checksums: Record<string, FileChecksum>; // File name -> Checksum of the CSV it was compiled from
+  agencies: Agency[];
+  stops: Stop[];
+  trips: Trip[];
+  routes: Route[];
+  calendar: Calendar[];
+  calendarDates: CalendarDate[];
+  shapes: Map<string, ShapePoint[]>; // ShapeID -> Points (Ordered)
+  fares: FareTables;
+  stopTimes: StopTimeTable;
+  patterns: RoutePattern[]; // Stop indices refer to positions in `stops`
+  footpaths: Footpath[]; // Walking transfers, same stop indices
+  distanceScaleKm: number; // Multiplier from shape_dist_traveled units to km
+}
+
+/**
+ * Feeds to load side by side, from GTFS_FEEDS_CONFIG or ./gtfs-feeds.json. Without a config
+ * file the single feed in GTFS_PATH (default `bus routing/`) is loaded as "delhi".
+ */
+export function loadFeedConfigs(configPath: string = process.env.GTFS_FEEDS_CONFIG || DEFAULT_FEEDS_CONFIG_PATH): FeedConfig[] {
+  if (!fs.existsSync(configPath)) {
+    return [{ id: DEFAULT_FEED_ID, source: process.env.GTFS_PATH || DEFAULT_GTFS_PATH }];
+  }
+
+  const configs: FeedConfig[] = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  const ids = new Set<string>();
+  configs.forEach(config => {
+    if (!config.id || !config.source) throw new Error(`Every feed in ${configPath} needs an id and a source`);
+    if (ids.has(config.id)) throw new Error(`Duplicate feed id "${config.id}" in ${configPath}`);
+    ids.add(config.id);
+  });
+  return configs.map(config => ({ id: config.id, source: path.resolve(config.source) }));
+}
+
+/**
+ * Load the compiled feed for a GTFS directory. The cache file is used when its checksums
+ * still match the CSVs, otherwise the feed is compiled again and the cache rewritten.
+ * Returns null when the directory has no usable feed.
+ */
+export function loadCompiledFeed(gtfsPath: string, cachePath: string): CompiledFeed | null {
+  const cached = readFeedCache(cachePath);
+  const serviceAreaChanged = cached !== null && cached.serviceArea !== serviceAreaKey();
+  if (cached && !serviceAreaChanged && isCacheFresh(gtfsPath, cached)) {
+    console.log(`[GtfsLoader] Using compiled feed from ${cachePath}`);
+    return cached;
+  }
+
+  if (serviceAreaChanged) {
+    console.log('[GtfsLoader] GTFS_SERVICE_AREA changed since the cache was built. Recompiling...');
+  } else if (cached) {
+    console.log('[GtfsLoader] GTFS files changed since the cache was built. Recompiling...');
+  }
+
+  const feed = compileFeed(gtfsPath);
+  if (feed) {
+    try {
+      writeFeedCache(cachePath, feed);
+    } catch (error) {
+      console.warn('[GtfsLoader] Failed to write GTFS cache:', error);
+    }
+  }
+  return feed;
+}
+
+/**
+ * Compile a GTFS directory. Returns null when it holds no GTFS tables at all, and throws
+ * GtfsValidationError when the feed has errors (see gtfs-validator).
+ */
+export function compileFeed(gtfsPath: string): CompiledFeed | null {
+  const tables = readFeedTables(gtfsPath);
+  if (Object.keys(tables.files).length === 0) {
+    console.warn('[GtfsLoader] GTFS files missing.');
+    return null;
+  }
+
+  console.log(`[GtfsLoader] Compiling GTFS feed from ${gtfsPath}...`);
+  const checksums = computeChecksums(gtfsPath);
+
+  const serviceArea = parseServiceArea(process.env.GTFS_SERVICE_AREA);
+  const validation = validateFeed(tables, { serviceArea });
+  if (!validation.valid) {
+    throw new GtfsValidationError(validation);
+  }
+  if (validation.warnings > 0) {
+    console.warn(`[GtfsLoader] Feed has ${validation.warnings} warning(s): ${summarizeReport(validation)}`);
+  }
+
+  const loadCsv = (table: string): any[] => tables.rows[table];
+
+  const agencies: Agency[] = loadCsv('agency');
+  const stops: Stop[] = loadCsv('stops').map((s: any) => ({
+    ...s,
+    stop_lat: parseFloat(s.stop_lat),
+    stop_lon: parseFloat(s.stop_lon)
+  }));
+  const trips: Trip[] = loadCsv('trips');
+  const routes: Route[] = loadCsv('routes');
+  const calendar: Calendar[] = loadCsv('calendar');
+  const calendarDates: CalendarDate[] = loadCsv('calendar_dates');
+
+  const shapes = new Map<string, ShapePoint[]>();
+  loadCsv('shapes').forEach((p: any) => {
+    if (!shapes.has(p.shape_id)) {
+      shapes.set(p.shape_id, []);
+    }
+    shapes.get(p.shape_id)?.push({
+      lat: parseFloat(p.shape_pt_lat),
+      lng: parseFloat(p.shape_pt_lon),
+      sequence: parseInt(p.shape_pt_sequence),
+      dist: p.shape_dist_traveled ? parseFloat(p.shape_dist_traveled) : undefined
+    });
+  });
+  shapes.forEach(points => points.sort((a, b) => a.sequence - b.sequence));
+
+  const fares = buildFareTables(tables);
+
+  console.log('[GtfsLoader] Indexing StopTimes...');
+  const stopTimes = buildStopTimeTable(loadCsv('stop_times'), stops);
+
+  const tripsById = new Map(trips.map(t => [t.trip_id, t]));
+  const patterns = RaptorService.buildPatterns(tripsById, stopTimes);
+  const footpaths = RaptorService.buildFootpaths(stops, loadCsv('transfers') as Transfer[]);
+
+  const feed: CompiledFeed = {
+    version: GTFS_CACHE_VERSION,
+    feedVersion: loadCsv('feed_info')[0]?.feed_version || contentVersion(checksums),
+    compiledAt: Date.now(),
+    serviceArea: serviceAreaKey(serviceArea),
+    validation,
+    checksums,
+    agencies,
+    stops,
+    trips,
+    routes,
+    calendar,
+    calendarDates,
+    shapes,
+    fares,
+    stopTimes,
+    patterns,
+    footpaths,
+    distanceScaleKm: 1
+  };
+  feed.distanceScaleKm = detectDistanceScale(feed);
+
+  console.log(`[GtfsLoader] Compiled ${stops.length} stops, ${stopTimes.stopIndices.length} stop_times, ${trips.length} trips, ${patterns.length} route patterns, ${footpaths.length} footpaths.`);
+  return feed;
+}
+
+export function writeFeedCache(cachePath: string, feed: CompiledFeed): void {
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  // Write then rename so a crash never leaves a truncated cache behind
+  const tmpPath = `${cachePath}.tmp`;
+  fs.writeFileSync(tmpPath, v8.serialize(feed));
+  fs.renameSync(tmpPath, cachePath);
+  console.log(`[GtfsLoader] Wrote compiled feed to ${cachePath}`);
+}
+
+// Parse every known table in a GTFS directory. Absent tables come back as empty row lists.
+export function readFeedTables(gtfsPath: string): GtfsTables {
+  const files = findFeedFiles(gtfsPath);
+  const rows: GtfsTables['rows'] = {};
+
+  for (const table of GTFS_TABLES) {
+    rows[table] = files[table]
+      ? parse(fs.readFileSync(path.join(gtfsPath, files[table]), 'utf-8'), {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true,
+        bom: true
+      })
+      : [];
+  }
+  return { files, rows };
+}
+
+/**
+ * Resolve a feed source to a directory of GTFS tables. Directories are used as-is, zip
+ * archives are extracted once into `cache/feeds/<name>-<path hash>-<content hash>/` and reused
+ * while the zip is unchanged. A new version of the zip replaces the older extractions of the
+ * same file and their compiled caches.
+ */
+export function resolveFeedSource(source: string): string {
+  if (!fs.existsSync(source)) throw new Error(`GTFS source not found: ${source}`);
+  if (fs.statSync(source).isDirectory()) return source;
+  if (path.extname(source).toLowerCase() !== '.zip') {
+    throw new Error(`GTFS source must be a directory or a .zip file: ${source}`);
+  }
+
+  const buffer = fs.readFileSync(source);
+  const digest = crypto.createHash('sha256').update(buffer).digest('hex').slice(0, 16);
+  const sourceDigest = crypto.createHash('sha256').update(path.resolve(source)).digest('hex').slice(0, 8);
+  const feedsDir = path.join(process.cwd(), 'cache', 'feeds');
+  const prefix = `${path.basename(source, '.zip')}-${sourceDigest}-`;
+  const targetDir = path.join(feedsDir, prefix + digest);
+  if (fs.existsSync(targetDir)) return targetDir;
+
+  // Extract next to the target and rename, so a failed extraction is never picked up later
+  const tmpDir = `${targetDir}.tmp`;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  fs.mkdirSync(tmpDir, { recursive: true });
+  for (const entry of readZipEntries(buffer)) {
+    // Some publishers wrap the tables in a top-level folder
+    const name = path.basename(entry.name);
+    if (GTFS_EXTENSIONS.includes(path.extname(name).toLowerCase())) {
+      fs.writeFileSync(path.join(tmpDir, name), entry.data);
+    }
+  }
+  fs.renameSync(tmpDir, targetDir);
+  console.log(`[GtfsLoader] Extracted ${source} to ${targetDir}`);
+
+  for (const name of fs.readdirSync(feedsDir)) {
+    const staleDir = path.join(feedsDir, name);
+    if (!name.startsWith(prefix) || staleDir === targetDir || staleDir === tmpDir) continue;
+    fs.rmSync(staleDir, { recursive: true, force: true });
+    fs.rmSync(cachePathFor(staleDir), { force: true });
+    console.log(`[GtfsLoader] Removed the previous extraction ${staleDir} and its compiled feed`);
+  }
+  return targetDir;
+}
+
+// The bundled feed keeps the historical cache location; any other source gets its own file
+export function cachePathFor(gtfsPath: string): string {
+  if (path.resolve(gtfsPath) === path.resolve(DEFAULT_GTFS_PATH)) return DEFAULT_GTFS_CACHE_PATH;
+  const digest = crypto.createHash('sha256').update(path.resolve(gtfsPath)).digest('hex').slice(0, 16);
+  return path.join(path.dirname(DEFAULT_GTFS_CACHE_PATH), `gtfs-${digest}.bin`);
+}
+
+function serviceAreaKey(area: ServiceArea | undefined = parseServiceArea(process.env.GTFS_SERVICE_AREA)): string {
+  return area ? [area.minLat, area.minLng, area.maxLat, area.maxLng].join(',') : '';
+}
+
+function readFeedCache(cachePath: string): CompiledFeed | null {
+  if (!fs.existsSync(cachePath)) return null;
+  try {
+    const feed = v8.deserialize(fs.readFileSync(cachePath)) as CompiledFeed;
+    return feed.version === GTFS_CACHE_VERSION ? feed : null;
+  } catch (error) {
+    console.warn('[GtfsLoader] Ignoring unreadable GTFS cache:', error);
+    return null;
+  }
+}
+
+// Cheap size/mtime comparison first; only hash files whose metadata changed
+function isCacheFresh(gtfsPath: string, feed: CompiledFeed): boolean {
+  const present = Object.values(findFeedFiles(gtfsPath));
+  const cachedNames = Object.keys(feed.checksums);
+  if (present.length !== cachedNames.length || present.some(name => !feed.checksums[name])) {
+    return false;
+  }
+
+  return present.every(name => {
+    const cached = feed.checksums[name];
+    const stat = fs.statSync(path.join(gtfsPath, name));
+    if (stat.size === cached.size && stat.mtimeMs === cached.mtimeMs) return true;
+    return stat.size === cached.size && hashFile(path.join(gtfsPath, name)) === cached.sha256;
+  });
+}
+
+// Table name -> File name present in the directory
+function findFeedFiles(gtfsPath: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const table of GTFS_TABLES) {
+    const name = GTFS_EXTENSIONS.map(ext => table + ext).find(n => fs.existsSync(path.join(gtfsPath, n)));
+    if (name) files[table] = name;
+  }
+  return files;
+}
+
+function computeChecksums(gtfsPath: string): Record<string, FileChecksum> {
+  const checksums: Record<string, FileChecksum> = {};
+  for (const name of Object.values(findFeedFiles(gtfsPath))) {
+    const fullPath = path.join(gtfsPath, name);
+    const stat = fs.statSync(fullPath);
+    checksums[name] = { size: stat.size, mtimeMs: stat.mtimeMs, sha256: hashFile(fullPath) };
+  }
+  return checksums;
+}
+
+function hashFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+function contentVersion(checksums: Record<string, FileChecksum>): string {
+  const hash = crypto.createHash('sha256');
+  Object.keys(checksums).sort().forEach(name => hash.update(`${name}:${checksums[name].sha256}\n`));
+  return hash.digest('hex').slice(0, 12);
+}
+
+// Type the fare tables. Rows the validator flagged (unknown fares, bad prices) are dropped so
+// the affected legs fall back to estimated fares.
+function buildFareTables(tables: GtfsTables): FareTables {
+  const optionalInt = (value?: string) => (value === undefined || value === '' ? null : parseInt(value));
+  const isPrice = (value?: string) => value !== undefined && value !== '' && parseFloat(value) >= 0;
+
+  const attributes = tables.rows.fare_attributes
+    .filter(fa => fa.fare_id && isPrice(fa.price))
+    .map(fa => ({
+      fare_id: fa.fare_id,
+      agency_id: fa.agency_id || undefined,
+      price: parseFloat(fa.price),
+      currency_type: fa.currency_type || 'INR',
+      transfers: optionalInt(fa.transfers),
+      transfer_duration: optionalInt(fa.transfer_duration)
+    }));
+  const fareIds = new Set(attributes.map(fa => fa.fare_id));
+
+  const products = tables.rows.fare_products
+    .filter(fp => fp.fare_product_id && isPrice(fp.amount))
+    .map(fp => ({
+      fare_product_id: fp.fare_product_id,
+      fare_product_name: fp.fare_product_name || undefined,
+      rider_category_id: fp.rider_category_id || undefined,
+      amount: parseFloat(fp.amount),
+      currency: fp.currency || 'INR'
+    }));
+  const productIds = new Set(products.map(fp => fp.fare_product_id));
+
+  return {
+    attributes,
+    rules: tables.rows.fare_rules
+      .filter(rule => fareIds.has(rule.fare_id))
+      .map(rule => ({
+        fare_id: rule.fare_id,
+        route_id: rule.route_id || undefined,
+        origin_id: rule.origin_id || undefined,
+        destination_id: rule.destination_id || undefined,
+        contains_id: rule.contains_id || undefined
+      })),
+    products,
+    legRules: tables.rows.fare_leg_rules
+      .filter(rule => productIds.has(rule.fare_product_id))
+      .map(rule => ({
+        leg_group_id: rule.leg_group_id || undefined,
+        network_id: rule.network_id || undefined,
+        from_area_id: rule.from_area_id || undefined,
+        to_area_id: rule.to_area_id || undefined,
+        fare_product_id: rule.fare_product_id,
+        rule_priority: optionalInt(rule.rule_priority) ?? 0
+      })),
+    riderCategories: tables.rows.rider_categories.map(rc => ({
+      rider_category_id: rc.rider_category_id,
+      rider_category_name: rc.rider_category_name || rc.rider_category_id,
+      is_default_fare_category: rc.is_default_fare_category === '1'
+    })),
+    stopAreas: tables.rows.stop_areas.map(sa => ({ area_id: sa.area_id, stop_id: sa.stop_id })),
+    routeNetworks: tables.rows.route_networks.map(rn => ({ network_id: rn.network_id, route_id: rn.route_id }))
+  };
+}
+
+function buildStopTimeTable(rows: any[], stops: Stop[]): StopTimeTable {
+  const stopIndex = new Map(stops.map((s, i) => [s.stop_id, i]));
+
+  // Group row numbers by trip, keeping first-seen trip order
+  const rowsByTrip = new Map<string, number[]>();
+  rows.forEach((row, i) => {
+    if (!rowsByTrip.has(row.trip_id)) {
+      rowsByTrip.set(row.trip_id, []);
+    }
+    rowsByTrip.get(row.trip_id)?.push(i);
+  });
+
+  const count = rows.length;
+  const table: StopTimeTable = {
+    tripIds: [...rowsByTrip.keys()],
+    offsets: new Int32Array(rowsByTrip.size + 1),
+    stopIndices: new Int32Array(count),
+    sequences: new Int32Array(count),
+    arrivals: new Int32Array(count),
+    departures: new Int32Array(count),
+    distances: new Float64Array(count)
+  };
+
+  const toSeconds = (value: string) => {
+    const seconds = value ? parseTimeSeconds(value) : NaN;
+    return isNaN(seconds) ? -1 : seconds;
+  };
+
+  let cursor = 0;
+  table.tripIds.forEach((tripId, t) => {
+    table.offsets[t] = cursor;
+    const tripRows = rowsByTrip.get(tripId)!.map(i => rows[i]);
+    tripRows.sort((a, b) => parseInt(a.stop_sequence) - parseInt(b.stop_sequence));
+    for (const row of tripRows) {
+      table.stopIndices[cursor] = stopIndex.get(row.stop_id) ?? -1;
+      table.sequences[cursor] = parseInt(row.stop_sequence);
+      table.arrivals[cursor] = toSeconds(row.arrival_time);
+      table.departures[cursor] = toSeconds(row.departure_time);
+      table.distances[cursor] = row.shape_dist_traveled ? parseFloat(row.shape_dist_traveled) : NaN;
+      cursor++;
+    }
+  });
+  table.offsets[table.tripIds.length] = cursor;
+
+  return table;
+}
+
+// GTFS leaves the unit of shape_dist_traveled to the feed (usually km or metres).
+// Compare it against measured geometry on a sample of shapes/trips to find the scale.
+function detectDistanceScale(feed: CompiledFeed): number {
+  const ratios: number[] = [];
+
+  for (const points of feed.shapes.values()) {
+    const last = points[points.length - 1];
+    const lengthKm = polylineLengthKm(points);
+    if (last.dist !== undefined && lengthKm > 0) ratios.push(last.dist / lengthKm);
+    if (ratios.length >= 50) break;
+  }
+
+  if (ratios.length === 0) {
+    const { offsets, stopIndices, distances } = feed.stopTimes;
+    for (let t = 0; t < feed.stopTimes.tripIds.length && ratios.length < 50; t++) {
+      const first = offsets[t];
+      const last = offsets[t + 1] - 1;
+      if (last <= first || isNaN(distances[first]) || isNaN(distances[last])) continue;
+
+      const coords: { lat: number; lng: number }[] = [];
+      for (let row = first; row <= last; row++) {
+        const stop = feed.stops[stopIndices[row]];
+        if (stop) coords.push({ lat: stop.stop_lat, lng: stop.stop_lon });
+      }
+      const lengthKm = polylineLengthKm(coords);
+      if (lengthKm > 0) ratios.push((distances[last] - distances[first]) / lengthKm);
+    }
+  }
+
+  if (ratios.length === 0) return 1;
+  ratios.sort((a, b) => a - b);
+  return ratios[Math.floor(ratios.length / 2)] > 100 ? 0.001 : 1; // Metres vs km
+}
@@ -0,0 +1,458 @@
+import { GtfsTables } from '../interfaces/gtfs';
+import { parseTimeSeconds } from '../utils/gtfs-time';
+import { calculateDistance } from '../utils/fare-calculator';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  code: string; // Stable identifier, e.g. unknown_stop, non_monotonic_time
+  severity: IssueSeverity;
+  table: string;
+  line?: number; // Line in the file, the header being line 1
+  id?: string; // Offending entity (stop_id, trip_id, service_id...)
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean; // No errors. Warnings never reject a feed.
+  checked_at: string;
+  tables: Record<string, number>; // Table -> Row count
+  errors: number;
+  warnings: number;
+  counts: Record<string, number>; // Issue code -> Occurrences, including those past the per-code cap
+  issues: ValidationIssue[];
+}
+
+export interface ServiceArea {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+export interface ValidationOptions {
+  serviceArea?: ServiceArea; // Stops outside it are errors. Without one, stops far from the rest of the feed are warnings.
+  outlierKm?: number; // Distance from the feed's median stop that counts as an outlier (default 100)
+  maxIssuesPerCode?: number; // Keeps reports of badly broken feeds readable (default 50)
+  today?: string; // YYYYMMDD, for the expiry check (defaults to the current UTC date)
+}
+
+export class GtfsValidationError extends Error {
+  constructor(public report: ValidationReport) {
+    super(`GTFS feed failed validation with ${report.errors} error(s): ${summarizeReport(report, 'error')}`);
+    this.name = 'GtfsValidationError';
+  }
+}
+
+const REQUIRED_TABLES = ['agency', 'stops', 'routes', 'trips', 'stop_times'];
+const DAY_COLUMNS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const TIME_PATTERN = /^\d{1,3}:\d{2}:\d{2}$/;
+const DATE_PATTERN = /^\d{8}$/;
+
+type AddIssue = (issue: ValidationIssue) => void;
+
+/**
+ * Check a parsed feed for problems that would make routing silently wrong: broken
+ * references, trips running backwards in time, misplaced stops, duplicate IDs and
+ * services that never run.
+ */
+export function validateFeed(tables: GtfsTables, options: ValidationOptions = {}): ValidationReport {
+  const maxIssuesPerCode = options.maxIssuesPerCode ?? 50;
+  const report: ValidationReport = {
+    valid: true,
+    checked_at: new Date().toISOString(),
+    tables: {},
+    errors: 0,
+    warnings: 0,
+    counts: {},
+    issues: []
+  };
+
+  Object.entries(tables.rows).forEach(([table, rows]) => {
+    if (tables.files[table]) report.tables[table] = rows.length;
+  });
+
+  const add: AddIssue = issue => {
+    report.counts[issue.code] = (report.counts[issue.code] || 0) + 1;
+    if (issue.severity === 'error') report.errors++;
+    else report.warnings++;
+    if (report.counts[issue.code] <= maxIssuesPerCode) report.issues.push(issue);
+  };
+
+  checkRequiredTables(tables, add);
+  checkDuplicateIds(tables, add);
+  checkStops(tables, options, add);
+  checkReferences(tables, add);
+  checkStopTimes(tables, add);
+  checkFares(tables, add);
+  checkCalendar(tables, options.today ?? new Date().toISOString().slice(0, 10).replace(/-/g, ''), add);
+
+  report.valid = report.errors === 0;
+  return report;
+}
+
+// Parses "minLat,minLng,maxLat,maxLng", e.g. from the GTFS_SERVICE_AREA env variable
+export function parseServiceArea(value?: string): ServiceArea | undefined {
+  if (!value) return undefined;
+  const [minLat, minLng, maxLat, maxLng] = value.split(',').map(v => parseFloat(v.trim()));
+  if ([minLat, minLng, maxLat, maxLng].some(isNaN)) {
+    console.warn(`[GtfsValidator] Ignoring malformed service area "${value}"`);
+    return undefined;
+  }
+  return { minLat, minLng, maxLat, maxLng };
+}
+
+// One line per issue code, most frequent first
+export function summarizeReport(report: ValidationReport, severity?: IssueSeverity): string {
+  const codes = severity ? new Set(report.issues.filter(i => i.severity === severity).map(i => i.code)) : null;
+  return Object.entries(report.counts)
+    .filter(([code]) => !codes || codes.has(code))
+    .sort((a, b) => b[1] - a[1])
+    .map(([code, count]) => `${code} x${count}`)
+    .join(', ');
+}
+
+function checkRequiredTables(tables: GtfsTables, add: AddIssue) {
+  REQUIRED_TABLES.forEach(table => {
+    if (!tables.files[table]) {
+      add({ code: 'missing_table', severity: 'error', table, message: `${table} is required` });
+    }
+  });
+
+  if (!tables.files.calendar && !tables.files.calendar_dates) {
+    add({
+      code: 'missing_calendar', severity: 'warning', table: 'calendar',
+      message: 'Neither calendar nor calendar_dates is present, every service is assumed to run daily'
+    });
+  }
+}
+
+function checkDuplicateIds(tables: GtfsTables, add: AddIssue) {
+  const keys: [string, string][] = [
+    ['stops', 'stop_id'], ['routes', 'route_id'], ['trips', 'trip_id'], ['calendar', 'service_id']
+  ];
+
+  keys.forEach(([table, column]) => {
+    const firstLine = new Map<string, number>();
+    tables.rows[table].forEach((row, i) => {
+      const id = row[column];
+      if (!id) {
+        add({ code: 'missing_id', severity: 'error', table, line: i + 2, message: `Row has no ${column}` });
+        return;
+      }
+      if (firstLine.has(id)) {
+        add({
+          code: 'duplicate_id', severity: 'error', table, line: i + 2, id,
+          message: `${column} ${id} already defined on line ${firstLine.get(id)}`
+        });
+        return;
+      }
+      firstLine.set(id, i + 2);
+    });
+  });
+}
+
+function checkStops(tables: GtfsTables, options: ValidationOptions, add: AddIssue) {
+  const located: { id: string; line: number; lat: number; lng: number }[] = [];
+
+  tables.rows.stops.forEach((row, i) => {
+    const lat = parseFloat(row.stop_lat);
+    const lng = parseFloat(row.stop_lon);
+    if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180 || (lat === 0 && lng === 0)) {
+      add({
+        code: 'invalid_coordinates', severity: 'error', table: 'stops', line: i + 2, id: row.stop_id,
+        message: `Stop ${row.stop_id} has invalid coordinates (${row.stop_lat}, ${row.stop_lon})`
+      });
+      return;
+    }
+    located.push({ id: row.stop_id, line: i + 2, lat, lng });
+  });
+
+  const area = options.serviceArea;
+  if (area) {
+    located.forEach(stop => {
+      if (stop.lat < area.minLat || stop.lat > area.maxLat || stop.lng < area.minLng || stop.lng > area.maxLng) {
+        add({
+          code: 'out_of_area', severity: 'error', table: 'stops', line: stop.line, id: stop.id,
+          message: `Stop ${stop.id} (${stop.lat}, ${stop.lng}) is outside the service area`
+        });
+      }
+    });
+    return;
+  }
+
+  // No configured area: flag stops far from where the rest of the feed is
+  if (located.length === 0) return;
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  const centerLat = median(located.map(s => s.lat));
+  const centerLng = median(located.map(s => s.lng));
+  const outlierKm = options.outlierKm ?? 100;
+
+  located.forEach(stop => {
+    const distance = calculateDistance(centerLat, centerLng, stop.lat, stop.lng);
+    if (distance > outlierKm) {
+      add({
+        code: 'out_of_area', severity: 'warning', table: 'stops', line: stop.line, id: stop.id,
+        message: `Stop ${stop.id} is ${distance.toFixed(0)} km from the centre of the feed`
+      });
+    }
+  });
+}
+
+function checkReferences(tables: GtfsTables, add: AddIssue) {
+  const stopIds = new Set(tables.rows.stops.map(s => s.stop_id));
+  const routeIds = new Set(tables.rows.routes.map(r => r.route_id));
+  const tripIds = new Set(tables.rows.trips.map(t => t.trip_id));
+  const agencyIds = new Set(tables.rows.agency.map(a => a.agency_id).filter(Boolean));
+  const shapeIds = new Set(tables.rows.shapes.map(p => p.shape_id));
+  const serviceIds = new Set([
+    ...tables.rows.calendar.map(c => c.service_id),
+    ...tables.rows.calendar_dates.map(d => d.service_id)
+  ]);
+  const hasCalendar = Boolean(tables.files.calendar || tables.files.calendar_dates);
+
+  // agency_id may be left out when the feed has a single agency
+  if (tables.rows.agency.length > 1) {
+    tables.rows.routes.forEach((route, i) => {
+      if (!agencyIds.has(route.agency_id)) {
+        add({
+          code: 'unknown_agency', severity: 'error', table: 'routes', line: i + 2, id: route.route_id,
+          message: `Route ${route.route_id} references unknown agency "${route.agency_id || ''}"`
+        });
+      }
+    });
+  }
+
+  tables.rows.trips.forEach((trip, i) => {
+    if (!routeIds.has(trip.route_id)) {
+      add({
+        code: 'unknown_route', severity: 'error', table: 'trips', line: i + 2, id: trip.trip_id,
+        message: `Trip ${trip.trip_id} references unknown route ${trip.route_id}`
+      });
+    }
+    if (hasCalendar && !serviceIds.has(trip.service_id)) {
+      add({
+        code: 'unknown_service', severity: 'error', table: 'trips', line: i + 2, id: trip.trip_id,
+        message: `Trip ${trip.trip_id} references unknown service ${trip.service_id}`
+      });
+    }
+    // Geometry falls back to straight lines, so a dangling shape is only a warning
+    if (trip.shape_id && !shapeIds.has(trip.shape_id)) {
+      add({
+        code: 'unknown_shape', severity: 'warning', table: 'trips', line: i + 2, id: trip.trip_id,
+        message: `Trip ${trip.trip_id} references unknown shape ${trip.shape_id}`
+      });
+    }
+  });
+
+  tables.rows.stop_times.forEach((st, i) => {
+    if (!tripIds.has(st.trip_id)) {
+      add({
+        code: 'unknown_trip', severity: 'error', table: 'stop_times', line: i + 2, id: st.trip_id,
+        message: `stop_time references unknown trip ${st.trip_id}`
+      });
+    }
+    if (!stopIds.has(st.stop_id)) {
+      add({
+        code: 'unknown_stop', severity: 'error', table: 'stop_times', line: i + 2, id: st.stop_id,
+        message: `Trip ${st.trip_id} references unknown stop ${st.stop_id}`
+      });
+    }
+  });
+
+  // A broken transfer only loses one walking link, so it is a warning
+  tables.rows.transfers.forEach((transfer, i) => {
+    [transfer.from_stop_id, transfer.to_stop_id].forEach(stopId => {
+      if (!stopIds.has(stopId)) {
+        add({
+          code: 'unknown_transfer_stop', severity: 'warning', table: 'transfers', line: i + 2, id: stopId,
+          message: `Transfer references unknown stop ${stopId || '(empty)'}`
+        });
+      }
+    });
+  });
+}
+
+// Within each trip, ordered by stop_sequence, times must never go backwards
+function checkStopTimes(tables: GtfsTables, add: AddIssue) {
+  const rowsByTrip = new Map<string, number[]>();
+  tables.rows.stop_times.forEach((st, i) => {
+    if (!rowsByTrip.has(st.trip_id)) {
+      rowsByTrip.set(st.trip_id, []);
+    }
+    rowsByTrip.get(st.trip_id)?.push(i);
+  });
+
+  const rows = tables.rows.stop_times;
+  const timeOf = (value: string, line: number, tripId: string): number | null => {
+    if (!value) return null;
+    if (!TIME_PATTERN.test(value)) {
+      add({
+        code: 'invalid_time', severity: 'error', table: 'stop_times', line, id: tripId,
+        message: `Trip ${tripId} has malformed time "${value}"`
+      });
+      return null;
+    }
+    return parseTimeSeconds(value);
+  };
+
+  rowsByTrip.forEach((indices, tripId) => {
+    if (indices.length < 2) {
+      add({
+        code: 'short_trip', severity: 'warning', table: 'stop_times', line: indices[0] + 2, id: tripId,
+        message: `Trip ${tripId} serves fewer than two stops`
+      });
+    }
+
+    const ordered = indices
+      .map(i => ({ index: i, sequence: parseInt(rows[i].stop_sequence) }))
+      .sort((a, b) => a.sequence - b.sequence);
+
+    let previousTime: number | null = null;
+    let previousSequence: number | null = null;
+
+    ordered.forEach(({ index, sequence }, position) => {
+      const row = rows[index];
+      const line = index + 2;
+
+      if (isNaN(sequence)) {
+        add({ code: 'invalid_stop_sequence', severity: 'error', table: 'stop_times', line, id: tripId, message: `Trip ${tripId} has a non-numeric stop_sequence` });
+        return;
+      }
+      if (sequence === previousSequence) {
+        add({ code: 'duplicate_stop_sequence', severity: 'error', table: 'stop_times', line, id: tripId, message: `Trip ${tripId} repeats stop_sequence ${sequence}` });
+      }
+      previousSequence = sequence;
+
+      const arrival = timeOf(row.arrival_time, line, tripId);
+      const departure = timeOf(row.departure_time, line, tripId);
+
+      // GTFS requires the first and last stop of a trip to be timed
+      const isEndpoint = position === 0 || position === ordered.length - 1;
+      if (isEndpoint && !row.arrival_time && !row.departure_time) {
+        add({ code: 'missing_time', severity: 'error', table: 'stop_times', line, id: tripId, message: `Trip ${tripId} has no time at its ${position === 0 ? 'first' : 'last'} stop` });
+      }
+
+      if (arrival !== null && departure !== null && departure < arrival) {
+        add({ code: 'non_monotonic_time', severity: 'error', table: 'stop_times', line, id: tripId, message: `Trip ${tripId} departs stop ${row.stop_id} before arriving` });
+      }
+
+      const current = arrival ?? departure;
+      if (current !== null && previousTime !== null && current < previousTime) {
+        add({ code: 'non_monotonic_time', severity: 'error', table: 'stop_times', line, id: tripId, message: `Trip ${tripId} arrives at stop ${row.stop_id} before leaving the previous stop` });
+      }
+      previousTime = departure ?? arrival ?? previousTime;
+    });
+  });
+
+  tables.rows.trips.forEach((trip, i) => {
+    if (tables.files.stop_times && !rowsByTrip.has(trip.trip_id)) {
+      add({
+        code: 'trip_without_stop_times', severity: 'warning', table: 'trips', line: i + 2, id: trip.trip_id,
+        message: `Trip ${trip.trip_id} has no stop_times`
+      });
+    }
+  });
+}
+
+// Fare problems only affect prices, never routing, so they are warnings. The loader drops
+// the offending rows and those legs fall back to estimated fares.
+function checkFares(tables: GtfsTables, add: AddIssue) {
+  const routeIds = new Set(tables.rows.routes.map(r => r.route_id));
+  const fareIds = new Set<string>();
+  const productIds = new Set<string>();
+  const isPrice = (value?: string) => value !== undefined && value !== '' && parseFloat(value) >= 0;
+
+  tables.rows.fare_attributes.forEach((fa, i) => {
+    if (fareIds.has(fa.fare_id)) {
+      add({
+        code: 'duplicate_fare', severity: 'warning', table: 'fare_attributes', line: i + 2, id: fa.fare_id,
+        message: `fare_id ${fa.fare_id} is defined more than once`
+      });
+    }
+    fareIds.add(fa.fare_id);
+    if (!isPrice(fa.price)) {
+      add({
+        code: 'invalid_price', severity: 'warning', table: 'fare_attributes', line: i + 2, id: fa.fare_id,
+        message: `Fare ${fa.fare_id} has invalid price "${fa.price || ''}"`
+      });
+    }
+  });
+
+  tables.rows.fare_rules.forEach((rule, i) => {
+    if (!fareIds.has(rule.fare_id)) {
+      add({
+        code: 'unknown_fare', severity: 'warning', table: 'fare_rules', line: i + 2, id: rule.fare_id,
+        message: `Fare rule references unknown fare ${rule.fare_id}`
+      });
+    }
+    if (rule.route_id && !routeIds.has(rule.route_id)) {
+      add({
+        code: 'unknown_fare_route', severity: 'warning', table: 'fare_rules', line: i + 2, id: rule.fare_id,
+        message: `Fare rule for ${rule.fare_id} references unknown route ${rule.route_id}`
+      });
+    }
+  });
+
+  tables.rows.fare_products.forEach((fp, i) => {
+    productIds.add(fp.fare_product_id);
+    if (!isPrice(fp.amount)) {
+      add({
+        code: 'invalid_price', severity: 'warning', table: 'fare_products', line: i + 2, id: fp.fare_product_id,
+        message: `Fare product ${fp.fare_product_id} has invalid amount "${fp.amount || ''}"`
+      });
+    }
+  });
+
+  tables.rows.fare_leg_rules.forEach((rule, i) => {
+    if (!productIds.has(rule.fare_product_id)) {
+      add({
+        code: 'unknown_fare_product', severity: 'warning', table: 'fare_leg_rules', line: i + 2, id: rule.fare_product_id,
+        message: `Fare leg rule references unknown fare product ${rule.fare_product_id}`
+      });
+    }
+  });
+}
+
+// Every service used by a trip should run on at least one day, and the feed should still be current
+function checkCalendar(tables: GtfsTables, today: string, add: AddIssue) {
+  const runningServices = new Set<string>();
+  let lastDate = '';
+
+  tables.rows.calendar.forEach((cal, i) => {
+    const line = i + 2;
+    if (!DATE_PATTERN.test(cal.start_date) || !DATE_PATTERN.test(cal.end_date)) {
+      add({ code: 'invalid_date', severity: 'error', table: 'calendar', line, id: cal.service_id, message: `Service ${cal.service_id} has malformed dates` });
+      return;
+    }
+    if (cal.start_date > cal.end_date) {
+      add({ code: 'invalid_date_range', severity: 'error', table: 'calendar', line, id: cal.service_id, message: `Service ${cal.service_id} ends before it starts` });
+      return;
+    }
+    if (DAY_COLUMNS.some(day => cal[day] === '1')) runningServices.add(cal.service_id);
+    if (cal.end_date > lastDate) lastDate = cal.end_date;
+  });
+
+  tables.rows.calendar_dates.forEach((d, i) => {
+    if (!DATE_PATTERN.test(d.date)) {
+      add({ code: 'invalid_date', severity: 'error', table: 'calendar_dates', line: i + 2, id: d.service_id, message: `Service ${d.service_id} has malformed date "${d.date}"` });
+      return;
+    }
+    if (d.exception_type === '1') runningServices.add(d.service_id);
+    if (d.date > lastDate) lastDate = d.date;
+  });
+
+  if (!tables.files.calendar && !tables.files.calendar_dates) return;
+
+  const usedServices = new Set(tables.rows.trips.map(t => t.service_id));
+  usedServices.forEach(serviceId => {
+    if (!runningServices.has(serviceId)) {
+      add({ code: 'empty_service', severity: 'warning', table: 'calendar', id: serviceId, message: `Service ${serviceId} is used by trips but never runs` });
+    }
+  });
+
+  // Expired feeds still answer queries (flagged as stale), so this doesn't reject the feed
+  if (lastDate && lastDate < today) {
+    add({ code: 'feed_expired', severity: 'warning', table: 'calendar', message: `Calendar ends on ${lastDate}` });
+  }
+}
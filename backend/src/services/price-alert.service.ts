@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { FareEstimate, GeoLocation } from '../interfaces/types';
+import { PriceAlert, PriceAlertFile, PriceAlertStatus, PriceAlertWebhook } from '../interfaces/price-alert';
+import { City } from '../interfaces/city';
+import { CityService } from './city.service';
+import { FareService } from './fare.service';
+import { FareHistoryService } from './fare-history.service';
+
+export const DEFAULT_PRICE_ALERTS_PATH = path.join(process.cwd(), 'data', 'price-alerts.json');
+
+export interface NewPriceAlert {
+  pickup: GeoLocation;
+  drop: GeoLocation;
+  city: City;
+  maxPrice: number;
+  platforms?: string[];
+  vehicleTypes?: string[];
+  webhookUrl: string;
+  intervalSeconds?: number;
+  expiresAt?: Date;
+}
+
+/**
+ * Price alerts: trips re-priced in the background until a fare drops to the alert's
+ * maxPrice, which POSTs the matching fares to its webhook once. Alerts are kept in a JSON
+ * file (PRICE_ALERTS_PATH, default data/price-alerts.json) so they survive restarts.
+ *
+ * Only fares the platforms quoted can trigger an alert. A check that only gets rate card
+ * estimates or cached fares back is skipped until the next interval.
+ *
+ * The scheduler wakes every TICK_MS and checks the alerts that are due, oldest first. An
+ * alert waits for a later tick while any of its platforms has used up its
+ * requestsPerMinute, so polling never adds to a platform already at its limit.
+ */
+export class PriceAlertService {
+  public static readonly TICK_MS = 15000;
+  public static readonly DEFAULT_INTERVAL_SECONDS = 300;
+  public static readonly MIN_INTERVAL_SECONDS = 60;
+  public static readonly MAX_INTERVAL_SECONDS = 86400;
+  public static readonly DEFAULT_TTL_DAYS = 7;
+  public static readonly MAX_TTL_DAYS = 30;
+  private static readonly WEBHOOK_TIMEOUT_MS = 10000;
+
+  private alerts: Map<string, PriceAlert>;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(private fareService: FareService, private filePath: string = process.env.PRICE_ALERTS_PATH || DEFAULT_PRICE_ALERTS_PATH) {
+    this.alerts = new Map(this.load().map(alert => [alert.id, alert]));
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkDue().catch(err => console.error('[PriceAlerts] Check failed:', err));
+    }, PriceAlertService.TICK_MS);
+    const active = this.list('active').length;
+    console.log(`[PriceAlerts] Watching ${active} active alert${active === 1 ? '' : 's'}.`);
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  public create(input: NewPriceAlert): PriceAlert {
+    const now = new Date();
+    const alert: PriceAlert = {
+      id: crypto.randomUUID(),
+      pickup: { lat: input.pickup.lat, lng: input.pickup.lng },
+      drop: { lat: input.drop.lat, lng: input.drop.lng },
+      city: input.city.id,
+      maxPrice: input.maxPrice,
+      platforms: input.platforms,
+      vehicleTypes: input.vehicleTypes,
+      webhookUrl: input.webhookUrl,
+      intervalSeconds: input.intervalSeconds || PriceAlertService.DEFAULT_INTERVAL_SECONDS,
+      status: 'active',
+      createdAt: now.toISOString(),
+      expiresAt: (input.expiresAt || new Date(now.getTime() + PriceAlertService.DEFAULT_TTL_DAYS * 86400000)).toISOString(),
+      nextCheckAt: now.toISOString() // First check on the next tick
+    };
+    this.alerts.set(alert.id, alert);
+    this.save();
+    return alert;
+  }
+
+  // Newest first
+  public list(status?: PriceAlertStatus): PriceAlert[] {
+    return [...this.alerts.values()]
+      .filter(alert => !status || alert.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  public get(id: string): PriceAlert | undefined {
+    return this.alerts.get(id);
+  }
+
+  // Stops an active alert. Returns it unchanged when it already stopped.
+  public cancel(id: string): PriceAlert | undefined {
+    const alert = this.alerts.get(id);
+    if (alert?.status === 'active') {
+      alert.status = 'cancelled';
+      this.save();
+    }
+    return alert;
+  }
+
+  public async checkDue(now: Date = new Date()): Promise<void> {
+    if (this.checking) return; // The previous tick is still scraping
+    this.checking = true;
+    try {
+      const due = this.list('active')
+        .filter(alert => alert.nextCheckAt <= now.toISOString())
+        .sort((a, b) => a.nextCheckAt.localeCompare(b.nextCheckAt));
+      for (const alert of due) {
+        await this.check(alert, now).catch(err => console.error(`[PriceAlerts] Alert ${alert.id} check failed:`, err));
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async check(alert: PriceAlert, now: Date): Promise<void> {
+    const city = CityService.getInstance().get(alert.city);
+    if (!city || new Date(alert.expiresAt) <= now) {
+      alert.status = 'expired';
+      if (!city) alert.lastError = `City "${alert.city}" is no longer in the registry`;
+      this.save();
+      return;
+    }
+
+    const platforms = Object.keys(city.platforms).filter(platform => !alert.platforms || alert.platforms.includes(platform));
+    if (!platforms.every(platform => this.fareService.hasCapacity(platform))) return;
+
+    const estimates = await this.fareService.getFareEstimates(alert.pickup, alert.drop, city, { platforms });
+    if (alert.status !== 'active') return; // Cancelled while its fares were fetched
+
+    const checkedAt = new Date();
+    alert.lastCheckedAt = checkedAt.toISOString();
+    alert.nextCheckAt = new Date(checkedAt.getTime() + alert.intervalSeconds * 1000).toISOString();
+
+    const quoted = estimates.filter(estimate => FareHistoryService.OBSERVED_SOURCES.includes(estimate.source));
+    if (quoted.length === 0) {
+      alert.lastError = 'No fares were quoted, only estimates';
+      this.save();
+      return;
+    }
+    delete alert.lastError;
+
+    const matches = quoted.filter(estimate => this.matches(alert, estimate));
+    if (matches.length > 0) {
+      const triggered: PriceAlert = { ...alert, status: 'triggered', triggeredAt: checkedAt.toISOString(), matches };
+      try {
+        await this.notify(triggered);
+        this.alerts.set(alert.id, triggered);
+        console.log(`[PriceAlerts] Alert ${alert.id} triggered at ${Math.min(...matches.map(m => m.price))} ${city.currency}.`);
+      } catch (err) {
+        // Delivery is retried on the next check, if the fare is still low by then
+        alert.lastError = `Webhook failed: ${err instanceof Error ? err.message : err}`;
+        console.warn(`[PriceAlerts] Alert ${alert.id}: ${alert.lastError}`);
+      }
+    }
+    this.save();
+  }
+
+  private matches(alert: PriceAlert, estimate: FareEstimate): boolean {
+    return estimate.price <= alert.maxPrice
+      && (!alert.platforms || alert.platforms.includes(estimate.platform))
+      && (!alert.vehicleTypes || alert.vehicleTypes.some(type => type.toLowerCase() === estimate.vehicleType.toLowerCase()));
+  }
+
+  private async notify(alert: PriceAlert): Promise<void> {
+    const body: PriceAlertWebhook = { event: 'price_alert.triggered', alert };
+    const response = await fetch(alert.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(PriceAlertService.WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  }
+
+  private load(): PriceAlert[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const data: PriceAlertFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    return data.alerts || [];
+  }
+
+  // Written to a temporary file first, so a crash mid-write can't lose every alert
+  private save(): void {
+    const data: PriceAlertFile = { alerts: [...this.alerts.values()] };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,608 @@
+import { Stop, Trip, StopTimeTable, Transfer } from '../interfaces/gtfs';
+import { SpatialIndex } from '../utils/spatial-index';
+import { calculateDistance } from '../utils/fare-calculator';
+
+// A route pattern: trips of one route that visit exactly the same stops in the same order.
+// Trips are sorted by departure and never overtake each other (FIFO), which lets us
+// binary search for the earliest catchable trip at any stop of the pattern.
+export interface RoutePattern {
+  routeId: string;
+  stops: number[]; // Stop indices in travel order
+  tripIds: string[];
+  serviceIds: string[];
+  arrivals: Int32Array; // [trip * stops.length + position]
+  departures: Int32Array;
+}
+
+// Walking link between two different stops, e.g. across the road or to another stand
+export interface Footpath {
+  from: number; // Stop indices
+  to: number;
+  seconds: number;
+  meters: number;
+  listed?: boolean; // Comes from transfers.txt rather than stop proximity
+}
+
+interface Timetable {
+  reversed: boolean;
+  patterns: RoutePattern[];
+  patternsByStop: PatternVisit[][]; // StopIndex -> Patterns through it
+  footpaths: Footpath[][]; // StopIndex -> Footpaths leaving it (entering it, when reversed, as the search runs backwards)
+}
+
+// The first position of a stop in a pattern. Looping patterns visit some stops twice, and
+// scanning from the first visit covers both.
+interface PatternVisit {
+  pattern: number;
+  pos: number;
+}
+
+type RideLabel = { type: 'ride'; pattern: number; trip: number; boardPos: number; alightPos: number };
+
+// A walk label keeps the ride it continues, so the path back never runs through another walk
+type Label =
+  | { type: 'access'; endpoint: RaptorEndpoint; footpath?: Footpath }
+  | RideLabel
+  | { type: 'walk'; footpath: Footpath; ride: RideLabel };
+
+export interface RaptorEndpoint {
+  stopId: string;
+  walkSeconds: number;
+  walkMeters: number;
+  walkPath?: { lat: number; lng: number }[]; // Geometry of the walk, passed through for display
+}
+
+export interface RaptorQuery {
+  origins: RaptorEndpoint[];
+  destinations: RaptorEndpoint[];
+  time: number; // Seconds since service-day midnight
+  mode: 'depart' | 'arrive';
+  maxTransfers: number;
+  maxWalkMeters?: number; // Longest footpath allowed between two legs
+  isServiceActive: (serviceId: string) => boolean;
+}
+
+export interface RaptorLeg {
+  tripId: string;
+  routeId: string;
+  boardIndex: number; // Position in the trip's ordered stop_times
+  alightIndex: number;
+  departure: number;
+  arrival: number;
+}
+
+// Walk between two legs, or between a leg and the first/last stop of the journey
+export interface RaptorTransferWalk {
+  fromStopId: string;
+  toStopId: string;
+  beforeLeg: number; // Index of the leg it leads to, legs.length when it follows the last one
+  seconds: number;
+  meters: number;
+}
+
+export type JourneyTag = 'fastest' | 'fewest_transfers' | 'least_walking';
+
+export interface RaptorJourney {
+  origin: RaptorEndpoint;
+  destination: RaptorEndpoint;
+  legs: RaptorLeg[];
+  walks: RaptorTransferWalk[];
+  departure: number; // Leaving the pickup point (before the access walk)
+  arrival: number; // Reaching the drop point (after the egress walk)
+  transfers: number;
+  walkMeters: number;
+  tags: JourneyTag[];
+}
+
+/**
+ * Round-based public transit router (RAPTOR, Delling et al. 2012).
+ * Round k finds the earliest arrival at every stop using at most k trips, so running
+ * maxTransfers + 1 rounds yields the Pareto set over arrival time and number of transfers.
+ * Arrive-by queries run the same search on a time-reversed copy of the timetable.
+ */
+export class RaptorService {
+  public static readonly TRANSFER_SLACK = 60; // Seconds needed to change buses at a stop
+  public static readonly MAX_FOOTPATH_METERS = 400; // Walking transfers between stops further apart need transfers.txt
+  public static readonly WALK_METERS_PER_MINUTE = 80;
+
+  private stopIndex: Map<string, number> = new Map();
+  private forward: Timetable;
+  private backward: Timetable | null = null;
+  private transferSeconds: Int32Array; // Pattern index -> Time to get on or off it when changing
+
+  // Stop indices in the patterns and footpaths refer to positions in stopIds. A change between
+  // two patterns takes the larger of their transfer times (e.g. leaving a metro station takes
+  // longer than a bus), plus the walk when it involves a footpath.
+  constructor(
+    private stopIds: string[],
+    patterns: RoutePattern[],
+    transferSeconds: (pattern: RoutePattern) => number = () => RaptorService.TRANSFER_SLACK,
+    footpaths: Footpath[] = []
+  ) {
+    stopIds.forEach((stopId, i) => this.stopIndex.set(stopId, i));
+    this.forward = {
+      reversed: false,
+      patterns,
+      patternsByStop: this.indexPatternsByStop(patterns),
+      footpaths: this.indexFootpaths(footpaths, path => path.from)
+    };
+    this.transferSeconds = Int32Array.from(patterns, transferSeconds);
+  }
+
+  public get patternCount(): number {
+    return this.forward.patterns.length;
+  }
+
+  public plan(query: RaptorQuery): RaptorJourney[] {
+    const serviceCache = new Map<string, boolean>();
+    const isActive = (serviceId: string) => {
+      let active = serviceCache.get(serviceId);
+      if (active === undefined) {
+        active = query.isServiceActive(serviceId);
+        serviceCache.set(serviceId, active);
+      }
+      return active;
+    };
+
+    const reversed = query.mode === 'arrive';
+    const timetable = reversed ? this.getBackwardTimetable() : this.forward;
+    const sources = reversed ? query.destinations : query.origins;
+    const targets = reversed ? query.origins : query.destinations;
+    const startTime = reversed ? -query.time : query.time;
+
+    const labels = this.search(timetable, sources, startTime, query.maxTransfers + 1, query.maxWalkMeters ?? Infinity, isActive);
+
+    const journeys: RaptorJourney[] = [];
+    for (let k = 1; k < labels.length; k++) {
+      for (const target of targets) {
+        const idx = this.stopIndex.get(target.stopId);
+        // Only labels set in round k describe journeys with exactly k trips
+        if (idx === undefined || !labels[k][idx]) continue;
+        const journey = this.reconstruct(timetable, labels, k, idx, target);
+        if (journey) journeys.push(journey);
+      }
+    }
+
+    return this.paretoFilter(journeys, reversed);
+  }
+
+  private search(
+    tt: Timetable,
+    sources: RaptorEndpoint[],
+    startTime: number,
+    maxRounds: number,
+    maxWalkMeters: number,
+    isActive: (serviceId: string) => boolean
+  ): (Label | undefined)[][] {
+    const n = this.stopIds.length;
+    const best = new Float64Array(n).fill(Infinity);
+    const arrivals: Float64Array[] = [];
+    const arrivedBy: Int32Array[] = []; // Pattern that set each stop's arrival, -1 when walked to
+    const labels: (Label | undefined)[][] = [];
+    let marked = new Set<number>();
+
+    // Round 0: walk to the nearby stops
+    const initial = new Float64Array(n).fill(Infinity);
+    const initialLabels: (Label | undefined)[] = new Array(n);
+    for (const source of sources) {
+      const idx = this.stopIndex.get(source.stopId);
+      if (idx === undefined) continue;
+      const time = startTime + source.walkSeconds;
+      if (time < initial[idx]) {
+        initial[idx] = time;
+        best[idx] = time;
+        initialLabels[idx] = { type: 'access', endpoint: source };
+        marked.add(idx);
+      }
+    }
+    // Stops across the road from the nearby ones count as reachable too
+    for (const stop of [...marked]) {
+      const access = initialLabels[stop] as Extract<Label, { type: 'access' }>;
+      for (const footpath of tt.footpaths[stop]) {
+        if (footpath.meters > maxWalkMeters) continue;
+        const next = tt.reversed ? footpath.from : footpath.to;
+        const time = initial[stop] + footpath.seconds;
+        if (time < initial[next]) {
+          initial[next] = time;
+          best[next] = time;
+          initialLabels[next] = { type: 'access', endpoint: access.endpoint, footpath };
+          marked.add(next);
+        }
+      }
+    }
+    arrivals.push(initial);
+    arrivedBy.push(new Int32Array(n).fill(-1));
+    labels.push(initialLabels);
+
+    for (let k = 1; k <= maxRounds && marked.size > 0; k++) {
+      const prev = arrivals[k - 1];
+      const prevBy = arrivedBy[k - 1];
+      const current = Float64Array.from(prev);
+      const currentBy = Int32Array.from(prevBy);
+      const currentLabels: (Label | undefined)[] = new Array(n);
+
+      // Collect patterns serving marked stops, remembering the earliest marked position
+      const queue = new Map<number, number>();
+      for (const stop of marked) {
+        for (const { pattern: p, pos } of tt.patternsByStop[stop]) {
+          const existing = queue.get(p);
+          if (existing === undefined || pos < existing) queue.set(p, pos);
+        }
+      }
+      marked = new Set();
+
+      // Traverse each pattern once
+      for (const [p, startPos] of queue) {
+        const pattern = tt.patterns[p];
+        const width = pattern.stops.length;
+        let trip = -1;
+        let boardPos = -1;
+
+        for (let pos = startPos; pos < width; pos++) {
+          const stop = pattern.stops[pos];
+
+          if (trip !== -1) {
+            const arr = pattern.arrivals[trip * width + pos];
+            if (arr < best[stop]) {
+              current[stop] = arr;
+              currentBy[stop] = p;
+              best[stop] = arr;
+              currentLabels[stop] = { type: 'ride', pattern: p, trip, boardPos, alightPos: pos };
+              marked.add(stop);
+            }
+          }
+
+          // Can we catch an earlier trip here?
+          const slack = prevBy[stop] === -1 ? 0 : Math.max(this.transferSeconds[p], this.transferSeconds[prevBy[stop]]);
+          const readyAt = prev[stop] + slack;
+          if (readyAt === Infinity) continue;
+          if (trip === -1 || readyAt <= pattern.departures[trip * width + pos]) {
+            const earliest = this.earliestTrip(pattern, pos, readyAt, isActive);
+            if (earliest !== -1 && (trip === -1 || earliest < trip)) {
+              trip = earliest;
+              boardPos = pos;
+            }
+          }
+        }
+      }
+
+      // Walk on from every stop a ride reached this round. The walked-to stop keeps the
+      // arriving pattern, so the transfer time still applies when boarding there.
+      for (const stop of [...marked]) {
+        const ride = currentLabels[stop] as RideLabel;
+        for (const footpath of tt.footpaths[stop]) {
+          if (footpath.meters > maxWalkMeters) continue;
+          const next = tt.reversed ? footpath.from : footpath.to;
+          const time = current[stop] + footpath.seconds;
+          if (time < best[next]) {
+            current[next] = time;
+            currentBy[next] = currentBy[stop];
+            best[next] = time;
+            currentLabels[next] = { type: 'walk', footpath, ride };
+            marked.add(next);
+          }
+        }
+      }
+
+      arrivals.push(current);
+      arrivedBy.push(currentBy);
+      labels.push(currentLabels);
+    }
+
+    return labels;
+  }
+
+  private earliestTrip(pattern: RoutePattern, pos: number, time: number, isActive: (serviceId: string) => boolean): number {
+    const width = pattern.stops.length;
+    let lo = 0;
+    let hi = pattern.tripIds.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pattern.departures[mid * width + pos] < time) lo = mid + 1;
+      else hi = mid;
+    }
+    for (let t = lo; t < pattern.tripIds.length; t++) {
+      if (isActive(pattern.serviceIds[t])) return t;
+    }
+    return -1;
+  }
+
+  private reconstruct(
+    tt: Timetable,
+    labels: (Label | undefined)[][],
+    round: number,
+    stop: number,
+    target: RaptorEndpoint
+  ): RaptorJourney | null {
+    const steps: (RideLabel | Footpath)[] = [];
+    let source: RaptorEndpoint | null = null;
+
+    while (!source) {
+      let label = labels[round][stop];
+      // Labels carried over from an earlier round live in that round
+      while (!label && round > 0) {
+        round--;
+        label = labels[round][stop];
+      }
+      if (!label) return null;
+
+      if (label.type === 'access') {
+        if (label.footpath) steps.push(label.footpath);
+        source = label.endpoint;
+      } else {
+        if (label.type === 'walk') steps.push(label.footpath);
+        const ride = label.type === 'walk' ? label.ride : label;
+        steps.push(ride);
+        stop = tt.patterns[ride.pattern].stops[ride.boardPos];
+        round--;
+      }
+    }
+
+    // Steps were collected target -> source. In the reversed timetable that is already
+    // the real travel order (pickup -> drop), otherwise flip it.
+    if (!tt.reversed) steps.reverse();
+
+    const legs: RaptorLeg[] = [];
+    const walks: RaptorTransferWalk[] = [];
+    for (const step of steps) {
+      if ('pattern' in step) {
+        legs.push(this.toLeg(tt, step));
+      } else {
+        walks.push({
+          fromStopId: this.stopIds[step.from],
+          toStopId: this.stopIds[step.to],
+          beforeLeg: legs.length,
+          seconds: step.seconds,
+          meters: step.meters
+        });
+      }
+    }
+
+    const origin = tt.reversed ? target : source;
+    const destination = tt.reversed ? source : target;
+    const walkedBefore = walks.filter(w => w.beforeLeg === 0);
+    const walkedAfter = walks.filter(w => w.beforeLeg === legs.length);
+    const sum = (list: RaptorTransferWalk[], key: 'seconds' | 'meters') => list.reduce((total, w) => total + w[key], 0);
+
+    return {
+      origin,
+      destination,
+      legs,
+      walks,
+      departure: legs[0].departure - origin.walkSeconds - sum(walkedBefore, 'seconds'),
+      arrival: legs[legs.length - 1].arrival + destination.walkSeconds + sum(walkedAfter, 'seconds'),
+      transfers: legs.length - 1,
+      walkMeters: origin.walkMeters + destination.walkMeters + sum(walks, 'meters'),
+      tags: []
+    };
+  }
+
+  private toLeg(tt: Timetable, ride: RideLabel): RaptorLeg {
+    const pattern = tt.patterns[ride.pattern];
+    const width = pattern.stops.length;
+    const base = ride.trip * width;
+    if (!tt.reversed) {
+      return {
+        tripId: pattern.tripIds[ride.trip],
+        routeId: pattern.routeId,
+        boardIndex: ride.boardPos,
+        alightIndex: ride.alightPos,
+        departure: pattern.departures[base + ride.boardPos],
+        arrival: pattern.arrivals[base + ride.alightPos]
+      };
+    }
+    // Reversed position p maps to width - 1 - p, and times are negated
+    return {
+      tripId: pattern.tripIds[ride.trip],
+      routeId: pattern.routeId,
+      boardIndex: width - 1 - ride.alightPos,
+      alightIndex: width - 1 - ride.boardPos,
+      departure: -pattern.arrivals[base + ride.alightPos],
+      arrival: -pattern.departures[base + ride.boardPos]
+    };
+  }
+
+  // Keep journeys not dominated on (time, transfers, walking), then tag the best of each criterion.
+  // Time is arrival for depart-at queries and departure (later is better) for arrive-by queries.
+  private paretoFilter(journeys: RaptorJourney[], arriveBy: boolean): RaptorJourney[] {
+    const timeCost = (j: RaptorJourney) => arriveBy ? -j.departure : j.arrival;
+    const dominates = (a: RaptorJourney, b: RaptorJourney) =>
+      timeCost(a) <= timeCost(b) && a.transfers <= b.transfers && a.walkMeters <= b.walkMeters &&
+      (timeCost(a) < timeCost(b) || a.transfers < b.transfers || a.walkMeters < b.walkMeters);
+
+    const front = journeys.filter(j => !journeys.some(other => other !== j && dominates(other, j)));
+
+    const tagBest = (tag: JourneyTag, cost: (j: RaptorJourney) => number) => {
+      let bestJourney: RaptorJourney | null = null;
+      for (const j of front) {
+        if (!bestJourney || cost(j) < cost(bestJourney)) bestJourney = j;
+      }
+      bestJourney?.tags.push(tag);
+    };
+    tagBest('fastest', timeCost);
+    tagBest('fewest_transfers', j => j.transfers);
+    tagBest('least_walking', j => j.walkMeters);
+
+    return front;
+  }
+
+  private getBackwardTimetable(): Timetable {
+    if (!this.backward) {
+      this.backward = this.reverseTimetable(this.forward);
+    }
+    return this.backward;
+  }
+
+  // Mirror every pattern in time: stops run backwards, arrivals become negated departures
+  // and vice versa. Earliest arrival on this timetable is latest departure on the original.
+  private reverseTimetable(tt: Timetable): Timetable {
+    const patterns = tt.patterns.map(pattern => {
+      const width = pattern.stops.length;
+      const count = pattern.tripIds.length;
+      // Latest original arrival first, which is earliest reversed departure
+      const order = [...Array(count).keys()].reverse();
+      const arrivals = new Int32Array(count * width);
+      const departures = new Int32Array(count * width);
+      order.forEach((t, i) => {
+        for (let pos = 0; pos < width; pos++) {
+          arrivals[i * width + pos] = -pattern.departures[t * width + (width - 1 - pos)];
+          departures[i * width + pos] = -pattern.arrivals[t * width + (width - 1 - pos)];
+        }
+      });
+      return {
+        routeId: pattern.routeId,
+        stops: [...pattern.stops].reverse(),
+        tripIds: order.map(t => pattern.tripIds[t]),
+        serviceIds: order.map(t => pattern.serviceIds[t]),
+        arrivals,
+        departures
+      };
+    });
+
+    return {
+      reversed: true,
+      patterns,
+      patternsByStop: this.indexPatternsByStop(patterns),
+      footpaths: this.indexFootpaths(tt.footpaths.flat(), path => path.to)
+    };
+  }
+
+  private indexPatternsByStop(patterns: RoutePattern[]): PatternVisit[][] {
+    const byStop: PatternVisit[][] = this.stopIds.map(() => []);
+    patterns.forEach((pattern, p) => {
+      pattern.stops.forEach((stop, pos) => {
+        if (!byStop[stop].some(visit => visit.pattern === p)) byStop[stop].push({ pattern: p, pos });
+      });
+    });
+    return byStop;
+  }
+
+  private indexFootpaths(footpaths: Footpath[], key: (path: Footpath) => number): Footpath[][] {
+    const byStop: Footpath[][] = this.stopIds.map(() => []);
+    footpaths.forEach(path => byStop[key(path)].push(path));
+    return byStop;
+  }
+
+  /**
+   * Walking links between stops up to MAX_FOOTPATH_METERS apart, timed at walking pace on the
+   * straight line. transfers.txt adds links beyond that radius, sets the time of type 2 links
+   * to min_transfer_time and removes type 3 (not possible) links.
+   */
+  public static buildFootpaths(stops: Stop[], transfers: Transfer[]): Footpath[] {
+    const stopIndex = new Map(stops.map((s, i) => [s.stop_id, i]));
+    const walkSeconds = (meters: number) => Math.ceil(meters / RaptorService.WALK_METERS_PER_MINUTE) * 60;
+    const footpaths = new Map<string, Footpath>(); // "from:to" -> Footpath
+
+    const located = stops.map((stop, i) => ({ stop, i }));
+    const index = new SpatialIndex(located, s => ({ lat: s.stop.stop_lat, lng: s.stop.stop_lon }));
+    located.forEach(({ stop, i }) => {
+      index.within({ lat: stop.stop_lat, lng: stop.stop_lon }, RaptorService.MAX_FOOTPATH_METERS / 1000).forEach(match => {
+        if (match.item.i === i) return;
+        const meters = Math.round(match.distance * 1000);
+        footpaths.set(`${i}:${match.item.i}`, { from: i, to: match.item.i, seconds: walkSeconds(meters), meters });
+      });
+    });
+
+    let unknown = 0;
+    transfers.forEach(transfer => {
+      const from = stopIndex.get(transfer.from_stop_id);
+      const to = stopIndex.get(transfer.to_stop_id);
+      if (from === undefined || to === undefined) {
+        unknown++;
+        return;
+      }
+      if (from === to) return; // Same-stop transfer times are not modelled
+
+      const key = `${from}:${to}`;
+      if (transfer.transfer_type === '3') {
+        footpaths.delete(key);
+        return;
+      }
+      const meters = footpaths.get(key)?.meters
+        ?? Math.round(calculateDistance(stops[from].stop_lat, stops[from].stop_lon, stops[to].stop_lat, stops[to].stop_lon) * 1000);
+      const minTime = transfer.transfer_type === '2' ? parseInt(transfer.min_transfer_time || '') : NaN;
+      footpaths.set(key, { from, to, seconds: isNaN(minTime) ? walkSeconds(meters) : minTime, meters, listed: true });
+    });
+
+    if (unknown > 0) {
+      console.warn(`[RaptorService] Skipped ${unknown} transfers between unknown stops.`);
+    }
+    return [...footpaths.values()];
+  }
+
+  // Group trips by route and exact stop sequence, then split each group into FIFO patterns
+  public static buildPatterns(trips: Map<string, Trip>, stopTimes: StopTimeTable): RoutePattern[] {
+    const groups = new Map<string, { routeId: string; stops: number[]; trips: { trip: Trip; arr: number[]; dep: number[] }[] }>();
+    let skipped = 0;
+
+    stopTimes.tripIds.forEach((tripId, i) => {
+      const trip = trips.get(tripId);
+      if (!trip) return;
+
+      const stops: number[] = [];
+      const arr: number[] = [];
+      const dep: number[] = [];
+      for (let row = stopTimes.offsets[i]; row < stopTimes.offsets[i + 1]; row++) {
+        const stop = stopTimes.stopIndices[row];
+        const a = stopTimes.arrivals[row] !== -1 ? stopTimes.arrivals[row] : stopTimes.departures[row];
+        const d = stopTimes.departures[row] !== -1 ? stopTimes.departures[row] : stopTimes.arrivals[row];
+        if (stop === -1 || a === -1 || d === -1) {
+          skipped++;
+          return;
+        }
+        stops.push(stop);
+        arr.push(a);
+        dep.push(d);
+      }
+      if (stops.length < 2) return;
+
+      const key = `${trip.route_id}|${stops.join(',')}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { routeId: trip.route_id, stops, trips: [] };
+        groups.set(key, group);
+      }
+      group.trips.push({ trip, arr, dep });
+    });
+
+    if (skipped > 0) {
+      console.warn(`[RaptorService] Skipped ${skipped} trips with unknown stops or missing times.`);
+    }
+
+    const patterns: RoutePattern[] = [];
+    groups.forEach(group => {
+      group.trips.sort((a, b) => a.dep[0] - b.dep[0]);
+
+      // A trip joins the first bucket whose last trip it never overtakes
+      const buckets: (typeof group.trips)[] = [];
+      for (const t of group.trips) {
+        const bucket = buckets.find(b => {
+          const last = b[b.length - 1];
+          return t.dep.every((d, i) => d >= last.dep[i] && t.arr[i] >= last.arr[i]);
+        });
+        if (bucket) bucket.push(t);
+        else buckets.push([t]);
+      }
+
+      for (const bucket of buckets) {
+        const width = group.stops.length;
+        const arrivals = new Int32Array(bucket.length * width);
+        const departures = new Int32Array(bucket.length * width);
+        bucket.forEach((t, i) => {
+          arrivals.set(t.arr, i * width);
+          departures.set(t.dep, i * width);
+        });
+        patterns.push({
+          routeId: group.routeId,
+          stops: group.stops,
+          tripIds: bucket.map(t => t.trip.trip_id),
+          serviceIds: bucket.map(t => t.trip.service_id),
+          arrivals,
+          departures
+        });
+      }
+    });
+
+    return patterns;
+  }
+}
@@ -0,0 +1,65 @@
+import { GeoLocation } from '../interfaces/types';
+import { StreetNetworkService } from './street-network.service';
+import { calculateDistance } from '../utils/fare-calculator';
+
+export interface RoadTrip {
+  distanceKm: number;
+  durationMins: number;
+  path: GeoLocation[]; // Roads driven, or just the two points for straight-line estimates
+  source: 'road_network' | 'straight_line';
+}
+
+/**
+ * Driving distance and duration between two points for the fallback fare estimates, on the
+ * car profile of the local OSM road graph (OSM_PATH). Without a graph, or for points off
+ * it, the straight-line distance is stretched by DETOUR_FACTOR and driven at
+ * AVERAGE_SPEED_KMH.
+ */
+export class RoadRoutingService {
+  private static instance: RoadRoutingService;
+
+  // Crow-fly distance underestimates Delhi trips by 30 to 50 percent
+  public static readonly DETOUR_FACTOR = 1.4;
+  public static readonly AVERAGE_SPEED_KMH = 22;
+  private static readonly CACHE_SIZE = 500;
+
+  // Every adapter prices the same trip, so keep recent answers
+  private cache: Map<string, RoadTrip> = new Map();
+
+  constructor(private network: StreetNetworkService | null = StreetNetworkService.fromEnv('car')) {}
+
+  public static getInstance(): RoadRoutingService {
+    if (!RoadRoutingService.instance) {
+      RoadRoutingService.instance = new RoadRoutingService();
+    }
+    return RoadRoutingService.instance;
+  }
+
+  public estimate(pickup: GeoLocation, drop: GeoLocation): RoadTrip {
+    const key = `${pickup.lat.toFixed(4)},${pickup.lng.toFixed(4)}-${drop.lat.toFixed(4)},${drop.lng.toFixed(4)}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const trip = this.route(pickup, drop);
+    if (this.cache.size >= RoadRoutingService.CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, trip);
+    return trip;
+  }
+
+  private route(pickup: GeoLocation, drop: GeoLocation): RoadTrip {
+    const road = this.network?.route(pickup, drop);
+    if (road) {
+      return { distanceKm: road.meters / 1000, durationMins: road.seconds / 60, path: road.path, source: 'road_network' };
+    }
+
+    const distanceKm = calculateDistance(pickup.lat, pickup.lng, drop.lat, drop.lng) * RoadRoutingService.DETOUR_FACTOR;
+    return {
+      distanceKm,
+      durationMins: distanceKm / RoadRoutingService.AVERAGE_SPEED_KMH * 60,
+      path: [pickup, drop],
+      source: 'straight_line'
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { Page } from 'playwright';
+import { FareEstimate } from '../interfaces/types';
+import { PlatformSessionHealth } from '../interfaces/session';
+import { BrowserService, PageLease } from './browser.service';
+import { SESSION_COOKIES, SessionVault } from './session-vault.service';
+import { AccountRotationService } from './account-rotation.service';
+
+// Platforms that scrape live fares only when logged in
+export const LOGIN_PLATFORMS = ['ola', 'uber'];
+
+export interface SessionProbe {
+  finalUrl: string;
+  loginRedirect: boolean;
+  sessionCookie: boolean; // Whether a login cookie is still set after the redirects
+}
+
+// Opens a page of the platform that needs a login and sees whether it stays logged in
+export async function probeSession(page: Page, platform: string): Promise<SessionProbe> {
+  let url = '';
+  if (platform === 'uber') {
+    // Deep link example
+    const pickup = encodeURIComponent(JSON.stringify({latitude: 28.7041, longitude: 77.1025})); // Delhi
+    const drop = encodeURIComponent(JSON.stringify({latitude: 28.5355, longitude: 77.3910})); // Noida
+    url = `https://m.uber.com/looking?pickup=${pickup}&drop=${drop}`;
+  } else {
+    url = 'https://book.olacabs.com/';
+  }
+
+  await page.goto(url, { waitUntil: 'domcontentloaded' });
+  await page.waitForTimeout(5000); // Wait for redirects
+
+  const finalUrl = page.url();
+  const cookies = await page.context().cookies();
+  return {
+    finalUrl,
+    loginRedirect: finalUrl.includes('login') || finalUrl.includes('auth'),
+    sessionCookie: cookies.some(c => SESSION_COOKIES.includes(c.name))
+  };
+}
+
+/**
+ * Keeps track of whether the saved platform logins still work, so an expired session shows
+ * up before every fare of the platform quietly turns into an estimate.
+ *
+ * Every SESSION_CHECK_INTERVAL_MINUTES (default 30) it opens a page of each platform in the
+ * browser pool, logged in with its newest unexpired vault session, and probes it. A logged
+ * out session is quarantined from account rotation. In between, FareService reports each
+ * fetch, recording when the platform last returned live fares and when it last fell back to
+ * estimates.
+ */
+export class SessionHealthService {
+  private static instance: SessionHealthService;
+
+  public static readonly DEFAULT_INTERVAL_MINUTES = 30;
+
+  private health: Map<string, PlatformSessionHealth>;
+  private timer: NodeJS.Timeout | null = null;
+  private checking: Promise<void> | null = null;
+
+  constructor(
+    private vault: SessionVault = SessionVault.getInstance(),
+    public readonly intervalMinutes: number = Number(process.env.SESSION_CHECK_INTERVAL_MINUTES) || SessionHealthService.DEFAULT_INTERVAL_MINUTES
+  ) {
+    this.health = new Map(LOGIN_PLATFORMS.map(platform => [platform, {
+      platform,
+      auth: 'unchecked',
+      needsAuth: false,
+      account: null,
+      sessionExpiresAt: null,
+      lastCheckedAt: null,
+      lastCheckError: null,
+      lastLiveScrapeAt: null,
+      lastFallbackAt: null
+    }]));
+  }
+
+  public static getInstance(): SessionHealthService {
+    if (!SessionHealthService.instance) {
+      SessionHealthService.instance = new SessionHealthService();
+    }
+    return SessionHealthService.instance;
+  }
+
+  // Checks straight away, then every intervalMinutes
+  public start(): void {
+    if (this.timer) return;
+    const run = () => this.checkAll().catch(err => console.error('[SessionHealth] Check failed:', err));
+    this.timer = setInterval(run, this.intervalMinutes * 60000);
+    run();
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  public getStatus(): PlatformSessionHealth[] {
+    const now = new Date();
+    return [...this.health.values()].map(entry => {
+      // A session that ran out since its last check needs no probe to know it's gone
+      const auth = entry.auth === 'valid' && entry.sessionExpiresAt && new Date(entry.sessionExpiresAt) <= now ? 'expired' : entry.auth;
+      return { ...entry, auth, needsAuth: auth === 'logged_out' || auth === 'missing' || auth === 'expired' };
+    });
+  }
+
+  // Checks the platforms one after another. A call while a check runs waits for that one.
+  public checkAll(platforms: string[] = LOGIN_PLATFORMS): Promise<void> {
+    if (!this.checking) {
+      this.checking = (async () => {
+        for (const platform of platforms.filter(p => this.health.has(p))) {
+          await this.check(platform);
+        }
+      })().finally(() => { this.checking = null; });
+    }
+    return this.checking;
+  }
+
+  // Called with the result of every live fetch of a platform
+  public recordScrape(platform: string, estimates: FareEstimate[]): void {
+    const entry = this.health.get(platform);
+    if (!entry || estimates.length === 0) return;
+    const now = new Date().toISOString();
+    if (estimates.some(estimate => estimate.source === 'live')) {
+      entry.lastLiveScrapeAt = now;
+    } else if (estimates.every(estimate => estimate.source === 'estimate')) {
+      entry.lastFallbackAt = now;
+    }
+  }
+
+  private async check(platform: string): Promise<void> {
+    const entry = this.health.get(platform)!;
+    entry.lastCheckedAt = new Date().toISOString();
+    entry.lastCheckError = null;
+
+    const saved = this.vault.list(platform);
+    const current = saved.find(session => !session.expired);
+    entry.account = (current || saved[0])?.account ?? null;
+    entry.sessionExpiresAt = (current || saved[0])?.expiresAt ?? null;
+    if (!current) {
+      entry.auth = saved.length > 0 ? 'expired' : 'missing';
+      return;
+    }
+
+    let lease: PageLease | null = null;
+    let loggedOut = false;
+    try {
+      const session = this.vault.load(platform, current.account)!;
+      // Probes in the pool, so an idle context an adapter already logged in is checked as is
+      lease = await BrowserService.getInstance().acquire(platform, {
+        account: current.account,
+        prepare: context => SessionVault.applyTo(context, session.state)
+      });
+      const probe = await probeSession(lease.page, platform);
+      loggedOut = probe.loginRedirect || !probe.sessionCookie;
+      entry.auth = loggedOut ? 'logged_out' : 'valid';
+      if (loggedOut) {
+        entry.lastCheckError = probe.loginRedirect ? `Redirected to ${probe.finalUrl}` : 'No session cookie after loading the page';
+        console.warn(`[SessionHealth] ${platform} session "${current.account}" is logged out. Run: npm run auth -- ${platform} ${current.account}`);
+        AccountRotationService.getInstance().report(platform, current.account, 'login_redirect');
+      }
+    } catch (err) {
+      entry.auth = 'error';
+      entry.lastCheckError = (err instanceof Error ? err.message : String(err)).split('\n')[0]; // Playwright adds a banner after the first line
+    } finally {
+      // A logged out context is replaced, so the next scrape loads the session afresh
+      await lease?.release(loggedOut || entry.auth === 'error');
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { BrowserContext } from 'playwright';
+import { ExportedCookie, SessionInfo, SessionVaultFile, StorageState, StoredSession } from '../interfaces/session';
+
+export const DEFAULT_SESSION_VAULT_DIR = path.join(process.cwd(), 'sessions');
+export const DEFAULT_ACCOUNT = 'default';
+
+// Cookies that carry the login on any of the platforms
+export const SESSION_COOKIES = ['sid', 'jwt-session', 'token'];
+
+const VAULT_VERSION = 1;
+
+export class SessionVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionVaultError';
+  }
+}
+
+/**
+ * Encrypted store of platform logins, one Playwright storage state (cookies and
+ * localStorage) per platform account, saved by `npm run auth`.
+ *
+ * Each session is a file SESSION_VAULT_DIR/<platform>/<account>.json (default sessions/),
+ * encrypted with AES-256-GCM under a key derived from SESSION_VAULT_KEY with scrypt. The
+ * platform, account and expiry stay readable, so sessions can be listed without the key,
+ * but are authenticated along with the encrypted state.
+ *
+ * A session expires with the earliest of its login cookies. Logins kept only in
+ * browser-session cookies are given SESSION_MAX_AGE_DAYS.
+ */
+export class SessionVault {
+  private static instance: SessionVault;
+
+  public static readonly SESSION_MAX_AGE_DAYS = 14;
+
+  constructor(private dir: string, private secret: string | undefined) {}
+
+  public static getInstance(): SessionVault {
+    if (!SessionVault.instance) {
+      SessionVault.instance = new SessionVault(process.env.SESSION_VAULT_DIR || DEFAULT_SESSION_VAULT_DIR, process.env.SESSION_VAULT_KEY);
+    }
+    return SessionVault.instance;
+  }
+
+  public hasKey(): boolean {
+    return !!this.secret;
+  }
+
+  // Saved sessions, most recently saved first
+  public list(platform?: string): SessionInfo[] {
+    const platforms = platform ? [platform] : this.platformDirs();
+    return platforms.flatMap(p => {
+      const dir = path.join(this.dir, p);
+      if (!fs.existsSync(dir)) return [];
+      return fs.readdirSync(dir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.readFile(path.join(dir, file)))
+        .filter((file): file is SessionVaultFile => file !== null)
+        .map(file => this.info(file));
+    }).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  public save(platform: string, account: string, state: StorageState): SessionInfo {
+    const key = this.requireKey();
+    validateName(platform, 'platform');
+    validateName(account, 'account');
+
+    const savedAt = new Date();
+    const meta = {
+      version: VAULT_VERSION,
+      platform,
+      account,
+      savedAt: savedAt.toISOString(),
+      expiresAt: sessionExpiry(state, savedAt).toISOString()
+    };
+
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(key, salt), iv);
+    cipher.setAAD(Buffer.from(JSON.stringify(meta)));
+    const data = Buffer.concat([cipher.update(JSON.stringify(state), 'utf-8'), cipher.final()]);
+
+    const file: SessionVaultFile = {
+      ...meta,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    const filePath = this.pathFor(platform, account);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    return this.info(file);
+  }
+
+  // Decrypts a session. Returns null when there is none, throws when it can't be read.
+  public load(platform: string, account: string = DEFAULT_ACCOUNT): StoredSession | null {
+    validateName(platform, 'platform');
+    validateName(account, 'account');
+    const file = this.readFile(this.pathFor(platform, account));
+    if (!file) return null;
+
+    const key = this.requireKey();
+    const { salt, iv, tag, data, ...meta } = file;
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(key, Buffer.from(salt, 'base64')), Buffer.from(iv, 'base64'));
+      decipher.setAAD(Buffer.from(JSON.stringify(meta)));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      const plain = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+      return { ...this.info(file), state: JSON.parse(plain.toString('utf-8')) };
+    } catch {
+      throw new SessionVaultError(`Cannot decrypt the ${platform} session "${account}". SESSION_VAULT_KEY is wrong or the file was modified.`);
+    }
+  }
+
+  public remove(platform: string, account: string): boolean {
+    validateName(platform, 'platform');
+    validateName(account, 'account');
+    const filePath = this.pathFor(platform, account);
+    if (!fs.existsSync(filePath)) return false;
+    fs.unlinkSync(filePath);
+    return true;
+  }
+
+  // Loads a session into a browser context: cookies straight away, localStorage as each
+  // of its origins is opened
+  public static async applyTo(context: BrowserContext, state: StorageState): Promise<void> {
+    if (state.cookies.length > 0) {
+      await context.addCookies(state.cookies);
+    }
+    if (state.origins.length > 0) {
+      await context.addInitScript(origins => {
+        const entry = origins.find(o => o.origin === window.location.origin);
+        entry?.localStorage.forEach(({ name, value }) => window.localStorage.setItem(name, value));
+      }, state.origins);
+    }
+  }
+
+  private info(file: SessionVaultFile): SessionInfo {
+    return {
+      platform: file.platform,
+      account: file.account,
+      savedAt: file.savedAt,
+      expiresAt: file.expiresAt,
+      expired: new Date(file.expiresAt) <= new Date()
+    };
+  }
+
+  private readFile(filePath: string): SessionVaultFile | null {
+    if (!fs.existsSync(filePath)) return null;
+    try {
+      const file: SessionVaultFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (file.version !== VAULT_VERSION) {
+        console.warn(`[SessionVault] Skipping ${filePath}: unsupported version ${file.version}`);
+        return null;
+      }
+      return file;
+    } catch {
+      console.warn(`[SessionVault] Skipping unreadable ${filePath}`);
+      return null;
+    }
+  }
+
+  private platformDirs(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir, { withFileTypes: true }).filter(entry => entry.isDirectory()).map(entry => entry.name);
+  }
+
+  private pathFor(platform: string, account: string): string {
+    return path.join(this.dir, platform, `${account}.json`);
+  }
+
+  private requireKey(): string {
+    if (!this.secret) {
+      throw new SessionVaultError('SESSION_VAULT_KEY is not set. Set it to a long random passphrase to use saved sessions.');
+    }
+    return this.secret;
+  }
+}
+
+// Checks a parsed cookie export and converts it for Playwright, which rejects the sameSite
+// names of browser extensions
+export function sanitizeCookies(data: unknown): StorageState['cookies'] {
+  if (!Array.isArray(data)) {
+    throw new SessionVaultError('Expected a JSON array of cookies');
+  }
+  const invalid = data.findIndex(c => !isExportedCookie(c));
+  if (invalid >= 0) {
+    throw new SessionVaultError(`Cookie ${invalid + 1} needs a name, value and domain`);
+  }
+
+  return (data as ExportedCookie[]).map(c => {
+    const sameSite = ({ unspecified: 'None', no_restriction: 'None', none: 'None', lax: 'Lax', strict: 'Strict' } as Record<string, string>)[c.sameSite ?? ''] || c.sameSite;
+    return {
+      name: c.name,
+      value: c.value,
+      domain: c.domain,
+      path: c.path || '/',
+      expires: c.expires ?? c.expirationDate ?? -1,
+      httpOnly: !!c.httpOnly,
+      secure: !!c.secure,
+      sameSite: sameSite === 'Strict' || sameSite === 'Lax' ? sameSite : 'None'
+    };
+  });
+}
+
+function isExportedCookie(value: unknown): value is ExportedCookie {
+  const cookie = value as ExportedCookie;
+  return typeof value === 'object' && value !== null
+    && typeof cookie.name === 'string' && typeof cookie.value === 'string' && typeof cookie.domain === 'string';
+}
+
+function sessionExpiry(state: StorageState, savedAt: Date): Date {
+  const expiries = state.cookies
+    .filter(cookie => SESSION_COOKIES.includes(cookie.name) && cookie.expires > 0)
+    .map(cookie => cookie.expires * 1000);
+  return expiries.length > 0
+    ? new Date(Math.min(...expiries))
+    : new Date(savedAt.getTime() + SessionVault.SESSION_MAX_AGE_DAYS * 86400000);
+}
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(secret, salt, 32);
+}
+
+// Platform and account names become file names
+export function isValidSessionName(name: string): boolean {
+  return /^[\w-]{1,64}$/.test(name);
+}
+
+function validateName(name: string, what: string) {
+  if (!isValidSessionName(name)) {
+    throw new SessionVaultError(`Invalid ${what} "${name}": use letters, digits, "_" and "-"`);
+  }
+}
@@ -0,0 +1,446 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import v8 from 'v8';
+import { LatLng } from '../utils/geometry';
+import { SpatialIndex } from '../utils/spatial-index';
+import { calculateDistance } from '../utils/fare-calculator';
+import { readOsmExtract, OsmTags } from '../utils/osm';
+
+// Bump whenever StreetGraph changes shape so stale caches are rebuilt
+export const STREET_GRAPH_VERSION = 2;
+
+export type StreetProfile = 'foot' | 'car';
+
+export interface StreetRoute {
+  meters: number; // Along the network, plus the straight hops onto and off it
+  seconds: number; // Travel time at the profile's speeds
+  path: LatLng[]; // From the query point to the target point
+}
+
+interface Snap {
+  node: number;
+  meters: number; // Straight hop between the query point and the node
+}
+
+interface SearchResult {
+  dist: Map<number, number>; // Settled cost, in meters or seconds depending on the profile
+  prev: Map<number, number>;
+  prevArc: Map<number, number>;
+}
+
+// Compressed sparse row graph. Arcs of node i are [offsets[i], offsets[i + 1]).
+interface StreetGraph {
+  version: number;
+  profile: StreetProfile;
+  source: { path: string; size: number; mtimeMs: number };
+  lats: Float64Array;
+  lngs: Float64Array;
+  offsets: Int32Array;
+  targets: Int32Array;
+  lengths: Float32Array; // Meters
+  seconds: Float32Array;
+}
+
+// Highways people can walk along. Motorways only with an explicit foot tag.
+const FOOT_HIGHWAYS = new Set([
+  'footway', 'pedestrian', 'path', 'steps', 'living_street', 'residential', 'service', 'unclassified', 'road', 'track',
+  'tertiary', 'tertiary_link', 'secondary', 'secondary_link', 'primary', 'primary_link', 'trunk', 'trunk_link',
+  'cycleway', 'corridor', 'platform'
+]);
+const FOOT_ALLOWED = new Set(['yes', 'designated', 'permissive']);
+const NO_ACCESS = new Set(['no', 'private']);
+
+// Typical Indian city traffic speeds (km/h) rather than speed limits, so durations are
+// realistic enough to price per minute
+const CAR_SPEEDS: Record<string, number> = {
+  motorway: 70, motorway_link: 40, trunk: 45, trunk_link: 30, primary: 32, primary_link: 25,
+  secondary: 27, secondary_link: 22, tertiary: 24, tertiary_link: 20, unclassified: 20,
+  residential: 16, living_street: 8, service: 10, road: 18
+};
+const ONEWAY_FORWARD = new Set(['yes', '1', 'true']);
+
+type Direction = 'both' | 'forward' | 'backward';
+
+interface ProfileRules {
+  keepWay: (tags: OsmTags) => boolean;
+  direction: (tags: OsmTags) => Direction;
+  speedKmh: (tags: OsmTags) => number;
+  accessKmh: number; // Speed of the straight hops between a query point and the network
+  byTime: boolean; // Shortest by travel time rather than by distance
+}
+
+const WALK_KMH = 4.8; // 80 m/min
+
+const PROFILES: Record<StreetProfile, ProfileRules> = {
+  foot: {
+    keepWay: tags => {
+      if (!tags.highway) return false;
+      if (NO_ACCESS.has(tags.foot)) return false;
+      if (FOOT_ALLOWED.has(tags.foot)) return true;
+      return FOOT_HIGHWAYS.has(tags.highway) && !NO_ACCESS.has(tags.access);
+    },
+    // Pedestrians can walk either way along any street
+    direction: () => 'both',
+    speedKmh: () => WALK_KMH,
+    accessKmh: WALK_KMH,
+    byTime: false
+  },
+  car: {
+    keepWay: tags => {
+      if (!(tags.highway in CAR_SPEEDS)) return false;
+      if (NO_ACCESS.has(tags.motor_vehicle) || NO_ACCESS.has(tags.motorcar)) return false;
+      return !NO_ACCESS.has(tags.access) && tags.area !== 'yes';
+    },
+    direction: tags => {
+      if (tags.oneway === '-1' || tags.oneway === 'reverse') return 'backward';
+      if (ONEWAY_FORWARD.has(tags.oneway)) return 'forward';
+      if (tags.oneway === 'no') return 'both';
+      // Implied oneway
+      return tags.junction === 'roundabout' || tags.highway === 'motorway' ? 'forward' : 'both';
+    },
+    speedKmh: tags => {
+      const limit = parseMaxSpeed(tags.maxspeed);
+      const typical = CAR_SPEEDS[tags.highway];
+      return limit ? Math.min(limit, typical) : typical;
+    },
+    accessKmh: 15,
+    byTime: true
+  }
+};
+
+// "50", "30 mph" or "IN:urban"-style zone names (ignored)
+function parseMaxSpeed(value: string | undefined): number | null {
+  const match = value?.match(/^(\d+(?:\.\d+)?)\s*(mph)?$/);
+  if (!match) return null;
+  const speed = parseFloat(match[1]) * (match[2] ? 1.609 : 1);
+  return speed > 0 ? speed : null;
+}
+
+/**
+ * Shortest paths over a street graph built from a local OpenStreetMap extract, so walking
+ * legs and road trips follow real streets without calling any routing service. The foot
+ * profile finds the shortest walk, the car profile the quickest drive, respecting oneways.
+ * Query points are snapped to the nearest graph node within SNAP_RADIUS_METERS, otherwise
+ * the lookup fails and callers fall back to straight lines.
+ */
+export class StreetNetworkService {
+  public static readonly SNAP_RADIUS_METERS = 250;
+
+  private nodeIndex: SpatialIndex<number>;
+  private fastest?: number; // m/s, for the A* heuristic
+
+  constructor(private graph: StreetGraph) {
+    const nodes = Array.from({ length: graph.lats.length }, (_, i) => i);
+    this.nodeIndex = new SpatialIndex<number>(nodes, i => ({ lat: graph.lats[i], lng: graph.lngs[i] }));
+  }
+
+  public get nodeCount(): number {
+    return this.graph.lats.length;
+  }
+
+  public get arcCount(): number {
+    return this.graph.targets.length;
+  }
+
+  /**
+   * Network from OSM_PATH, or null when it is unset or fails to load (callers then fall
+   * back to straight lines).
+   */
+  public static fromEnv(profile: StreetProfile): StreetNetworkService | null {
+    const osmPath = process.env.OSM_PATH;
+    if (!osmPath) return null;
+    try {
+      return StreetNetworkService.load(path.resolve(osmPath), profile);
+    } catch (error) {
+      console.error(`[StreetNetwork] Failed to load ${osmPath}, falling back to straight lines:`, error);
+      return null;
+    }
+  }
+
+  // Load the compiled graph for an extract, rebuilding it when the extract changed
+  public static load(osmPath: string, profile: StreetProfile): StreetNetworkService {
+    const stat = fs.statSync(osmPath);
+    const digest = crypto.createHash('sha256').update(path.resolve(osmPath)).digest('hex').slice(0, 16);
+    const cachePath = path.join(process.cwd(), 'cache', `streets-${profile}-${digest}.bin`);
+
+    const cached = readGraphCache(cachePath);
+    if (cached && cached.profile === profile && cached.source.size === stat.size && cached.source.mtimeMs === stat.mtimeMs) {
+      console.log(`[StreetNetwork] Using ${profile} graph from ${cachePath}`);
+      return new StreetNetworkService(cached);
+    }
+
+    const start = Date.now();
+    console.log(`[StreetNetwork] Building ${profile} graph from ${osmPath}...`);
+    const graph = buildGraph(osmPath, profile, { path: osmPath, size: stat.size, mtimeMs: stat.mtimeMs });
+    console.log(`[StreetNetwork] Built ${graph.lats.length} nodes and ${graph.targets.length} arcs in ${Date.now() - start}ms.`);
+
+    try {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      const tmpPath = `${cachePath}.tmp`;
+      fs.writeFileSync(tmpPath, v8.serialize(graph));
+      fs.renameSync(tmpPath, cachePath);
+    } catch (error) {
+      console.warn('[StreetNetwork] Failed to write graph cache:', error);
+    }
+    return new StreetNetworkService(graph);
+  }
+
+  // Best path between two points (A*), or null when either is off the network, the
+  // target can't be reached or the path would be longer than maxMeters
+  public route(from: LatLng, to: LatLng, maxMeters: number = Infinity): StreetRoute | null {
+    const start = this.snap(from);
+    const goal = this.snap(to);
+    if (!start || !goal) return null;
+
+    const rules = PROFILES[this.graph.profile];
+    // Straight line at the fastest speed in the graph never overestimates the remaining time
+    const heuristic = rules.byTime
+      ? (node: number) => this.metersBetween(node, goal.node) / this.maxMetersPerSecond
+      : (node: number) => this.metersBetween(node, goal.node);
+    const search = this.search(start.node, this.budget(maxMeters, start, goal), heuristic, new Set([goal.node]));
+    return this.toRoute(search, start, goal, from, to, maxMeters);
+  }
+
+  // Best paths from one point to many (Dijkstra), null for targets beyond maxMeters
+  public routesFrom(origin: LatLng, targets: LatLng[], maxMeters: number): (StreetRoute | null)[] {
+    const start = this.snap(origin);
+    if (!start) return targets.map(() => null);
+
+    const snapped = targets.map(target => this.snap(target));
+    const goals = new Set(snapped.filter(s => s !== null).map(s => s!.node));
+    const search = this.search(start.node, this.budget(maxMeters, start, null), () => 0, goals);
+
+    return snapped.map((goal, i) => goal ? this.toRoute(search, start, goal, origin, targets[i], maxMeters) : null);
+  }
+
+  // Whether a point is close enough to the network to be routed from
+  public covers(point: LatLng): boolean {
+    return this.snap(point) !== null;
+  }
+
+  private snap(point: LatLng): Snap | null {
+    const [match] = this.nodeIndex.nearest(point, 1, StreetNetworkService.SNAP_RADIUS_METERS / 1000);
+    return match ? { node: match.item, meters: match.distance * 1000 } : null;
+  }
+
+  // Search budget in the profile's cost. Only distance-based searches can be cut short by
+  // maxMeters; time-based ones are checked once the path is known.
+  private budget(maxMeters: number, start: Snap, goal: Snap | null): number {
+    if (PROFILES[this.graph.profile].byTime) return Infinity;
+    return maxMeters - start.meters - (goal?.meters ?? 0);
+  }
+
+  private toRoute(search: SearchResult, start: Snap, goal: Snap, from: LatLng, to: LatLng, maxMeters: number): StreetRoute | null {
+    if (!search.dist.has(goal.node)) return null;
+
+    const { lengths, seconds } = this.graph;
+    const accessMetersPerSecond = PROFILES[this.graph.profile].accessKmh / 3.6;
+    let meters = start.meters + goal.meters;
+    let duration = meters / accessMetersPerSecond;
+    for (let node = goal.node; node !== start.node; node = search.prev.get(node)!) {
+      const arc = search.prevArc.get(node)!;
+      meters += lengths[arc];
+      duration += seconds[arc];
+    }
+    if (meters > maxMeters) return null;
+
+    return { meters, seconds: duration, path: [from, ...this.pathTo(search.prev, goal.node), to] };
+  }
+
+  // Settles nodes in order of cost until every goal is settled or the budget runs out.
+  // Maps instead of per-node arrays, since searches only touch a small part of a city graph.
+  private search(source: number, budget: number, heuristic: (node: number) => number, goals: Set<number>): SearchResult {
+    const { offsets, targets } = this.graph;
+    const weights = PROFILES[this.graph.profile].byTime ? this.graph.seconds : this.graph.lengths;
+    const dist = new Map<number, number>([[source, 0]]);
+    const prev = new Map<number, number>();
+    const prevArc = new Map<number, number>();
+    const settled = new Set<number>();
+    const heap = new MinHeap();
+    heap.push(source, heuristic(source));
+    let remaining = goals.size;
+
+    while (heap.size > 0 && remaining > 0) {
+      const node = heap.pop();
+      if (settled.has(node)) continue;
+      settled.add(node);
+      if (goals.has(node)) remaining--;
+
+      const base = dist.get(node)!;
+      for (let arc = offsets[node]; arc < offsets[node + 1]; arc++) {
+        const next = targets[arc];
+        const cost = base + weights[arc];
+        if (cost > budget) continue;
+        const known = dist.get(next);
+        if (known === undefined || cost < known) {
+          dist.set(next, cost);
+          prev.set(next, node);
+          prevArc.set(next, arc);
+          heap.push(next, cost + heuristic(next));
+        }
+      }
+    }
+
+    // Tentative distances of unsettled goals are not final
+    goals.forEach(goal => {
+      if (!settled.has(goal)) dist.delete(goal);
+    });
+    return { dist, prev, prevArc };
+  }
+
+  private pathTo(prev: Map<number, number>, node: number): LatLng[] {
+    const path: LatLng[] = [];
+    for (let current: number | undefined = node; current !== undefined; current = prev.get(current)) {
+      path.push({ lat: this.graph.lats[current], lng: this.graph.lngs[current] });
+    }
+    return path.reverse();
+  }
+
+  private get maxMetersPerSecond(): number {
+    if (this.fastest === undefined) {
+      let fastest = PROFILES[this.graph.profile].accessKmh / 3.6;
+      const { lengths, seconds } = this.graph;
+      for (let arc = 0; arc < lengths.length; arc++) {
+        if (seconds[arc] > 0) fastest = Math.max(fastest, lengths[arc] / seconds[arc]);
+      }
+      this.fastest = fastest;
+    }
+    return this.fastest;
+  }
+
+  private metersBetween(a: number, b: number): number {
+    const { lats, lngs } = this.graph;
+    return calculateDistance(lats[a], lngs[a], lats[b], lngs[b]) * 1000;
+  }
+}
+
+function buildGraph(osmPath: string, profile: StreetProfile, source: StreetGraph['source']): StreetGraph {
+  const rules = PROFILES[profile];
+  const extract = readOsmExtract(osmPath, rules.keepWay);
+
+  // Compact OSM node IDs into 0..n-1, in order of first use
+  const indexById = new Map<number, number>();
+  const lats: number[] = [];
+  const lngs: number[] = [];
+  const from: number[] = [];
+  const to: number[] = [];
+  const lengths: number[] = [];
+  const seconds: number[] = [];
+  const indexOf = (id: number) => {
+    let index = indexById.get(id);
+    if (index === undefined) {
+      const point = extract.nodes.get(id)!;
+      index = lats.length;
+      indexById.set(id, index);
+      lats.push(point.lat);
+      lngs.push(point.lng);
+    }
+    return index;
+  };
+
+  for (const way of extract.ways) {
+    const direction = rules.direction(way.tags);
+    const metersPerSecond = rules.speedKmh(way.tags) / 3.6;
+    for (let i = 1; i < way.nodeIds.length; i++) {
+      // Extracts clipped at a boundary reference nodes they don't contain
+      if (!extract.nodes.has(way.nodeIds[i - 1]) || !extract.nodes.has(way.nodeIds[i])) continue;
+      const a = indexOf(way.nodeIds[i - 1]);
+      const b = indexOf(way.nodeIds[i]);
+      if (a === b) continue;
+      const meters = calculateDistance(lats[a], lngs[a], lats[b], lngs[b]) * 1000;
+      const addArc = (tail: number, head: number) => {
+        from.push(tail);
+        to.push(head);
+        lengths.push(meters);
+        seconds.push(meters / metersPerSecond);
+      };
+      if (direction !== 'backward') addArc(a, b);
+      if (direction !== 'forward') addArc(b, a);
+    }
+  }
+
+  const offsets = new Int32Array(lats.length + 1);
+  from.forEach(a => offsets[a + 1]++);
+  for (let i = 0; i < lats.length; i++) offsets[i + 1] += offsets[i];
+  const fill = offsets.slice(0, lats.length);
+  const targets = new Int32Array(from.length);
+  const arcLengths = new Float32Array(from.length);
+  const arcSeconds = new Float32Array(from.length);
+  from.forEach((a, arc) => {
+    const slot = fill[a]++;
+    targets[slot] = to[arc];
+    arcLengths[slot] = lengths[arc];
+    arcSeconds[slot] = seconds[arc];
+  });
+
+  return {
+    version: STREET_GRAPH_VERSION,
+    profile,
+    source,
+    lats: Float64Array.from(lats),
+    lngs: Float64Array.from(lngs),
+    offsets,
+    targets,
+    lengths: arcLengths,
+    seconds: arcSeconds
+  };
+}
+
+function readGraphCache(cachePath: string): StreetGraph | null {
+  if (!fs.existsSync(cachePath)) return null;
+  try {
+    const graph = v8.deserialize(fs.readFileSync(cachePath)) as StreetGraph;
+    return graph.version === STREET_GRAPH_VERSION ? graph : null;
+  } catch (error) {
+    console.warn('[StreetNetwork] Ignoring unreadable graph cache:', error);
+    return null;
+  }
+}
+
+// Binary min-heap of node IDs keyed by priority
+class MinHeap {
+  private nodes: number[] = [];
+  private keys: number[] = [];
+
+  public get size(): number {
+    return this.nodes.length;
+  }
+
+  public push(node: number, key: number): void {
+    let i = this.nodes.length;
+    this.nodes.push(node);
+    this.keys.push(key);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= key) break;
+      this.nodes[i] = this.nodes[parent];
+      this.keys[i] = this.keys[parent];
+      i = parent;
+    }
+    this.nodes[i] = node;
+    this.keys[i] = key;
+  }
+
+  public pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastKey = this.keys.pop()!;
+    const size = this.nodes.length;
+    if (size > 0) {
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        if (left >= size) break;
+        const child = left + 1 < size && this.keys[left + 1] < this.keys[left] ? left + 1 : left;
+        if (this.keys[child] >= lastKey) break;
+        this.nodes[i] = this.nodes[child];
+        this.keys[i] = this.keys[child];
+        i = child;
+      }
+      this.nodes[i] = lastNode;
+      this.keys[i] = lastKey;
+    }
+    return top;
+  }
+}
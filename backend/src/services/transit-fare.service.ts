@@ -0,0 +1,288 @@
+import { Agency, Route, FareTables, FareAttribute, FareRule, FareLegRule, FareProduct } from '../interfaces/gtfs';
+import { TransitMode } from '../utils/route-types';
+import { calculateTransitFare, isAirConditioned, CONCESSIONS, DAY_PASSES } from '../utils/transit-fares';
+
+export type FareSource = 'gtfs' | 'gtfs_fares_v2' | 'estimate';
+
+// One ridden leg, as priced by TransitFareService
+export interface FareLegInput {
+  routeId: string; // Feed route_id, not namespaced
+  route?: Route;
+  agency?: Agency;
+  mode: TransitMode;
+  boardStopId: string;
+  alightStopId: string;
+  zones: string[]; // zone_id of every stop on the leg, boarding to alighting
+  departure: number; // Seconds since service-day midnight
+  distanceKm: number;
+}
+
+export interface LegFare {
+  route_id: string; // Namespaced as "<feed_id>:<route_id>"
+  agency_name?: string;
+  ac: boolean;
+  source: FareSource;
+  fare_id?: string; // fare_attributes.fare_id or fare_products.fare_product_id
+  full_fare: number; // Before concessions and tickets already bought
+  fare: number; // What this leg adds to the journey
+  concession?: string;
+  covered_by?: number; // Index of the earlier leg whose ticket allows this transfer
+}
+
+export interface DayPassOffer {
+  name: string;
+  agency_name?: string;
+  price: number;
+  legs: number[]; // Indices of the legs it covers
+  applied: boolean; // Cheaper than paying for those legs, so counted in the total
+}
+
+export interface FareBreakdown {
+  currency: string;
+  rider_category: string;
+  total: number;
+  legs: LegFare[];
+  passes: DayPassOffer[];
+}
+
+export const DEFAULT_RIDER_CATEGORY = 'adult';
+
+// A v1 ticket bought on an earlier leg that later legs may transfer on
+interface OpenTicket {
+  fare: FareAttribute;
+  legIndex: number;
+  transfersLeft: number;
+  validUntil: number; // Seconds since service-day midnight
+}
+
+/**
+ * Prices journeys for one feed. Legs are priced per agency from GTFS-Fares v2 leg rules when
+ * the feed has them, then from fare_attributes/fare_rules, and otherwise estimated from the
+ * built-in distance slabs in utils/transit-fares.
+ */
+export class TransitFareService {
+  private attributesByAgency: Map<string, FareAttribute[]> = new Map(); // AgencyID -> Fares ('' = any agency)
+  private rulesByFare: Map<string, FareRule[]> = new Map();
+  private productsById: Map<string, FareProduct[]> = new Map(); // One row per rider category / medium
+  private areasByStop: Map<string, Set<string>> = new Map();
+  private networksByRoute: Map<string, Set<string>> = new Map();
+  private defaultRiderCategories: Set<string>;
+
+  constructor(private feedId: string, private fares: FareTables, private agencyCount: number) {
+    fares.attributes.forEach(fa => {
+      const key = agencyCount > 1 ? fa.agency_id || '' : '';
+      if (!this.attributesByAgency.has(key)) this.attributesByAgency.set(key, []);
+      this.attributesByAgency.get(key)!.push(fa);
+    });
+    fares.rules.forEach(rule => {
+      if (!this.rulesByFare.has(rule.fare_id)) this.rulesByFare.set(rule.fare_id, []);
+      this.rulesByFare.get(rule.fare_id)!.push(rule);
+    });
+    fares.products.forEach(fp => {
+      if (!this.productsById.has(fp.fare_product_id)) this.productsById.set(fp.fare_product_id, []);
+      this.productsById.get(fp.fare_product_id)!.push(fp);
+    });
+    fares.stopAreas.forEach(({ area_id, stop_id }) => {
+      if (!this.areasByStop.has(stop_id)) this.areasByStop.set(stop_id, new Set());
+      this.areasByStop.get(stop_id)!.add(area_id);
+    });
+    fares.routeNetworks.forEach(({ network_id, route_id }) => {
+      if (!this.networksByRoute.has(route_id)) this.networksByRoute.set(route_id, new Set());
+      this.networksByRoute.get(route_id)!.add(network_id);
+    });
+    this.defaultRiderCategories = new Set(
+      fares.riderCategories.filter(rc => rc.is_default_fare_category).map(rc => rc.rider_category_id)
+    );
+  }
+
+  public price(legs: FareLegInput[], riderCategory: string = DEFAULT_RIDER_CATEGORY): FareBreakdown {
+    const openTickets: OpenTicket[] = [];
+    let currency: string | null = null;
+
+    const legFares = legs.map((leg, i): LegFare => {
+      const ac = leg.route ? isAirConditioned(leg.route) : false;
+      const base = {
+        route_id: `${this.feedId}:${leg.routeId}`,
+        agency_name: leg.agency?.agency_name,
+        ac
+      };
+
+      // Fares v2 prices rider categories itself, so built-in concessions only apply otherwise
+      const v2 = this.fares.legRules.length > 0 ? this.priceV2(leg, riderCategory) : null;
+      if (v2) {
+        currency = currency || v2.product.currency;
+        const concession = v2.categoryMatched ? undefined : this.applyConcession(leg, riderCategory, v2.product.amount);
+        return {
+          ...base, source: 'gtfs_fares_v2', fare_id: v2.product.fare_product_id,
+          full_fare: v2.standardAmount, fare: concession?.fare ?? v2.product.amount,
+          concession: concession?.name ?? (v2.categoryMatched ? v2.product.rider_category_id : undefined)
+        };
+      }
+
+      // An earlier ticket may still cover this leg as a transfer
+      const ticket = openTickets.find(t =>
+        t.transfersLeft > 0 && leg.departure <= t.validUntil && this.isAgencyFare(t.fare, leg) && this.fareApplies(t.fare, leg)
+      );
+      if (ticket) {
+        ticket.transfersLeft--;
+        return { ...base, source: 'gtfs', fare_id: ticket.fare.fare_id, full_fare: 0, fare: 0, covered_by: ticket.legIndex };
+      }
+
+      const v1 = this.cheapestV1Fare(leg);
+      if (v1) {
+        currency = currency || v1.currency_type;
+        openTickets.push({
+          fare: v1,
+          legIndex: i,
+          transfersLeft: v1.transfers ?? Infinity,
+          validUntil: v1.transfer_duration === null ? Infinity : leg.departure + v1.transfer_duration
+        });
+        const concession = this.applyConcession(leg, riderCategory, v1.price);
+        return {
+          ...base, source: 'gtfs', fare_id: v1.fare_id,
+          full_fare: v1.price, fare: concession?.fare ?? v1.price, concession: concession?.name
+        };
+      }
+
+      const estimate = calculateTransitFare(leg.mode, leg.distanceKm, ac);
+      const concession = this.applyConcession(leg, riderCategory, estimate);
+      return { ...base, source: 'estimate', full_fare: estimate, fare: concession?.fare ?? estimate, concession: concession?.name };
+    });
+
+    const passes = this.findDayPasses(legs, legFares);
+    const coveredByPass = new Set(passes.filter(p => p.applied).flatMap(p => p.legs));
+    const total = legFares.reduce((sum, leg, i) => sum + (coveredByPass.has(i) ? 0 : leg.fare), 0)
+      + passes.filter(p => p.applied).reduce((sum, p) => sum + p.price, 0);
+
+    return { currency: currency || 'INR', rider_category: riderCategory, total, legs: legFares, passes };
+  }
+
+  // Cheapest v1 fare of the leg's agency whose rules match it
+  private cheapestV1Fare(leg: FareLegInput): FareAttribute | null {
+    const key = this.agencyCount > 1 ? leg.route?.agency_id || '' : '';
+    const candidates = [...(this.attributesByAgency.get(key) || []), ...(key ? this.attributesByAgency.get('') || [] : [])];
+
+    let best: FareAttribute | null = null;
+    for (const fa of candidates) {
+      if (this.fareApplies(fa, leg) && (!best || fa.price < best.price)) best = fa;
+    }
+    return best;
+  }
+
+  // agency_id is optional on fares when the feed has a single agency
+  private isAgencyFare(fare: FareAttribute, leg: FareLegInput): boolean {
+    return this.agencyCount <= 1 || !fare.agency_id || fare.agency_id === leg.route?.agency_id;
+  }
+
+  // A fare without rules applies network-wide. Otherwise one rule has to match route, origin
+  // and destination zone, and the zones passed through must be exactly the fare's contains_id set.
+  private fareApplies(fare: FareAttribute, leg: FareLegInput): boolean {
+    const rules = this.rulesByFare.get(fare.fare_id);
+    if (!rules) return true;
+
+    const origin = leg.zones[0];
+    const destination = leg.zones[leg.zones.length - 1];
+    const matchesEnds = (rule: FareRule) =>
+      (!rule.route_id || rule.route_id === leg.routeId)
+      && (!rule.origin_id || rule.origin_id === origin)
+      && (!rule.destination_id || rule.destination_id === destination);
+
+    if (rules.some(rule => !rule.contains_id && matchesEnds(rule))) return true;
+
+    const contains = rules.filter(rule => rule.contains_id && matchesEnds(rule));
+    if (contains.length === 0) return false;
+    const allowed = new Set(contains.map(rule => rule.contains_id));
+    const passed = new Set(leg.zones.filter(Boolean));
+    return passed.size === allowed.size && [...passed].every(zone => allowed.has(zone));
+  }
+
+  // Highest rule_priority wins, then the rule naming the most of network, from and to area.
+  // Among its products, the rider's category is preferred, then the feed's default category.
+  private priceV2(leg: FareLegInput, riderCategory: string): { product: FareProduct; standardAmount: number; categoryMatched: boolean } | null {
+    const networks = new Set(this.networksByRoute.get(leg.routeId) || []);
+    if (leg.route?.network_id) networks.add(leg.route.network_id);
+    const fromAreas = this.areasByStop.get(leg.boardStopId);
+    const toAreas = this.areasByStop.get(leg.alightStopId);
+
+    const matching = this.fares.legRules.filter(rule =>
+      (!rule.network_id || networks.has(rule.network_id))
+      && (!rule.from_area_id || Boolean(fromAreas?.has(rule.from_area_id)))
+      && (!rule.to_area_id || Boolean(toAreas?.has(rule.to_area_id)))
+    );
+    if (matching.length === 0) return null;
+
+    const specificity = (rule: FareLegRule) => Number(Boolean(rule.network_id)) + Number(Boolean(rule.from_area_id)) + Number(Boolean(rule.to_area_id));
+    const topPriority = Math.max(...matching.map(rule => rule.rule_priority));
+    const byPriority = matching.filter(rule => rule.rule_priority === topPriority);
+    const topSpecificity = Math.max(...byPriority.map(specificity));
+    const products = byPriority
+      .filter(rule => specificity(rule) === topSpecificity)
+      .flatMap(rule => this.productsById.get(rule.fare_product_id) || []);
+
+    const wanted = riderCategory.toLowerCase();
+    const categoryNames = new Map(this.fares.riderCategories.map(rc => [rc.rider_category_id, rc.rider_category_name.toLowerCase()]));
+    const forRider = products.filter(fp => fp.rider_category_id
+      && (fp.rider_category_id.toLowerCase() === wanted || categoryNames.get(fp.rider_category_id) === wanted));
+    const fallback = products.filter(fp => !fp.rider_category_id || this.defaultRiderCategories.has(fp.rider_category_id));
+
+    const cheapest = (pool: FareProduct[]) => pool.reduce((a, b) => (b.amount < a.amount ? b : a));
+    const pool = forRider.length > 0 ? forRider : fallback;
+    if (pool.length === 0) return null;
+    const product = cheapest(pool);
+    return {
+      product,
+      standardAmount: fallback.length > 0 ? cheapest(fallback).amount : product.amount,
+      categoryMatched: forRider.length > 0
+    };
+  }
+
+  private applyConcession(leg: FareLegInput, riderCategory: string, fare: number): { name: string; fare: number } | undefined {
+    if (riderCategory === DEFAULT_RIDER_CATEGORY) return undefined;
+    const concession = CONCESSIONS.find(c =>
+      c.category === riderCategory && c.modes.includes(leg.mode) && this.agencyMatches(c.agencies, leg.agency)
+    );
+    return concession ? { name: concession.name, fare: Math.round(fare * (1 - concession.discount)) } : undefined;
+  }
+
+  // Built-in passes, plus v1 fares allowing unlimited transfers for a whole day
+  private findDayPasses(legs: FareLegInput[], legFares: LegFare[]): DayPassOffer[] {
+    const offers: DayPassOffer[] = [];
+    const makeOffer = (name: string, price: number, covered: number[]) => {
+      const paid = covered.reduce((sum, i) => sum + legFares[i].fare, 0);
+      if (paid === 0) return; // Nothing to save on legs that are already free
+      offers.push({ name, agency_name: legs[covered[0]].agency?.agency_name, price, legs: covered, applied: price < paid });
+    };
+
+    DAY_PASSES.forEach(pass => {
+      const covered = legs
+        .map((leg, i) => (pass.modes.includes(leg.mode) && this.agencyMatches(pass.agencies, leg.agency) ? i : -1))
+        .filter(i => i !== -1 && legFares[i].source !== 'gtfs_fares_v2');
+      makeOffer(pass.name, pass.price, covered);
+    });
+
+    this.fares.attributes
+      .filter(fa => fa.transfers === null && fa.transfer_duration !== null && fa.transfer_duration >= 24 * 3600)
+      .forEach(fa => {
+        const covered = legs
+          .map((leg, i) => (legFares[i].source === 'gtfs' && this.isAgencyFare(fa, leg) && this.fareApplies(fa, leg) ? i : -1))
+          .filter(i => i !== -1);
+        makeOffer(fa.fare_id, fa.price, covered);
+      });
+
+    // Two applied passes must not pay for the same leg twice. Keep the one saving most.
+    const saving = (offer: DayPassOffer) => offer.legs.reduce((sum, i) => sum + legFares[i].fare, 0) - offer.price;
+    const taken = new Set<number>();
+    offers.filter(o => o.applied).sort((a, b) => saving(b) - saving(a)).forEach(offer => {
+      if (offer.legs.some(i => taken.has(i))) {
+        offer.applied = false;
+      } else {
+        offer.legs.forEach(i => taken.add(i));
+      }
+    });
+    return offers;
+  }
+
+  private agencyMatches(pattern: RegExp, agency?: Agency): boolean {
+    return Boolean(agency && (pattern.test(agency.agency_id || '') || pattern.test(agency.agency_name)));
+  }
+}
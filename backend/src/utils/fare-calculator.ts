@@ -1,3 +1,5 @@
+import { VehicleRates } from '../interfaces/rate-card';
+
 export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371; // Radius of the earth in km
   const dLat = deg2rad(lat2 - lat1);
@@ -15,21 +17,58 @@ function deg2rad(deg: number): number {
   return deg * (Math.PI / 180);
 }
 
-export function calculateFare(distanceKm: number, type: 'bike' | 'auto' | 'mini' | 'sedan' | 'suv'): number {
-  // Base rates and per km charges (Approximate for Indian Metro Cities)
-  const rates = {
-    bike: { base: 20, perKm: 8, min: 20 },
-    auto: { base: 30, perKm: 15, min: 30 },
-    mini: { base: 50, perKm: 18, min: 50 }, // Like UberGo, Ola Mini
-    sedan: { base: 60, perKm: 22, min: 60 }, // Like UberPremier, Ola Prime
-    suv: { base: 80, perKm: 30, min: 80 }
+export interface FareCharges {
+  surgeMultiplier: number;
+  night: boolean;
+  tolls: number; // Sum of the toll plazas on the route
+  airport: boolean;
+}
+
+export interface FareBreakdown {
+  baseFare: number;
+  distanceFare: number;
+  timeFare: number;
+  surgeMultiplier: number;
+  surgeCharge: number;
+  nightCharge: number;
+  minimumFareApplied: boolean;
+  bookingFee: number;
+  tolls: number;
+  airportSurcharge: number;
+  total: number;
+}
+
+// Metered fare (base + distance + time), then surge and night charges on top of it, then
+// the minimum fare. Booking fee, tolls and airport surcharge are added after the minimum.
+export function calculateFare(rates: VehicleRates, distanceKm: number, durationMins: number, charges: FareCharges): FareBreakdown {
+  const distanceFare = distanceKm * rates.perKm;
+  const timeFare = durationMins * rates.perMin;
+  const metered = rates.baseFare + distanceFare + timeFare;
+
+  const surgeMultiplier = rates.surges === false ? 1 : charges.surgeMultiplier;
+  const surgeCharge = metered * (surgeMultiplier - 1);
+  const nightCharge = charges.night ? (metered + surgeCharge) * ((rates.nightMultiplier ?? 1) - 1) : 0;
+  const subtotal = metered + surgeCharge + nightCharge;
+
+  const bookingFee = rates.bookingFee ?? 0;
+  const tolls = rates.paysTolls ? charges.tolls : 0;
+  const airportSurcharge = charges.airport ? rates.airportSurcharge ?? 0 : 0;
+
+  return {
+    baseFare: rates.baseFare,
+    distanceFare: roundMoney(distanceFare),
+    timeFare: roundMoney(timeFare),
+    surgeMultiplier,
+    surgeCharge: roundMoney(surgeCharge),
+    nightCharge: roundMoney(nightCharge),
+    minimumFareApplied: subtotal < rates.minimumFare,
+    bookingFee,
+    tolls,
+    airportSurcharge,
+    total: Math.round(Math.max(subtotal, rates.minimumFare) + bookingFee + tolls + airportSurcharge)
   };
+}
 
-  const rate = rates[type];
-  let fare = rate.base + (distanceKm * rate.perKm);
-  
-  // Apply surge multiplier randomly between 1.0 and 1.2 for realism
-  const surge = 1.0 + (Math.random() * 0.2); 
-  
-  return Math.round(Math.max(fare * surge, rate.min));
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
 }
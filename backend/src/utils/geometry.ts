@@ -0,0 +1,95 @@
+import { calculateDistance } from './fare-calculator';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export function polylineLengthKm(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += calculateDistance(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng);
+  }
+  return total;
+}
+
+// Index of the polyline vertex closest to the target, searching from `from` onwards
+export function nearestPointIndex(points: LatLng[], target: LatLng, from: number = 0): number {
+  let bestIndex = -1;
+  let bestDistance = Infinity;
+  for (let i = from; i < points.length; i++) {
+    const d = calculateDistance(points[i].lat, points[i].lng, target.lat, target.lng);
+    if (d < bestDistance) {
+      bestDistance = d;
+      bestIndex = i;
+    }
+  }
+  return bestIndex;
+}
+
+// Shortest distance from a point to a polyline, in km. Segments are treated as straight
+// on an equirectangular projection, which is accurate at city scale.
+export function distanceToPolylineKm(points: LatLng[], target: LatLng): number {
+  if (points.length === 1) return calculateDistance(points[0].lat, points[0].lng, target.lat, target.lng);
+
+  const kmPerDegLat = 111.32;
+  const kmPerDegLng = 111.32 * Math.cos(target.lat * Math.PI / 180);
+  let best = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    const ax = (points[i - 1].lng - target.lng) * kmPerDegLng;
+    const ay = (points[i - 1].lat - target.lat) * kmPerDegLat;
+    const bx = (points[i].lng - target.lng) * kmPerDegLng;
+    const by = (points[i].lat - target.lat) * kmPerDegLat;
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+}
+
+// Ray casting on [lat, lng] vertices. Points exactly on an edge may land either side.
+export function pointInPolygon(point: LatLng, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if ((latI > point.lat) !== (latJ > point.lat)
+      && point.lng < (lngJ - lngI) * (point.lat - latI) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Geohash of the cell containing a point. Each character narrows the cell by 5 bits,
+// alternating longitude and latitude: precision 6 is about 1.2 km by 0.6 km.
+export function geohash(point: LatLng, precision: number): string {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let even = true;
+  while (hash.length < precision) {
+    const range = even ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+    value <<= 1;
+    if ((even ? point.lng : point.lat) >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    even = !even;
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+}
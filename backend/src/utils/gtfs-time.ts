@@ -0,0 +1,60 @@
+export const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type DayName = typeof DAY_NAMES[number];
+
+export interface ServiceTime {
+  serviceDate: string; // YYYYMMDD, as used in calendar.csv
+  dayName: DayName;
+  seconds: number; // Seconds since local midnight of the service date
+}
+
+// Resolve a wall-clock instant into the feed's local service date and time of day.
+// GTFS times are expressed relative to the agency timezone, not the server's.
+export function toServiceTime(date: Date, timeZone: string): ServiceTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'long'
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    serviceDate: `${get('year')}${get('month')}${get('day')}`,
+    dayName: get('weekday').toLowerCase() as DayName,
+    seconds: parseInt(get('hour')) * 3600 + parseInt(get('minute')) * 60 + parseInt(get('second'))
+  };
+}
+
+// HH:MM:SS, or HH:MM
+export function parseTimeSeconds(timeStr: string): number {
+  const [h, m, s = 0] = timeStr.split(':').map(Number);
+  return h * 3600 + m * 60 + s;
+}
+
+export function formatTime(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+// The same instant seen from the day before: trips of that service date with times past
+// 24:00:00 still run after midnight
+export function previousServiceDay(time: ServiceTime): ServiceTime {
+  const y = parseInt(time.serviceDate.slice(0, 4));
+  const m = parseInt(time.serviceDate.slice(4, 6));
+  const d = parseInt(time.serviceDate.slice(6, 8));
+  const prev = new Date(Date.UTC(y, m - 1, d - 1));
+  return {
+    serviceDate: prev.toISOString().slice(0, 10).replace(/-/g, ''),
+    dayName: DAY_NAMES[prev.getUTCDay()],
+    seconds: time.seconds + 86400
+  };
+}
@@ -0,0 +1,232 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { PbfReader } from './pbf';
+import { LatLng } from './geometry';
+
+export type OsmTags = Record<string, string>;
+
+export interface OsmWay {
+  id: number;
+  nodeIds: number[];
+  tags: OsmTags;
+}
+
+export interface OsmExtract {
+  nodes: Map<number, LatLng>; // Only nodes referenced by the kept ways
+  ways: OsmWay[];
+}
+
+interface PrimitiveBlock {
+  strings: string[];
+  groups: Buffer[];
+  granularity: number; // Nanodegrees per coordinate unit
+  latOffset: number;
+  lonOffset: number;
+}
+
+/**
+ * Read the ways accepted by keepWay, and the nodes they use, from a local OpenStreetMap
+ * extract (.osm.pbf, or .osm/.xml). Ways are read first and nodes in a second pass, so
+ * coordinates are only kept for nodes that end up in the graph.
+ */
+export function readOsmExtract(filePath: string, keepWay: (tags: OsmTags) => boolean): OsmExtract {
+  const name = filePath.toLowerCase();
+  if (name.endsWith('.pbf')) return readPbfExtract(fs.readFileSync(filePath), keepWay);
+  if (name.endsWith('.osm') || name.endsWith('.xml')) return readXmlExtract(fs.readFileSync(filePath, 'utf-8'), keepWay);
+  throw new Error(`OSM extract must be a .osm.pbf, .osm or .xml file: ${filePath}`);
+}
+
+function readPbfExtract(buffer: Buffer, keepWay: (tags: OsmTags) => boolean): OsmExtract {
+  const ways: OsmWay[] = [];
+  forEachBlock(buffer, true, block => readPbfWays(block, keepWay, ways));
+
+  const needed = new Set<number>();
+  ways.forEach(way => way.nodeIds.forEach(id => needed.add(id)));
+  const nodes = new Map<number, LatLng>();
+  forEachBlock(buffer, false, block => readPbfNodes(block, needed, nodes));
+
+  return { nodes, ways };
+}
+
+// File layout: repeated [4-byte length][BlobHeader][Blob]. Only OSMData blobs hold entities.
+function forEachBlock(buffer: Buffer, withStrings: boolean, visit: (block: PrimitiveBlock) => void) {
+  let offset = 0;
+  while (offset < buffer.length) {
+    const headerLength = buffer.readUInt32BE(offset);
+    offset += 4;
+    const header = new PbfReader(buffer, offset, offset + headerLength);
+    offset += headerLength;
+
+    let type = '';
+    let dataSize = 0;
+    while (header.next()) {
+      if (header.field === 1) type = header.string();
+      else if (header.field === 3) dataSize = header.varint();
+      else header.skip();
+    }
+
+    const blob = new PbfReader(buffer, offset, offset + dataSize);
+    offset += dataSize;
+    if (type === 'OSMData') visit(parseBlock(decodeBlob(blob), withStrings));
+  }
+}
+
+function decodeBlob(blob: PbfReader): Buffer {
+  while (blob.next()) {
+    if (blob.field === 1) return Buffer.from(blob.bytes()); // raw
+    if (blob.field === 3) return zlib.inflateSync(blob.bytes()); // zlib_data
+    if (blob.field === 2) blob.skip(); // raw_size
+    else throw new Error(`Unsupported OSM PBF blob compression (field ${blob.field})`);
+  }
+  throw new Error('Empty OSM PBF blob');
+}
+
+function parseBlock(data: Buffer, withStrings: boolean): PrimitiveBlock {
+  const block: PrimitiveBlock = { strings: [], groups: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const reader = new PbfReader(data);
+  while (reader.next()) {
+    if (reader.field === 1 && withStrings) {
+      const table = reader.message();
+      while (table.next()) {
+        if (table.field === 1) block.strings.push(table.string());
+        else table.skip();
+      }
+    } else if (reader.field === 2) {
+      block.groups.push(reader.bytes());
+    } else if (reader.field === 17) {
+      block.granularity = reader.varint();
+    } else if (reader.field === 19) {
+      block.latOffset = reader.int64();
+    } else if (reader.field === 20) {
+      block.lonOffset = reader.int64();
+    } else {
+      reader.skip();
+    }
+  }
+  return block;
+}
+
+function readPbfWays(block: PrimitiveBlock, keepWay: (tags: OsmTags) => boolean, ways: OsmWay[]) {
+  for (const group of block.groups) {
+    const reader = new PbfReader(group);
+    while (reader.next()) {
+      if (reader.field !== 3) {
+        reader.skip();
+        continue;
+      }
+
+      const way = reader.message();
+      let id = 0;
+      let keys: number[] = [];
+      let vals: number[] = [];
+      let refs: number[] = [];
+      while (way.next()) {
+        if (way.field === 1) id = way.varint();
+        else if (way.field === 2) keys = way.packedVarints();
+        else if (way.field === 3) vals = way.packedVarints();
+        else if (way.field === 8) refs = way.packedSVarints();
+        else way.skip();
+      }
+
+      const tags: OsmTags = {};
+      keys.forEach((key, i) => { tags[block.strings[key]] = block.strings[vals[i]]; });
+      if (!keepWay(tags)) continue;
+
+      // Node refs are delta coded
+      for (let i = 1; i < refs.length; i++) refs[i] += refs[i - 1];
+      ways.push({ id, nodeIds: refs, tags });
+    }
+  }
+}
+
+function readPbfNodes(block: PrimitiveBlock, needed: Set<number>, nodes: Map<number, LatLng>) {
+  const toDegrees = (offset: number, value: number) => 1e-9 * (offset + block.granularity * value);
+
+  for (const group of block.groups) {
+    const reader = new PbfReader(group);
+    while (reader.next()) {
+      if (reader.field === 1) {
+        // Plain node
+        const node = reader.message();
+        let id = 0;
+        let lat = 0;
+        let lon = 0;
+        while (node.next()) {
+          if (node.field === 1) id = node.svarint();
+          else if (node.field === 8) lat = node.svarint();
+          else if (node.field === 9) lon = node.svarint();
+          else node.skip();
+        }
+        if (needed.has(id)) nodes.set(id, { lat: toDegrees(block.latOffset, lat), lng: toDegrees(block.lonOffset, lon) });
+      } else if (reader.field === 2) {
+        // DenseNodes: parallel delta-coded id/lat/lon arrays
+        const dense = reader.message();
+        let ids: number[] = [];
+        let lats: number[] = [];
+        let lons: number[] = [];
+        while (dense.next()) {
+          if (dense.field === 1) ids = dense.packedSVarints();
+          else if (dense.field === 8) lats = dense.packedSVarints();
+          else if (dense.field === 9) lons = dense.packedSVarints();
+          else dense.skip();
+        }
+        let id = 0;
+        let lat = 0;
+        let lon = 0;
+        for (let i = 0; i < ids.length; i++) {
+          id += ids[i];
+          lat += lats[i];
+          lon += lons[i];
+          if (needed.has(id)) nodes.set(id, { lat: toDegrees(block.latOffset, lat), lng: toDegrees(block.lonOffset, lon) });
+        }
+      } else {
+        reader.skip();
+      }
+    }
+  }
+}
+
+// Regex scan rather than a full XML parser: OSM XML is flat and machine-written
+function readXmlExtract(xml: string, keepWay: (tags: OsmTags) => boolean): OsmExtract {
+  const ways: OsmWay[] = [];
+  for (const match of xml.matchAll(/<way\b([^>]*?)(?:\/>|>([\s\S]*?)<\/way>)/g)) {
+    const body = match[2] || '';
+    const tags: OsmTags = {};
+    for (const tag of body.matchAll(/<tag\b([^>]*?)\/?>/g)) {
+      const attrs = parseAttributes(tag[1]);
+      if (attrs.k !== undefined) tags[attrs.k] = attrs.v ?? '';
+    }
+    if (!keepWay(tags)) continue;
+
+    const nodeIds = [...body.matchAll(/<nd\b([^>]*?)\/?>/g)].map(nd => Number(parseAttributes(nd[1]).ref));
+    ways.push({ id: Number(parseAttributes(match[1]).id), nodeIds, tags });
+  }
+
+  const needed = new Set<number>();
+  ways.forEach(way => way.nodeIds.forEach(id => needed.add(id)));
+  const nodes = new Map<number, LatLng>();
+  for (const match of xml.matchAll(/<node\b([^>]*?)\/?>/g)) {
+    const attrs = parseAttributes(match[1]);
+    const id = Number(attrs.id);
+    if (needed.has(id)) nodes.set(id, { lat: parseFloat(attrs.lat), lng: parseFloat(attrs.lon) });
+  }
+
+  return { nodes, ways };
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attrs;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,107 @@
+// Protocol Buffers wire types
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_BYTES = 2;
+export const WIRE_FIXED32 = 5;
+
+/**
+ * Minimal protobuf decoder, just enough to walk OSM PBF messages field by field. Varints are
+ * read as doubles, so values stay exact up to 2^53 (OSM IDs and coordinates are far below).
+ */
+export class PbfReader {
+  public field = 0;
+  public wireType = 0;
+  private pos: number;
+
+  constructor(private buffer: Buffer, start: number = 0, private end: number = buffer.length) {
+    this.pos = start;
+  }
+
+  // Advance to the next field. Returns false at the end of the message.
+  public next(): boolean {
+    if (this.pos >= this.end) return false;
+    const key = this.varint();
+    this.field = Math.floor(key / 8);
+    this.wireType = key % 8;
+    return true;
+  }
+
+  public varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (let i = 0; i < 10; i++) {
+      if (this.pos >= this.end) throw new Error('Truncated protobuf varint');
+      const byte = this.buffer[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 128;
+    }
+    throw new Error('Malformed protobuf varint');
+  }
+
+  // int64, where negative values take ten bytes in two's complement. Rare enough in OSM
+  // (block offsets) to go through BigInt.
+  public int64(): number {
+    let result = BigInt(0);
+    for (let shift = BigInt(0); shift < BigInt(70); shift += BigInt(7)) {
+      if (this.pos >= this.end) throw new Error('Truncated protobuf varint');
+      const byte = this.buffer[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if (byte < 0x80) return Number(BigInt.asIntN(64, result));
+    }
+    throw new Error('Malformed protobuf varint');
+  }
+
+  // sint32/sint64 (zigzag encoded)
+  public svarint(): number {
+    return zigzag(this.varint());
+  }
+
+  public bytes(): Buffer {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.end) throw new Error('Truncated protobuf field');
+    return this.buffer.subarray(start, this.pos);
+  }
+
+  public string(): string {
+    return this.bytes().toString('utf-8');
+  }
+
+  // Reader over an embedded message
+  public message(): PbfReader {
+    const data = this.bytes();
+    return new PbfReader(data);
+  }
+
+  public packedVarints(): number[] {
+    const inner = this.message();
+    const values: number[] = [];
+    while (inner.pos < inner.end) values.push(inner.varint());
+    return values;
+  }
+
+  public packedSVarints(): number[] {
+    return this.packedVarints().map(zigzag);
+  }
+
+  public skip(): void {
+    switch (this.wireType) {
+      case WIRE_VARINT: this.varint(); break;
+      case WIRE_FIXED64: this.pos += 8; break;
+      case WIRE_BYTES: {
+        // Read the length first: `pos += varint()` would add it to the pre-varint position
+        const length = this.varint();
+        this.pos += length;
+        break;
+      }
+      case WIRE_FIXED32: this.pos += 4; break;
+      default: throw new Error(`Unsupported protobuf wire type ${this.wireType}`);
+    }
+  }
+}
+
+function zigzag(n: number): number {
+  return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+}
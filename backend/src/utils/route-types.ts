@@ -0,0 +1,51 @@
+export type TransitMode = 'tram' | 'metro' | 'rail' | 'bus' | 'ferry' | 'cable_car' | 'gondola' | 'funicular' | 'trolleybus' | 'monorail';
+
+// GTFS route_type, including the extended (Google) route types that some Indian feeds use
+export function routeTypeToMode(routeType: number): TransitMode {
+  switch (routeType) {
+    case 0: return 'tram';
+    case 1: return 'metro';
+    case 2: return 'rail';
+    case 3: return 'bus';
+    case 4: return 'ferry';
+    case 5: return 'cable_car';
+    case 6: return 'gondola';
+    case 7: return 'funicular';
+    case 11: return 'trolleybus';
+    case 12: return 'monorail';
+  }
+
+  if (routeType >= 100 && routeType < 200) return 'rail';
+  if (routeType >= 400 && routeType < 500) return 'metro';
+  if (routeType >= 900 && routeType < 1000) return 'tram';
+  if (routeType >= 1000 && routeType < 1300) return 'ferry';
+  if (routeType >= 1300 && routeType < 1400) return 'gondola';
+  if (routeType >= 1400 && routeType < 1500) return 'funicular';
+  return 'bus'; // 200-899 are coach, bus and trolleybus services
+}
+
+export interface ModeProfile {
+  label: string; // Used in instructions, e.g. "Take metro Yellow Line"
+  color: string; // Leg colour when the route has no route_color
+  transferColor: string; // Colour for legs after a transfer, so consecutive legs stay distinguishable
+  transferSeconds: number; // Minimum time to get on or off this mode when changing, platform walks included
+}
+
+export const MODE_PROFILES: Record<TransitMode, ModeProfile> = {
+  bus: { label: 'bus', color: '#f97316', transferColor: '#ea580c', transferSeconds: 60 },
+  trolleybus: { label: 'trolleybus', color: '#f97316', transferColor: '#ea580c', transferSeconds: 60 },
+  tram: { label: 'tram', color: '#db2777', transferColor: '#be185d', transferSeconds: 90 },
+  metro: { label: 'metro', color: '#2563eb', transferColor: '#1d4ed8', transferSeconds: 180 },
+  monorail: { label: 'monorail', color: '#4f46e5', transferColor: '#4338ca', transferSeconds: 180 },
+  rail: { label: 'train', color: '#16a34a', transferColor: '#15803d', transferSeconds: 300 },
+  ferry: { label: 'ferry', color: '#0891b2', transferColor: '#0e7490', transferSeconds: 300 },
+  cable_car: { label: 'cable car', color: '#7c3aed', transferColor: '#6d28d9', transferSeconds: 120 },
+  gondola: { label: 'gondola', color: '#7c3aed', transferColor: '#6d28d9', transferSeconds: 120 },
+  funicular: { label: 'funicular', color: '#7c3aed', transferColor: '#6d28d9', transferSeconds: 120 }
+};
+
+// GTFS route_color is hex without the leading '#'
+export function routeColor(mode: TransitMode, gtfsColor: string | undefined, afterTransfer: boolean): string {
+  if (gtfsColor && /^[0-9a-fA-F]{6}$/.test(gtfsColor)) return `#${gtfsColor}`;
+  return afterTransfer ? MODE_PROFILES[mode].transferColor : MODE_PROFILES[mode].color;
+}
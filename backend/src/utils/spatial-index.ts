@@ -0,0 +1,121 @@
+import { calculateDistance } from './fare-calculator';
+import { LatLng } from './geometry';
+
+export interface SpatialMatch<T> {
+  item: T;
+  distance: number; // km
+}
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+/**
+ * Uniform lat/lng grid for point lookups. Items are bucketed once at build time, so
+ * radius and k-nearest queries only run haversine on the handful of cells around the query
+ * point instead of on every item.
+ */
+export class SpatialIndex<T> {
+  private cells: Map<string, { item: T; location: LatLng }[]> = new Map();
+  private minRow = Infinity;
+  private maxRow = -Infinity;
+  private minCol = Infinity;
+  private maxCol = -Infinity;
+
+  constructor(items: Iterable<T>, private getLocation: (item: T) => LatLng, private cellSizeDeg: number = 0.01) {
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  public insert(item: T): void {
+    const location = this.getLocation(item);
+    if (isNaN(location.lat) || isNaN(location.lng)) return;
+
+    const row = this.rowOf(location.lat);
+    const col = this.colOf(location.lng);
+    const key = this.key(row, col);
+    if (!this.cells.has(key)) {
+      this.cells.set(key, []);
+    }
+    this.cells.get(key)?.push({ item, location });
+
+    this.minRow = Math.min(this.minRow, row);
+    this.maxRow = Math.max(this.maxRow, row);
+    this.minCol = Math.min(this.minCol, col);
+    this.maxCol = Math.max(this.maxCol, col);
+  }
+
+  // All items within radiusKm, nearest first
+  public within(location: LatLng, radiusKm: number): SpatialMatch<T>[] {
+    const rowSpan = Math.ceil(radiusKm / (KM_PER_DEGREE_LAT * this.cellSizeDeg));
+    const colSpan = Math.ceil(radiusKm / (this.kmPerDegreeLng(location.lat) * this.cellSizeDeg));
+    const row = this.rowOf(location.lat);
+    const col = this.colOf(location.lng);
+
+    const matches: SpatialMatch<T>[] = [];
+    for (let r = row - rowSpan; r <= row + rowSpan; r++) {
+      for (let c = col - colSpan; c <= col + colSpan; c++) {
+        this.scanCell(r, c, location, matches, radiusKm);
+      }
+    }
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  // The k nearest items, optionally capped at maxDistanceKm, nearest first
+  public nearest(location: LatLng, k: number, maxDistanceKm: number = Infinity): SpatialMatch<T>[] {
+    if (k <= 0 || this.cells.size === 0) return [];
+
+    const row = this.rowOf(location.lat);
+    const col = this.colOf(location.lng);
+    // Anything outside ring r is at least r cells away along the narrower cell side
+    const ringKm = this.cellSizeDeg * Math.min(KM_PER_DEGREE_LAT, this.kmPerDegreeLng(location.lat));
+    const maxRing = Math.max(
+      Math.abs(row - this.minRow), Math.abs(row - this.maxRow),
+      Math.abs(col - this.minCol), Math.abs(col - this.maxCol)
+    );
+
+    const matches: SpatialMatch<T>[] = [];
+    for (let ring = 0; ring <= maxRing; ring++) {
+      if ((ring - 1) * ringKm > maxDistanceKm) break;
+
+      for (let r = row - ring; r <= row + ring; r++) {
+        for (let c = col - ring; c <= col + ring; c++) {
+          // Only the border of the ring, inner cells were scanned already
+          if (Math.abs(r - row) !== ring && Math.abs(c - col) !== ring) continue;
+          this.scanCell(r, c, location, matches, maxDistanceKm);
+        }
+      }
+
+      if (matches.length >= k) {
+        matches.sort((a, b) => a.distance - b.distance);
+        if (matches[k - 1].distance <= ring * ringKm) break;
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance).slice(0, k);
+  }
+
+  private scanCell(row: number, col: number, location: LatLng, out: SpatialMatch<T>[], maxDistanceKm: number) {
+    const bucket = this.cells.get(this.key(row, col));
+    if (!bucket) return;
+    for (const entry of bucket) {
+      const distance = calculateDistance(location.lat, location.lng, entry.location.lat, entry.location.lng);
+      if (distance <= maxDistanceKm) out.push({ item: entry.item, distance });
+    }
+  }
+
+  private kmPerDegreeLng(lat: number): number {
+    return Math.max(KM_PER_DEGREE_LAT * Math.cos(lat * Math.PI / 180), 1e-6);
+  }
+
+  private rowOf(lat: number): number {
+    return Math.floor(lat / this.cellSizeDeg);
+  }
+
+  private colOf(lng: number): number {
+    return Math.floor(lng / this.cellSizeDeg);
+  }
+
+  private key(row: number, col: number): string {
+    return `${row}:${col}`;
+  }
+}
@@ -0,0 +1,64 @@
+import { TransitMode } from './route-types';
+
+// [Up to km, Fare] slabs, last slab applies beyond its distance
+type FareSlabs = [number, number][];
+
+// DTC fare structure for ordinary (non-AC) and AC buses
+const BUS_SLABS: FareSlabs = [[4, 5], [10, 10], [Infinity, 15]];
+const AC_BUS_SLABS: FareSlabs = [[4, 10], [10, 15], [15, 20], [Infinity, 25]];
+
+// DMRC fare (weekday) by travelled distance
+const METRO_SLABS: FareSlabs = [[2, 10], [5, 20], [12, 30], [21, 40], [32, 50], [Infinity, 60]];
+
+// Suburban (EMU) second class single journey
+const RAIL_SLABS: FareSlabs = [[10, 10], [25, 15], [45, 20], [Infinity, 30]];
+
+const SLABS_BY_MODE: Partial<Record<TransitMode, FareSlabs>> = {
+  bus: BUS_SLABS,
+  trolleybus: BUS_SLABS,
+  metro: METRO_SLABS,
+  monorail: METRO_SLABS,
+  rail: RAIL_SLABS
+};
+
+// Agencies are matched on agency_id or agency_name
+const DELHI_BUS_AGENCIES = /^(DTC|DIMTS)$|Delhi Transport Corporation|Delhi Integrated Multi-Modal/i;
+const DELHI_METRO_AGENCIES = /^DMRC$|Delhi Metro/i;
+
+export interface Concession {
+  category: string; // Rider category it applies to, e.g. "woman"
+  name: string;
+  agencies: RegExp;
+  modes: TransitMode[];
+  discount: number; // Fraction of the fare waived, 1 = free
+}
+
+export interface DayPass {
+  name: string;
+  agencies: RegExp;
+  modes: TransitMode[];
+  price: number;
+}
+
+// Concessions for feeds that don't publish rider categories (GTFS fares v1 or no fares at all)
+export const CONCESSIONS: Concession[] = [
+  { category: 'woman', name: 'Pink ticket (free travel for women)', agencies: DELHI_BUS_AGENCIES, modes: ['bus'], discount: 1 }
+];
+
+export const DAY_PASSES: DayPass[] = [
+  { name: 'DTC daily pass', agencies: DELHI_BUS_AGENCIES, modes: ['bus'], price: 50 },
+  { name: 'DMRC tourist card (1 day)', agencies: DELHI_METRO_AGENCIES, modes: ['metro'], price: 200 }
+];
+
+// Distance-based fare for one leg. Modes without their own table are priced like a bus.
+export function calculateTransitFare(mode: TransitMode, distanceKm: number, ac: boolean = false): number {
+  const slabs = ac && (mode === 'bus' || mode === 'trolleybus') ? AC_BUS_SLABS : SLABS_BY_MODE[mode] || BUS_SLABS;
+  const slab = slabs.find(([upToKm]) => distanceKm <= upToKm) || slabs[slabs.length - 1];
+  return slab[1];
+}
+
+// Feeds have no AC flag, so rely on the route naming it, e.g. "AC-423" or "Air conditioned"
+export function isAirConditioned(route: { route_short_name?: string; route_long_name?: string; route_desc?: string }): boolean {
+  const text = [route.route_short_name, route.route_long_name, route.route_desc].filter(Boolean).join(' ');
+  return /(^|[^a-z])(AC|A\/C)([^a-z]|$)|air[- ]?condition/i.test(text);
+}
@@ -0,0 +1,62 @@
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive
+  data: Buffer;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Minimal ZIP reader covering what GTFS publishers produce: stored or deflated entries,
+ * no encryption and no ZIP64. Throws on anything else rather than returning partial data.
+ */
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  // End of central directory record sits in the last 22 bytes + up to 64KB of comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a zip archive');
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Corrupt zip central directory');
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory entry
+    if (flags & 0x1) throw new Error(`Encrypted zip entry: ${name}`);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) throw new Error(`Corrupt zip entry: ${name}`);
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.push({ name, data: Buffer.from(raw) });
+    } else if (method === 8) {
+      entries.push({ name, data: zlib.inflateRawSync(raw) });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,98 @@
+import { after, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SessionVault } from '../src/services/session-vault.service';
+import { AccountRotationService, NoAccountAvailableError } from '../src/services/account-rotation.service';
+import { AccountRotationStrategy, StorageState } from '../src/interfaces/session';
+
+const state = (value: string): StorageState => ({
+  cookies: [{ name: 'sid', value, domain: '.uber.com', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' }],
+  origins: []
+});
+
+describe('account rotation', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'account-rotation-'));
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  // A vault of its own holding the given uber accounts
+  const setup = (accounts: string[], strategy: AccountRotationStrategy = 'lru') => {
+    const vault = new SessionVault(fs.mkdtempSync(path.join(root, 'vault-')), 'test key');
+    accounts.forEach(account => vault.save('uber', account, state(account)));
+    return { vault, rotation: new AccountRotationService(vault, strategy) };
+  };
+
+  const statusOf = (rotation: AccountRotationService, account: string) =>
+    rotation.getStatus('uber').find(status => status.account === account)!;
+
+  it('scrapes logged out when the platform has no saved sessions', () => {
+    const { rotation } = setup([]);
+    assert.equal(rotation.checkout('uber'), null);
+  });
+
+  it('hands out the account left unused longest', () => {
+    const { rotation } = setup(['a', 'b']);
+    const first = rotation.checkout('uber')!;
+    const second = rotation.checkout('uber')!;
+    assert.notEqual(first.account, second.account);
+    assert.deepEqual(second.state, state(second.account));
+  });
+
+  it('takes the accounts in turn with round_robin', () => {
+    const { rotation } = setup(['a', 'b'], 'round_robin');
+    assert.deepEqual([1, 2, 3].map(() => rotation.checkout('uber')!.account), ['a', 'b', 'a']);
+  });
+
+  it('stops handing out an account that has used up its hourly budget', () => {
+    const { rotation } = setup(['a']);
+    for (let i = 0; i < AccountRotationService.REQUESTS_PER_HOUR; i++) rotation.checkout('uber');
+    assert.equal(statusOf(rotation, 'a').state, 'over_budget');
+    assert.throws(() => rotation.checkout('uber'), NoAccountAvailableError);
+  });
+
+  it('gives a refunded use back to the budget', () => {
+    const { rotation } = setup(['a']);
+    for (let i = 0; i < AccountRotationService.REQUESTS_PER_HOUR - 1; i++) rotation.checkout('uber');
+    rotation.checkout('uber')!.refund();
+    assert.equal(statusOf(rotation, 'a').requestsLastHour, AccountRotationService.REQUESTS_PER_HOUR - 1);
+    assert.equal(rotation.checkout('uber')?.account, 'a');
+  });
+
+  it('quarantines an account after repeated errors until the quarantine is over', () => {
+    const { rotation } = setup(['a', 'b']);
+    for (let i = 0; i < AccountRotationService.ERROR_THRESHOLD; i++) rotation.report('uber', 'a', 'error');
+    assert.equal(statusOf(rotation, 'a').state, 'quarantined');
+    assert.equal(rotation.checkout('uber')?.account, 'b');
+
+    const now = Date.now();
+    const clock = mock.method(Date, 'now', () => now + AccountRotationService.QUARANTINE_MINUTES * 60000 + 1000);
+    try {
+      assert.equal(statusOf(rotation, 'a').state, 'available');
+    } finally {
+      clock.mock.restore();
+    }
+  });
+
+  it('resets the error count after a successful scrape', () => {
+    const { rotation } = setup(['a']);
+    for (let i = 0; i < AccountRotationService.ERROR_THRESHOLD - 1; i++) rotation.report('uber', 'a', 'error');
+    rotation.report('uber', 'a', 'ok');
+    rotation.report('uber', 'a', 'error');
+    assert.equal(statusOf(rotation, 'a').state, 'available');
+  });
+
+  it('quarantines a logged-out account until it is saved again', async () => {
+    const { vault, rotation } = setup(['a']);
+    const lease = rotation.checkout('uber')!;
+    lease.release('login_redirect');
+    assert.equal(statusOf(rotation, 'a').quarantinedUntil, null);
+    assert.throws(() => rotation.checkout('uber'), /1 quarantined/);
+
+    await new Promise(resolve => setTimeout(resolve, 5)); // A later savedAt
+    vault.save('uber', 'a', state('fresh login'));
+    const next = rotation.checkout('uber')!;
+    assert.notEqual(next.savedAt, lease.savedAt);
+    assert.equal(next.state.cookies[0].value, 'fresh login');
+  });
+});
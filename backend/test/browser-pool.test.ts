@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Browser, BrowserContext } from 'playwright';
+import { BrowserPoolLimits, BrowserPoolTimeoutError, BrowserService } from '../src/services/browser.service';
+
+// Just enough of Playwright's Browser and BrowserContext for the pool
+interface FakeContext {
+  closed: boolean;
+  setGeolocation(): Promise<void>;
+  newPage(): Promise<{ close(): Promise<void> }>;
+  close(): Promise<void>;
+}
+
+function fakeBrowser(): { browser: Browser; contexts: FakeContext[] } {
+  const contexts: FakeContext[] = [];
+  const browser = {
+    isConnected: () => true,
+    on: () => browser,
+    close: async () => {},
+    newContext: async () => {
+      const context: FakeContext = {
+        closed: false,
+        setGeolocation: async () => {},
+        newPage: async () => ({ close: async () => {} }),
+        close: async () => {
+          context.closed = true;
+        }
+      };
+      contexts.push(context);
+      return context;
+    }
+  };
+  return { browser: browser as unknown as Browser, contexts };
+}
+
+function pool(limits: Partial<BrowserPoolLimits> = {}) {
+  const { browser, contexts } = fakeBrowser();
+  const service = new BrowserService(async () => browser, { maxContexts: 2, queueTimeoutMs: 1000, contextMaxUses: 25, ...limits });
+  return { service, contexts };
+}
+
+describe('browser pool', () => {
+  it('gives up on a request that waits longer than the queue timeout', async () => {
+    const { service } = pool({ maxContexts: 1, queueTimeoutMs: 20 });
+    const lease = await service.acquire('uber');
+    await assert.rejects(service.acquire('ola'), BrowserPoolTimeoutError);
+    assert.equal(service.getStats().timeouts, 1);
+    await lease.release();
+    await service.close();
+  });
+
+  it('hands a freed slot to the longest waiting request', async () => {
+    const { service } = pool({ maxContexts: 1 });
+    const first = await service.acquire('uber');
+    const second = service.acquire('ola');
+    assert.equal(service.getStats().waiting, 1);
+
+    await first.release();
+    const lease = await second;
+    assert.deepEqual(service.getStats().platforms.ola, { inUse: 1, idle: 0, waiting: 0 });
+    await lease.release();
+    await service.close();
+  });
+
+  it('reuses an idle context of the same platform and timezone', async () => {
+    const { service } = pool();
+    const first = await service.acquire('uber', { timezoneId: 'Asia/Kolkata' });
+    await first.release();
+    const second = await service.acquire('uber', { timezoneId: 'Asia/Kolkata' });
+    assert.equal(second.context, first.context);
+    assert.equal(service.getStats().created, 1);
+    await second.release();
+    await service.close();
+  });
+
+  it('replaces a context after a failed scrape', async () => {
+    const { service, contexts } = pool();
+    const first = await service.acquire('uber');
+    await first.release(true);
+    assert.equal(contexts[0].closed, true);
+
+    const second = await service.acquire('uber');
+    assert.notEqual(second.context, first.context);
+    assert.deepEqual([service.getStats().created, service.getStats().recycled], [2, 1]);
+    await second.release();
+    await service.close();
+  });
+
+  it('replaces a context once it has been used contextMaxUses times', async () => {
+    const { service, contexts } = pool({ contextMaxUses: 2 });
+    for (let i = 0; i < 3; i++) await (await service.acquire('uber')).release();
+    assert.deepEqual(contexts.map(context => context.closed), [true, false]);
+    await service.close();
+  });
+
+  it('closes the least recently used idle context to make room', async () => {
+    const { service, contexts } = pool();
+    await (await service.acquire('uber')).release();
+    await (await service.acquire('ola')).release();
+    await (await service.acquire('rapido')).release();
+    assert.deepEqual(contexts.map(context => context.closed), [true, false, false]);
+    assert.deepEqual(Object.keys(service.getStats().platforms).sort(), ['ola', 'rapido']);
+    await service.close();
+  });
+
+  it("closes an account's idle contexts once it is saved again", async () => {
+    const { service, contexts } = pool();
+    await (await service.acquire('uber', { account: 'work', session: '2026-10-01T00:00:00.000Z' })).release();
+    const lease = await service.acquire('uber', { account: 'work', session: '2026-10-19T00:00:00.000Z' });
+    assert.equal(contexts[0].closed, true);
+    assert.equal(lease.context, contexts[1] as unknown as BrowserContext);
+    await lease.release();
+    await service.close();
+  });
+
+  it('warms the given contexts when the browser launches', async () => {
+    const { service } = pool();
+    const prepared: string[] = [];
+    service.setWarmup(() => ['work', 'personal', 'spare'].map(account => ({
+      platform: 'uber',
+      options: { account, session: 'saved', prepare: async () => { prepared.push(account); } }
+    })));
+
+    await service.init();
+    for (let i = 0; i < 10 && service.getStats().idle < 2; i++) await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(prepared, ['work', 'personal']); // No room for the third
+
+    const lease = await service.acquire('uber', { account: 'personal', session: 'saved', prepare: async () => { prepared.push('again'); } });
+    assert.equal(service.getStats().created, 2);
+    assert.deepEqual(prepared, ['work', 'personal']);
+    await lease.release();
+    await service.close();
+  });
+});
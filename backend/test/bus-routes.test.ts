@@ -0,0 +1,67 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { BusService } from '../src/services/bus.service';
+import { cachePathFor } from '../src/services/gtfs-loader';
+
+// Line 101 runs First -> Interchange at 08:00 and 08:30, line 202 Interchange -> Fourth at
+// 08:25, 08:55 and 09:25, on weekdays. Every journey needs one transfer at Interchange.
+const FIXTURE = path.join(__dirname, 'fixtures', 'gtfs-transfer');
+const FIRST = { lat: 28.6, lng: 77.2 };
+const FOURTH = { lat: 28.63, lng: 77.26 };
+
+// Monday 19 October 2026 in the feed's timezone
+const monday = (time: string) => new Date(`2026-10-19T${time}:00+05:30`);
+
+describe('bus routes', () => {
+  const bus = new BusService([{ id: 'test', source: FIXTURE }], null);
+
+  after(() => fs.rmSync(cachePathFor(FIXTURE), { force: true }));
+
+  describe('depart at', () => {
+    it('takes the first connection that can still be caught', () => {
+      const [route] = bus.findRoutes(FIRST, FOURTH, { departAt: monday('07:50') });
+      assert.equal(route.route_name, '101 + 202');
+      assert.equal(route.departure_time, '08:00:00');
+      assert.equal(route.arrival_time, '08:40:00');
+      assert.deepEqual(route.segments?.map(segment => segment.type), ['walk', 'bus', 'walk', 'bus', 'walk']);
+    });
+
+    it('waits for the next departure once the first has left', () => {
+      const [route] = bus.findRoutes(FIRST, FOURTH, { departAt: monday('08:05') });
+      assert.equal(route.departure_time, '08:30:00');
+      assert.equal(route.arrival_time, '09:10:00');
+    });
+
+    it('finds nothing after the last connection', () => {
+      assert.deepEqual(bus.findRoutes(FIRST, FOURTH, { departAt: monday('09:00') }), []);
+    });
+
+    it('finds nothing when the journey needs more transfers than allowed', () => {
+      assert.deepEqual(bus.findRoutes(FIRST, FOURTH, { departAt: monday('07:50'), maxTransfers: 0 }), []);
+    });
+
+    it('finds nothing on days without service', () => {
+      assert.deepEqual(bus.findRoutes(FIRST, FOURTH, { departAt: new Date('2026-10-24T07:50:00+05:30') }), []);
+    });
+  });
+
+  describe('arrive by', () => {
+    it('leaves as late as possible while arriving in time', () => {
+      const [route] = bus.findRoutes(FIRST, FOURTH, { arriveBy: monday('09:15') });
+      assert.equal(route.departure_time, '08:30:00');
+      assert.equal(route.arrival_time, '09:10:00');
+    });
+
+    it('falls back to an earlier departure when the later one arrives too late', () => {
+      const [route] = bus.findRoutes(FIRST, FOURTH, { arriveBy: monday('08:45') });
+      assert.equal(route.departure_time, '08:00:00');
+      assert.equal(route.arrival_time, '08:40:00');
+    });
+
+    it('finds nothing before the first arrival', () => {
+      assert.deepEqual(bus.findRoutes(FIRST, FOURTH, { arriveBy: monday('08:35') }), []);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FareForecastService } from '../src/services/fare-forecast.service';
+import { FareHistoryQuery, FareHistoryService, FareObservation } from '../src/services/fare-history.service';
+import { City } from '../src/interfaces/city';
+
+const city: City = { id: 'testcity', name: 'Test City', timezone: 'Asia/Kolkata', currency: 'INR', polygon: [], platforms: {} };
+const pickup = { lat: 28.6, lng: 77.2 };
+const drop = { lat: 28.65, lng: 77.25 };
+
+// Local time in the city. 19 October 2026 is a Monday.
+const local = (time: string) => new Date(`${time}+05:30`);
+
+const fare = (time: string, price: number, vehicleType = 'UberGo'): FareObservation => ({
+  time: local(time).getTime(),
+  city: city.id,
+  origin: 'o',
+  destination: 'd',
+  platform: 'uber',
+  vehicleType,
+  price,
+  currency: 'INR',
+  source: 'live'
+});
+
+// A history that returns the given fares, and keeps the queries made of it
+function forecaster(fares: FareObservation[]) {
+  const queries: FareHistoryQuery[] = [];
+  const history = {
+    query: async (query: FareHistoryQuery) => {
+      queries.push(query);
+      return fares;
+    }
+  } as unknown as FareHistoryService;
+  return { forecasts: new FareForecastService(history), queries };
+}
+
+describe('fare forecast baseline', () => {
+  // 08:00 on three Mondays, 09:00 on other days, and the afternoons
+  const history = [
+    fare('2026-09-28T08:10:00', 200), fare('2026-10-05T08:20:00', 200), fare('2026-10-12T08:40:00', 200),
+    fare('2026-10-13T09:15:00', 150), fare('2026-10-14T09:45:00', 150),
+    fare('2026-10-15T15:00:00', 100), fare('2026-10-16T15:30:00', 100)
+  ];
+
+  it('only reads the fares the platforms quoted', async () => {
+    const { forecasts, queries } = forecaster(history);
+    await forecasts.forecast(pickup, drop, city, { at: local('2026-10-19T08:00:00') });
+    assert.deepEqual(queries[0].sources, FareHistoryService.OBSERVED_SOURCES);
+  });
+
+  it('falls back from the hour of week to the hour of day to every fare', async () => {
+    const { forecasts } = forecaster(history);
+    const { forecasts: [forecast] } = await forecasts.forecast(pickup, drop, city, { at: local('2026-10-19T08:00:00'), hours: 3 });
+    const baselines = forecast.points.map(point => [point.basis, point.baseline, point.samples]);
+    assert.deepEqual(baselines, [
+      ['hour_of_week', 200, 3], ['hour_of_week', 200, 3],
+      ['hour_of_day', 150, 2], ['hour_of_day', 150, 2],
+      ['overall', 157, 7], ['overall', 157, 7]
+    ]);
+  });
+
+  it('recommends the cheapest window, with the savings over leaving now', async () => {
+    const { forecasts } = forecaster(history);
+    const { recommendation } = await forecasts.forecast(pickup, drop, city, { at: local('2026-10-19T08:00:00'), hours: 3 });
+    assert.equal(recommendation?.start.getTime(), local('2026-10-19T09:00:00').getTime());
+    assert.equal(recommendation?.price, 150);
+    assert.equal(recommendation?.savings, 50);
+    assert.equal(recommendation?.vehicleType, 'UberGo');
+  });
+
+  it('applies the recent deviation from the baseline, fading with its half-life', async () => {
+    const { forecasts } = forecaster([
+      fare('2026-09-21T07:10:00', 100), fare('2026-09-28T07:20:00', 100), fare('2026-10-05T07:30:00', 100),
+      fare('2026-10-12T07:40:00', 100), fare('2026-10-19T07:30:00', 150)
+    ]);
+    const { forecasts: [forecast] } = await forecasts.forecast(pickup, drop, city, { at: local('2026-10-19T08:00:00'), hours: 1 });
+    // The baseline is the average of all five, 110, and the recent fare is 150 / 110 of it
+    assert.equal(forecast.recentObservations, 1);
+    assert.equal(forecast.deviation, 1.364);
+    assert.deepEqual(forecast.points.map(point => [point.baseline, point.price]), [[110, 150], [110, 138]]);
+  });
+
+  it('keeps vehicle types apart and skips those with too few fares', async () => {
+    const { forecasts } = forecaster([...history, fare('2026-10-13T09:00:00', 90, 'Premier')]);
+    const result = await forecasts.forecast(pickup, drop, city, { at: local('2026-10-19T08:00:00') });
+    assert.deepEqual(result.forecasts.map(forecast => forecast.vehicleType), ['UberGo']);
+    assert.equal(result.observations, history.length + 1);
+  });
+
+  it('does not forecast a route without enough history', async () => {
+    const { forecasts } = forecaster(history.slice(0, FareForecastService.MIN_OBSERVATIONS - 1));
+    const result = await forecasts.forecast(pickup, drop, city, { at: local('2026-10-19T08:00:00') });
+    assert.deepEqual(result.forecasts, []);
+    assert.equal(result.recommendation, null);
+  });
+});
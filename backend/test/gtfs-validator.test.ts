@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { readFeedTables } from '../src/services/gtfs-loader';
+import { validateFeed, ValidationOptions } from '../src/services/gtfs-validator';
+import { GtfsTables } from '../src/interfaces/gtfs';
+
+const TODAY = '20261019';
+
+// A fresh copy of the fixture's tables for each test to break
+const fixture = (): GtfsTables => structuredClone(readFeedTables(path.join(__dirname, 'fixtures', 'gtfs-transfer')));
+
+const codes = (tables: GtfsTables, options: ValidationOptions = {}) =>
+  validateFeed(tables, { today: TODAY, ...options }).issues.map(issue => `${issue.severity}:${issue.code}`);
+
+describe('GTFS validator', () => {
+  it('accepts a consistent feed', () => {
+    const report = validateFeed(fixture(), { today: TODAY });
+    assert.deepEqual(report.issues, []);
+    assert.equal(report.valid, true);
+    assert.equal(report.tables.stop_times, 12);
+  });
+
+  it('rejects a feed without a required table', () => {
+    const tables = fixture();
+    delete tables.files.stop_times;
+    tables.rows.stop_times = [];
+    assert.ok(codes(tables).includes('error:missing_table'));
+  });
+
+  it('rejects references to stops and trips that do not exist', () => {
+    const tables = fixture();
+    tables.rows.stop_times[1].stop_id = 'S9';
+    tables.rows.stop_times[4].trip_id = 'T9';
+    const report = validateFeed(tables, { today: TODAY });
+    assert.equal(report.valid, false);
+    const errors = report.issues.filter(issue => issue.severity === 'error').map(issue => [issue.code, issue.line, issue.id]);
+    assert.deepEqual(errors, [['unknown_stop', 3, 'S9'], ['unknown_trip', 6, 'T9']]);
+  });
+
+  it('rejects a trip that runs backwards in time', () => {
+    const tables = fixture();
+    tables.rows.stop_times[1].arrival_time = '07:55:00';
+    tables.rows.stop_times[1].departure_time = '07:55:00';
+    assert.deepEqual(codes(tables), ['error:non_monotonic_time']);
+  });
+
+  it('rejects duplicate IDs', () => {
+    const tables = fixture();
+    tables.rows.stops.push({ ...tables.rows.stops[0] });
+    assert.deepEqual(codes(tables), ['error:duplicate_id']);
+  });
+
+  it('rejects stops outside the service area, and only warns about outliers without one', () => {
+    const tables = fixture();
+    tables.rows.stops[3].stop_lat = '19.07';
+    const serviceArea = { minLat: 28.4, minLng: 76.8, maxLat: 28.9, maxLng: 77.5 };
+    assert.deepEqual(codes(tables, { serviceArea }), ['error:out_of_area']);
+    assert.deepEqual(codes(tables), ['warning:out_of_area']);
+  });
+
+  it('warns about an expired calendar without rejecting the feed', () => {
+    const report = validateFeed(fixture(), { today: '20310101' });
+    assert.equal(report.valid, true);
+    assert.deepEqual(report.issues.map(issue => issue.code), ['feed_expired']);
+  });
+
+  it('caps the issues listed per code but counts them all', () => {
+    const tables = fixture();
+    tables.rows.stop_times.forEach(row => row.stop_id = 'S9');
+    const report = validateFeed(tables, { today: TODAY, maxIssuesPerCode: 2 });
+    assert.equal(report.counts.unknown_stop, 12);
+    assert.equal(report.issues.filter(issue => issue.code === 'unknown_stop').length, 2);
+    assert.equal(report.errors, 12);
+  });
+});
@@ -0,0 +1,96 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { PriceAlertService } from '../src/services/price-alert.service';
+import { FareService } from '../src/services/fare.service';
+import { CityService } from '../src/services/city.service';
+import { FareEstimate } from '../src/interfaces/types';
+import { PriceAlertWebhook } from '../src/interfaces/price-alert';
+
+const city = CityService.getInstance().resolve({ lat: 28.63, lng: 77.21 })!;
+const pickup = { lat: 28.63, lng: 77.21 };
+const drop = { lat: 28.55, lng: 77.1 };
+
+const fare = (price: number, source: FareEstimate['source']): FareEstimate => ({
+  platform: 'uber',
+  vehicleType: 'UberGo',
+  price,
+  currency: 'INR',
+  confidence: source === 'estimate' ? 'low' : 'high',
+  source,
+  timestamp: Date.now()
+});
+
+describe('price alerts', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'price-alerts-'));
+  let fares: FareEstimate[] = [];
+  const fareService = { hasCapacity: () => true, getFareEstimates: async () => fares } as unknown as FareService;
+  const alerts = new PriceAlertService(fareService, path.join(dir, 'alerts.json'));
+
+  // The webhook answers with `status` and keeps what was posted to it
+  let status = 200;
+  let received: PriceAlertWebhook[] = [];
+  const webhook = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      received.push(JSON.parse(body));
+      res.writeHead(status).end();
+    });
+  });
+  let webhookUrl = '';
+
+  before(async () => {
+    await new Promise<void>(resolve => webhook.listen(0, '127.0.0.1', resolve));
+    webhookUrl = `http://127.0.0.1:${(webhook.address() as AddressInfo).port}/hook`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => webhook.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    status = 200;
+    received = [];
+  });
+
+  const create = () => alerts.create({ pickup, drop, city, maxPrice: 250, webhookUrl });
+
+  it('posts a quoted fare under maxPrice to the webhook and triggers', async () => {
+    fares = [fare(300, 'live'), fare(240, 'live')];
+    const { id } = create();
+    await alerts.checkDue();
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].event, 'price_alert.triggered');
+    assert.equal(received[0].alert.id, id);
+    assert.deepEqual(received[0].alert.matches?.map(match => match.price), [240]);
+    assert.equal(alerts.get(id)?.status, 'triggered');
+  });
+
+  it('stays active with the error when the webhook fails', async () => {
+    fares = [fare(240, 'live')];
+    status = 500;
+    const { id } = create();
+    await alerts.checkDue();
+
+    assert.equal(received.length, 1);
+    assert.equal(alerts.get(id)?.status, 'active');
+    assert.equal(alerts.get(id)?.lastError, 'Webhook failed: HTTP 500');
+  });
+
+  it('does not trigger on estimates alone', async () => {
+    fares = [fare(100, 'estimate'), fare(120, 'cached')];
+    const { id } = create();
+    await alerts.checkDue();
+
+    assert.equal(received.length, 0);
+    assert.equal(alerts.get(id)?.status, 'active');
+    assert.equal(alerts.get(id)?.lastError, 'No fares were quoted, only estimates');
+  });
+});
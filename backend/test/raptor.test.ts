@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RaptorQuery, RaptorService, RoutePattern } from '../src/services/raptor.service';
+
+const STOPS = ['A', 'B', 'C', 'D'];
+const time = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 3600 + m * 60;
+};
+
+// A loop line: out of A through B and C, back through A, then on to D. Trips leave A at
+// 08:00 and 09:00 and take ten minutes between stops.
+function loopPattern(): RoutePattern {
+  const stops = [0, 1, 2, 0, 3];
+  const starts = [time('08:00'), time('09:00')];
+  const times = Int32Array.from(starts.flatMap(start => stops.map((_, pos) => start + pos * 600)));
+  return { routeId: 'LOOP', stops, tripIds: ['T1', 'T2'], serviceIds: ['WD', 'WD'], arrivals: times, departures: times };
+}
+
+describe('RAPTOR on a looping pattern', () => {
+  const raptor = new RaptorService(STOPS, [loopPattern()]);
+  const plan = (from: string, to: string, mode: RaptorQuery['mode'], at: string) => raptor.plan({
+    origins: [{ stopId: from, walkSeconds: 0, walkMeters: 0 }],
+    destinations: [{ stopId: to, walkSeconds: 0, walkMeters: 0 }],
+    time: time(at),
+    mode,
+    maxTransfers: 0,
+    isServiceActive: () => true
+  });
+
+  it('boards at the second visit when the first has left', () => {
+    const [{ legs: [leg] }] = plan('A', 'D', 'depart', '08:20');
+    assert.deepEqual(leg, { tripId: 'T1', routeId: 'LOOP', boardIndex: 3, alightIndex: 4, departure: time('08:30'), arrival: time('08:40') });
+  });
+
+  it('boards at the first visit when it can still be caught', () => {
+    const [{ legs: [leg] }] = plan('A', 'D', 'depart', '07:50');
+    assert.equal(leg.boardIndex, 0);
+    assert.equal(leg.departure, time('08:00'));
+    assert.equal(leg.arrival, time('08:40'));
+  });
+
+  it('only rides forwards to a stop before the second visit', () => {
+    const [{ legs: [leg] }] = plan('A', 'B', 'depart', '08:20');
+    assert.deepEqual(leg, { tripId: 'T2', routeId: 'LOOP', boardIndex: 0, alightIndex: 1, departure: time('09:00'), arrival: time('09:10') });
+  });
+
+  it('leaves from the later visit when arriving by a deadline', () => {
+    const [{ legs: [leg] }] = plan('A', 'D', 'arrive', '08:45');
+    assert.deepEqual(leg, { tripId: 'T1', routeId: 'LOOP', boardIndex: 3, alightIndex: 4, departure: time('08:30'), arrival: time('08:40') });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RateCardFareModel } from '../src/services/fare-model.service';
+import { City } from '../src/interfaces/city';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'rate-cards.yaml');
+
+const city: City = { id: 'testcity', name: 'Test City', timezone: 'Asia/Kolkata', currency: 'INR', polygon: [], platforms: {} };
+const pickup = { lat: 28.6, lng: 77.2 };
+const drop = { lat: 28.65, lng: 77.25 };
+
+describe('rate card surge bands', () => {
+  const model = RateCardFareModel.load(FIXTURE);
+
+  // Local time in the city. 19 October 2026 is a Monday.
+  const bandAt = (localTime: string) => model.quote({
+    city,
+    platform: 'uber',
+    vehicleType: 'UberGo',
+    pickup,
+    drop,
+    trip: { distanceKm: 8, durationMins: 20, path: [pickup, drop], source: 'straight_line' },
+    at: new Date(`${localTime}+05:30`)
+  }).surgeBand;
+
+  it('applies a band from its start up to, not including, its end', () => {
+    assert.equal(bandAt('2026-10-19T07:59:59'), undefined);
+    assert.equal(bandAt('2026-10-19T08:00:00'), 'morning_peak');
+    assert.equal(bandAt('2026-10-19T10:59:59'), 'morning_peak');
+    assert.equal(bandAt('2026-10-19T11:00:00'), undefined);
+  });
+
+  it('only applies a band on its days', () => {
+    assert.equal(bandAt('2026-10-24T09:00:00'), undefined);
+    assert.equal(bandAt('2026-10-25T20:30:00'), undefined);
+  });
+
+  it('takes the highest multiplier when bands overlap', () => {
+    assert.equal(bandAt('2026-10-19T09:30:00'), 'office_rush');
+    assert.equal(bandAt('2026-10-20T09:30:00'), 'morning_peak');
+  });
+
+  it('runs a band ending at 00:00 until midnight', () => {
+    assert.equal(bandAt('2026-10-24T20:00:00'), 'weekend_evening');
+    assert.equal(bandAt('2026-10-24T23:59:30'), 'weekend_evening');
+  });
+
+  it('wraps a band past midnight when it ends before it starts', () => {
+    assert.equal(bandAt('2026-10-25T00:00:00'), 'late_night');
+    assert.equal(bandAt('2026-10-25T00:59:59'), 'late_night');
+    assert.equal(bandAt('2026-10-25T01:00:00'), undefined);
+  });
+
+  it('rejects times past 23:59', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rate-cards-')), 'cards.yaml');
+    fs.writeFileSync(file, fs.readFileSync(FIXTURE, 'utf-8').replace('end: "00:00"', 'end: "24:00"'));
+    try {
+      assert.throws(() => RateCardFareModel.load(file), /surge bands need a name, start and end/);
+    } finally {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { CityService } from '../src/services/city.service';
+
+const DELHI = { lat: 28.63, lng: 77.21 };
+const LONDON = { lat: 51.5, lng: -0.12 };
+
+describe('service areas', () => {
+  const cities = CityService.getInstance();
+
+  it('resolves a point to the city whose area contains it', () => {
+    assert.equal(cities.resolve(DELHI)?.id, 'delhi');
+    assert.equal(cities.resolve(LONDON), null);
+  });
+
+  it('resolves both ends of a trip', () => {
+    const { pickupCity, dropCity } = cities.resolveTrip(LONDON, DELHI);
+    assert.equal(pickupCity, null);
+    assert.equal(dropCity?.id, 'delhi');
+  });
+});
+
+// Runs the server on a free port, as `npx ts-node src/server.ts` would
+describe('compare fares outside every service area', () => {
+  let server: ChildProcess;
+  let baseUrl = '';
+
+  before(async () => {
+    const port = await new Promise<number>(resolve => {
+      const probe = net.createServer().listen(0, () => {
+        const { port } = probe.address() as net.AddressInfo;
+        probe.close(() => resolve(port));
+      });
+    });
+    server = spawn(process.execPath, ['--require', 'ts-node/register', 'src/server.ts'], {
+      cwd: path.join(__dirname, '..'),
+      env: { ...process.env, PORT: String(port) },
+      stdio: ['ignore', 'pipe', 'ignore']
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.stdout!.on('data', (chunk: Buffer) => {
+        if (chunk.toString().includes('Server running')) resolve();
+      });
+      server.on('exit', code => reject(new Error(`Server exited with code ${code}`)));
+    });
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  after(() => {
+    server.kill('SIGTERM');
+  });
+
+  const post = (route: string, pickup: typeof DELHI, drop: typeof DELHI) => fetch(`${baseUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ pickup, drop })
+  });
+
+  for (const route of ['/api/compare-fares', '/api/compare-fares/stream']) {
+    it(`rejects a pickup outside every area on ${route} with 422`, async () => {
+      const response = await post(route, LONDON, DELHI);
+      assert.equal(response.status, 422);
+      assert.deepEqual(await response.json(), { success: false, code: 'out_of_service_area', error: 'Pickup is outside every service area' });
+    });
+  }
+
+  it('lists the cities it serves', async () => {
+    const response = await fetch(`${baseUrl}/api/cities`);
+    assert.equal(response.status, 200);
+    const { cities } = await response.json();
+    assert.deepEqual(cities.map((city: { id: string }) => city.id), ['delhi', 'bangalore', 'mumbai']);
+  });
+});
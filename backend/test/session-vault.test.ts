@@ -0,0 +1,86 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SessionVault, SessionVaultError, sanitizeCookies } from '../src/services/session-vault.service';
+import { StorageState } from '../src/interfaces/session';
+
+const EXPIRES = Math.floor(new Date('2030-01-01T00:00:00Z').getTime() / 1000);
+
+const state: StorageState = {
+  cookies: [{ name: 'sid', value: 'secret-login', domain: '.uber.com', path: '/', expires: EXPIRES, httpOnly: true, secure: true, sameSite: 'Lax' }],
+  origins: [{ origin: 'https://m.uber.com', localStorage: [{ name: 'token', value: 'abc' }] }]
+};
+
+describe('session vault', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-vault-'));
+  const vault = new SessionVault(dir, 'correct horse battery staple');
+  const file = path.join(dir, 'uber', 'work.json');
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  // Rewrites the saved file, then expects it to be refused
+  const assertTamperRejected = (edit: (saved: Record<string, string | number>) => void) => {
+    const original = fs.readFileSync(file, 'utf-8');
+    const saved = JSON.parse(original);
+    edit(saved);
+    fs.writeFileSync(file, JSON.stringify(saved));
+    try {
+      assert.throws(() => vault.load('uber', 'work'), SessionVaultError);
+    } finally {
+      fs.writeFileSync(file, original);
+    }
+  };
+
+  it('decrypts what it saved, and keeps it encrypted on disk', () => {
+    const info = vault.save('uber', 'work', state);
+    assert.equal(info.expiresAt, '2030-01-01T00:00:00.000Z');
+    assert.doesNotMatch(fs.readFileSync(file, 'utf-8'), /secret-login/);
+
+    const loaded = vault.load('uber', 'work');
+    assert.deepEqual(loaded?.state, state);
+    assert.equal(loaded?.savedAt, info.savedAt);
+    assert.deepEqual(vault.list('uber').map(session => session.account), ['work']);
+  });
+
+  it('rejects a modified session', () => {
+    assertTamperRejected(saved => {
+      const data = Buffer.from(saved.data as string, 'base64');
+      data[0] ^= 1;
+      saved.data = data.toString('base64');
+    });
+  });
+
+  it('rejects modified metadata', () => {
+    assertTamperRejected(saved => {
+      saved.expiresAt = '2099-01-01T00:00:00.000Z';
+    });
+  });
+
+  it('rejects the wrong key', () => {
+    assert.throws(() => new SessionVault(dir, 'wrong key').load('uber', 'work'), SessionVaultError);
+  });
+
+  it('returns null for a session that was never saved', () => {
+    assert.equal(vault.load('uber', 'personal'), null);
+  });
+
+  it('refuses names that are not file-safe', () => {
+    assert.throws(() => vault.save('uber', '../escape', state), SessionVaultError);
+  });
+});
+
+describe('cookie imports', () => {
+  it("converts a browser extension's cookies", () => {
+    const [cookie] = sanitizeCookies([{ name: 'sid', value: 'x', domain: '.olacabs.com', expirationDate: EXPIRES, sameSite: 'no_restriction' }]);
+    assert.equal(cookie.expires, EXPIRES);
+    assert.equal(cookie.sameSite, 'None');
+    assert.equal(cookie.path, '/');
+  });
+
+  it('rejects anything but a list of cookies', () => {
+    assert.throws(() => sanitizeCookies({ cookies: [] }), /Expected a JSON array of cookies/);
+    assert.throws(() => sanitizeCookies([{ name: 'sid', value: 'x' }]), /Cookie 1 needs a name, value and domain/);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpatialIndex } from '../src/utils/spatial-index';
+import { calculateDistance } from '../src/utils/fare-calculator';
+import { LatLng } from '../src/utils/geometry';
+
+interface Point extends LatLng {
+  id: number;
+}
+
+// Points scattered over about 20 km around Connaught Place, the same on every run
+function scatter(count: number): Point[] {
+  let seed = 42;
+  const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+  return Array.from({ length: count }, (_, id) => ({ id, lat: 28.53 + random() * 0.2, lng: 77.11 + random() * 0.2 }));
+}
+
+const CENTRE = { lat: 28.63, lng: 77.21 };
+const points = scatter(500);
+const index = new SpatialIndex(points, point => point);
+
+// What the index should return, by measuring every point
+const byDistance = (from: LatLng) => points
+  .map(point => ({ id: point.id, distance: calculateDistance(from.lat, from.lng, point.lat, point.lng) }))
+  .sort((a, b) => a.distance - b.distance);
+
+const ids = (matches: { item: Point }[]) => matches.map(match => match.item.id);
+
+describe('spatial index', () => {
+  it('finds every point within a radius, nearest first', () => {
+    const expected = byDistance(CENTRE).filter(match => match.distance <= 2.5).map(match => match.id);
+    assert.ok(expected.length > 5);
+    assert.deepEqual(ids(index.within(CENTRE, 2.5)), expected);
+  });
+
+  it('finds the k nearest points', () => {
+    assert.deepEqual(ids(index.nearest(CENTRE, 10)), byDistance(CENTRE).slice(0, 10).map(match => match.id));
+  });
+
+  it('keeps the k nearest points within maxDistanceKm', () => {
+    const expected = byDistance(CENTRE).filter(match => match.distance <= 0.8).map(match => match.id);
+    assert.ok(expected.length < 50);
+    assert.deepEqual(ids(index.nearest(CENTRE, 50, 0.8)), expected);
+  });
+
+  it('searches outwards past empty cells for a point far away', () => {
+    const faraway = { lat: 29.2, lng: 77.8 };
+    const [nearest] = index.nearest(faraway, 1);
+    assert.equal(nearest.item.id, byDistance(faraway)[0].id);
+  });
+
+  it('finds nothing in an empty index, and leaves out points without a location', () => {
+    assert.deepEqual(new SpatialIndex<Point>([], point => point).nearest(CENTRE, 3), []);
+    const unlocated = new SpatialIndex([{ id: 1, lat: NaN, lng: 77.2 }], point => point);
+    assert.deepEqual(unlocated.within(CENTRE, 100), []);
+  });
+});
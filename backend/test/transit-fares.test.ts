@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { compileFeed, CompiledFeed } from '../src/services/gtfs-loader';
+import { FareLegInput, TransitFareService } from '../src/services/transit-fare.service';
+
+// First and Second are in zone Z1, Interchange and Fourth in Z2, Outer in Z3. See the fare tables of each
+// fixture for the rules these legs are expected to match.
+function fareService(fixture: string): { feed: CompiledFeed; fares: TransitFareService } {
+  const feed = compileFeed(path.join(__dirname, 'fixtures', fixture))!;
+  return { feed, fares: new TransitFareService('test', feed.fares, feed.agencies.length) };
+}
+
+function leg(feed: CompiledFeed, routeId: string, stopIds: string[]): FareLegInput {
+  const route = feed.routes.find(r => r.route_id === routeId);
+  return {
+    routeId,
+    route,
+    agency: feed.agencies[0],
+    mode: 'bus',
+    boardStopId: stopIds[0],
+    alightStopId: stopIds[stopIds.length - 1],
+    zones: stopIds.map(id => feed.stops.find(stop => stop.stop_id === id)?.zone_id || ''),
+    departure: 8 * 3600,
+    distanceKm: 3
+  };
+}
+
+describe('GTFS fares v1', () => {
+  const { feed, fares } = fareService('gtfs-transfer');
+
+  it('matches a rule by origin and destination zone', () => {
+    const [fare] = fares.price([leg(feed, 'R1', ['S1', 'S2'])]).legs;
+    assert.equal(fare.source, 'gtfs');
+    assert.equal(fare.fare_id, 'F_LOCAL');
+    assert.equal(fare.fare, 10);
+  });
+
+  it('picks the cheapest of several matching fares', () => {
+    // F_CROSS (Z1 to Z2) costs 25, F_WIDE (route R1 through exactly Z1 and Z2) costs 20
+    const [fare] = fares.price([leg(feed, 'R1', ['S1', 'S2', 'S3'])]).legs;
+    assert.equal(fare.fare_id, 'F_WIDE');
+    assert.equal(fare.fare, 20);
+  });
+
+  it('needs every zone passed through to be listed in contains_id', () => {
+    // Passing through Outer (Z3) rules out the cheaper F_WIDE, which lists only Z1 and Z2
+    const [fare] = fares.price([leg(feed, 'R1', ['S1', 'S5', 'S3'])]).legs;
+    assert.equal(fare.fare_id, 'F_CROSS');
+    assert.equal(fare.fare, 25);
+  });
+
+  it('matches a rule by route', () => {
+    const breakdown = fares.price([leg(feed, 'R1', ['S1', 'S2']), leg(feed, 'R2', ['S3', 'S4'])]);
+    assert.equal(breakdown.legs[1].fare_id, 'F_R2');
+    assert.equal(breakdown.total, 25);
+    assert.equal(breakdown.currency, 'INR');
+  });
+
+  it('estimates legs that no rule matches', () => {
+    const [fare] = fares.price([leg(feed, 'R9', ['S3', 'S4'])]).legs;
+    assert.equal(fare.source, 'estimate');
+    assert.equal(fare.fare_id, undefined);
+  });
+});
+
+describe('GTFS fares v2', () => {
+  const { feed, fares } = fareService('gtfs-fares-v2');
+
+  it('applies the catch-all leg rule', () => {
+    const [fare] = fares.price([leg(feed, 'R1', ['S1', 'S2'])]).legs;
+    assert.equal(fare.source, 'gtfs_fares_v2');
+    assert.equal(fare.fare_id, 'P_BASE');
+    assert.equal(fare.fare, 20);
+  });
+
+  it('prefers the rule naming the route network', () => {
+    const [fare] = fares.price([leg(feed, 'R2', ['S4', 'S3'])]).legs;
+    assert.equal(fare.fare_id, 'P_EXPRESS');
+    assert.equal(fare.fare, 35);
+  });
+
+  it('prefers a higher rule_priority over a more specific rule', () => {
+    const [fare] = fares.price([leg(feed, 'R2', ['S3', 'S4'])]).legs;
+    assert.equal(fare.fare_id, 'P_AIRPORT');
+    assert.equal(fare.fare, 50);
+  });
+
+  it("prices the rider's category and keeps the default category's price as the full fare", () => {
+    const [fare] = fares.price([leg(feed, 'R1', ['S1', 'S2'])], 'senior').legs;
+    assert.equal(fare.fare, 10);
+    assert.equal(fare.full_fare, 20);
+    assert.equal(fare.concession, 'SENIOR');
+  });
+});
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import axios from 'axios';
 import { SearchForm } from './components/SearchForm';
 import { FareCard } from './components/FareCard';
@@ -6,6 +6,9 @@ import { BusRouteCard } from './components/BusRouteCard';
 import { MapView } from './components/MapView';
 import { MapWrapper } from './components/MapWrapper';
 import { LayoutDashboard, CarFront, Bus, Car } from 'lucide-react';
+import type { SegmentType } from './utils/transit';
+import type { ServiceCity } from './utils/cities';
+import { streamFares, FareStreamError } from './utils/fares';
 
 interface FareEstimate {
   platform: 'ola' | 'rapido' | 'uber';
@@ -17,7 +20,7 @@ interface FareEstimate {
 }
 
 interface RouteSegment {
-  type: 'walk' | 'bus';
+  type: SegmentType;
   start: { lat: number; lng: number; name: string };
   end: { lat: number; lng: number; name: string };
   distance: string;
@@ -44,18 +47,30 @@ export interface BusRoute {
 
 function App() {
   const [estimates, setEstimates] = useState<FareEstimate[]>([]);
+  const [pendingPlatforms, setPendingPlatforms] = useState<string[]>([]);
+  const [failedPlatforms, setFailedPlatforms] = useState<{ platform: string; error: string }[]>([]);
   const [busRoutes, setBusRoutes] = useState<BusRoute[]>([]);
   const [selectedBusRoute, setSelectedBusRoute] = useState<BusRoute | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [cities, setCities] = useState<ServiceCity[]>([]);
   const [pickupCoords, setPickupCoords] = useState<{lat: number, lng: number} | null>(null);
   const [dropCoords, setDropCoords] = useState<{lat: number, lng: number} | null>(null);
   const [activeTab, setActiveTab] = useState<'cabs' | 'bus'>('cabs');
 
+  useEffect(() => {
+    axios.get('http://localhost:3000/api/cities')
+      .then(response => setCities(response.data.cities))
+      .catch(err => console.error('Failed to load service areas', err));
+  }, []);
+
   const handleSearch = async (pickup: { lat: string; lng: string }, drop: { lat: string; lng: string }) => {
     setLoading(true);
     setError(null);
+    setWarning(null);
     setEstimates([]);
+    setFailedPlatforms([]);
     setBusRoutes([]);
     setSelectedBusRoute(null);
 
@@ -66,12 +81,22 @@ function App() {
 
     try {
       if (activeTab === 'cabs') {
-          const response = await axios.post('http://localhost:3000/api/compare-fares', payload);
-          if (response.data.success) {
-            setEstimates(response.data.estimates);
-          } else {
-            setError('Failed to fetch estimates');
-          }
+          // Cards appear platform by platform instead of waiting for the slowest scraper
+          await streamFares<FareEstimate>('http://localhost:3000/api/compare-fares/stream', payload, event => {
+            if (event.type === 'start') {
+              setWarning(event.warning || null);
+              setPendingPlatforms(event.platforms);
+            } else if (event.type === 'platform') {
+              setEstimates(prev => [...prev, ...event.estimates]);
+              setPendingPlatforms(prev => prev.filter(platform => platform !== event.platform));
+              const failure = event.error;
+              if (failure) {
+                setFailedPlatforms(prev => [...prev, { platform: event.platform, error: failure }]);
+              }
+            } else if (event.type === 'error') {
+              setError(event.error || 'Failed to fetch estimates');
+            }
+          });
       } else {
           const response = await axios.post('http://localhost:3000/api/bus-routes', payload);
           if (response.data.success) {
@@ -81,10 +106,18 @@ function App() {
           }
       }
     } catch (err) {
-      setError('Error connecting to backend server. Make sure it is running on port 3000.');
+      // e.g. a pickup outside every service area
+      if (err instanceof FareStreamError) {
+        setError(err.message);
+      } else if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error);
+      } else {
+        setError('Error connecting to backend server. Make sure it is running on port 3000.');
+      }
       console.error(err);
     } finally {
       setLoading(false);
+      setPendingPlatforms([]);
     }
   };
 
@@ -136,6 +169,7 @@ function App() {
                      onPickupChange={(lat, lng) => setPickupCoords({lat, lng})}
                      onDropChange={(lat, lng) => setDropCoords({lat, lng})}
                      activeTab={activeTab}
+                     cities={cities}
                  />
 
                  {/* Results Section */}
@@ -146,8 +180,26 @@ function App() {
                          </div>
                      )}
 
+                     {warning && activeTab === 'cabs' && (
+                         <div className="p-3 bg-amber-50 text-amber-800 rounded-xl border border-amber-200 text-sm shadow-sm">
+                         {warning}
+                         </div>
+                     )}
+
                      {/* Cabs Results */}
-                     {activeTab === 'cabs' && !loading && estimates.length > 0 && (
+                     {activeTab === 'cabs' && pendingPlatforms.length > 0 && (
+                         <div className="text-xs text-[#666666] animate-pulse">
+                         Waiting for {pendingPlatforms.map(platform => platform.charAt(0).toUpperCase() + platform.slice(1)).join(', ')}...
+                         </div>
+                     )}
+
+                     {activeTab === 'cabs' && failedPlatforms.map(({ platform, error }) => (
+                         <div key={platform} className="p-3 bg-red-50 text-red-700 rounded-xl border border-red-200 text-xs shadow-sm">
+                         <span className="font-semibold">{platform.charAt(0).toUpperCase() + platform.slice(1)}</span> failed: {error}
+                         </div>
+                     ))}
+
+                     {activeTab === 'cabs' && estimates.length > 0 && (
                          <div className="space-y-4">
                              <div className="flex items-center justify-between">
                                  <h3 className="font-bold text-[#333333] text-lg">Best Fares</h3>
@@ -1,9 +1,10 @@
 
 import React from 'react';
 import { Bus, Clock, MapPin, Footprints, ChevronDown, ChevronUp } from 'lucide-react';
+import { MODE_STYLES, isTransit, type SegmentType } from '../utils/transit';
 
 interface RouteSegment {
-  type: 'walk' | 'bus';
+  type: SegmentType;
   start: { lat: number; lng: number; name: string };
   end: { lat: number; lng: number; name: string };
   distance: string;
@@ -42,6 +43,10 @@ export const BusRouteCard: React.FC<BusRouteCardProps> = ({ route, isSelected, o
     setExpanded(!expanded);
   };
 
+  // Badge shows the mode of the first ride, e.g. a metro icon for metro-first journeys
+  const firstRide = route.segments?.find(segment => isTransit(segment.type));
+  const RouteIcon = firstRide && isTransit(firstRide.type) ? MODE_STYLES[firstRide.type].icon : Bus;
+
   return (
     <div 
       onClick={onSelect}
@@ -54,7 +59,7 @@ export const BusRouteCard: React.FC<BusRouteCardProps> = ({ route, isSelected, o
       <div className="flex items-center justify-between mb-3">
         <div className="flex items-center gap-3">
             <div className={`p-3 rounded-[8px] bg-blue-50 text-blue-600 font-bold flex items-center justify-center transition-colors group-hover:bg-blue-100`}>
-                <Bus size={20} />
+                <RouteIcon size={20} />
                 <span className="ml-2">{route.route_name}</span>
             </div>
             <div className="flex flex-col">
@@ -106,12 +111,18 @@ export const BusRouteCard: React.FC<BusRouteCardProps> = ({ route, isSelected, o
           {/* Expanded Detailed View */}
           {expanded && route.segments && (
              <div className="space-y-4 pt-2">
-                {route.segments.map((segment, idx) => (
+                {route.segments.map((segment, idx) => {
+                   const mode = isTransit(segment.type) ? MODE_STYLES[segment.type] : null;
+                   const ModeIcon = mode ? mode.icon : Footprints;
+                   return (
                    <div key={idx} className="flex items-start gap-3 relative z-10">
-                      <div className={`w-6 h-6 rounded-full flex items-center justify-center text-white shrink-0 shadow-sm ${
-                          segment.type === 'walk' ? 'bg-gray-400' : 'bg-orange-500'
-                      }`}>
-                          {segment.type === 'walk' ? <Footprints size={12} /> : <Bus size={12} />}
+                      <div
+                          className={`w-6 h-6 flex items-center justify-center text-white shrink-0 shadow-sm ${
+                              mode?.railBound ? 'rounded-md' : 'rounded-full'
+                          } ${mode ? '' : 'bg-gray-400'}`}
+                          style={mode ? { backgroundColor: segment.color || mode.color } : undefined}
+                      >
+                          <ModeIcon size={12} />
                       </div>
                       <div className="flex-1">
                           <p className="text-xs font-bold text-[#333333]">{segment.instruction}</p>
@@ -120,15 +131,18 @@ export const BusRouteCard: React.FC<BusRouteCardProps> = ({ route, isSelected, o
                              <span>•</span>
                              <span>{segment.duration}</span>
                           </div>
-                          {/* Show intermediate stops summary if bus */}
-                          {segment.type === 'bus' && segment.stops && (
-                             <div className="mt-1 pl-2 border-l-2 border-orange-100">
-                                <p className="text-[10px] text-gray-400">{segment.stops.length} intermediate stops</p>
+                          {/* Show intermediate stops summary for transit legs */}
+                          {mode && segment.stops && (
+                             <div className="mt-1 pl-2 border-l-2" style={{ borderColor: segment.color || mode.color }}>
+                                <p className="text-[10px] text-gray-400">
+                                    {mode.railBound ? `${mode.label} · ` : ''}{segment.stops.length} intermediate {mode.railBound ? 'stations' : 'stops'}
+                                </p>
                              </div>
                           )}
                       </div>
                    </div>
-                ))}
+                   );
+                })}
              </div>
           )}
       </div>
@@ -11,6 +11,7 @@ interface LocationSearchInputProps {
   onSelect: (lat: number, lng: number, address: string) => void;
   iconColor: string;
   initialValue?: string;
+  bounds?: google.maps.LatLngBoundsLiteral; // Bias suggestions towards this area
 }
 
 export const LocationSearchInput: React.FC<LocationSearchInputProps> = ({
@@ -18,7 +19,8 @@ export const LocationSearchInput: React.FC<LocationSearchInputProps> = ({
   placeholder,
   onSelect,
   iconColor,
-  initialValue
+  initialValue,
+  bounds
 }) => {
   const {
     ready,
@@ -28,13 +30,7 @@ export const LocationSearchInput: React.FC<LocationSearchInputProps> = ({
     clearSuggestions,
   } = usePlacesAutocomplete({
     requestOptions: {
-      /* Define search scope here if needed, e.g., bounds around New Delhi */
-      locationBias: {
-        north: 28.9,
-        south: 28.4,
-        east: 77.35,
-        west: 76.8
-      }
+      locationBias: bounds
     },
     debounce: 300,
     defaultValue: initialValue || ""
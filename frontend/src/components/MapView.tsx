@@ -1,8 +1,9 @@
 import React, { useMemo, useEffect, useState } from 'react';
 import { GoogleMap, Marker, DirectionsRenderer, Polyline } from '@react-google-maps/api';
+import { MODE_STYLES, isTransit, type SegmentType } from '../utils/transit';
 
 interface RouteSegment {
-  type: 'walk' | 'bus';
+  type: SegmentType;
   start: { lat: number; lng: number; name: string };
   end: { lat: number; lng: number; name: string };
   path?: { lat: number; lng: number }[];
@@ -122,8 +123,23 @@ export const MapView: React.FC<MapViewProps> = ({ pickup, drop, busPath, busSegm
         }} />}
 
         {/* Bus Segments (Multimodal) */}
-        {busSegments && busSegments.map((segment, index) => (
+        {busSegments && busSegments.map((segment, index) => {
+           const mode = isTransit(segment.type) ? MODE_STYLES[segment.type] : null;
+           const color = segment.color || mode?.color || '#f97316';
+           return (
            <React.Fragment key={index}>
+              {/* Metro/rail legs get a dark casing under the line, like a transit map */}
+              {mode?.railBound && (
+                  <Polyline
+                    path={segment.path || [segment.start, segment.end]}
+                    options={{
+                        strokeColor: '#1e293b',
+                        strokeOpacity: 0.9,
+                        strokeWeight: 10,
+                    }}
+                  />
+              )}
+
               {/* Path Line */}
               <Polyline
                 path={segment.path || [segment.start, segment.end]}
@@ -140,14 +156,14 @@ export const MapView: React.FC<MapViewProps> = ({ pickup, drop, busPath, busSegm
                         repeat: '20px'
                     }],
                 } : {
-                    strokeColor: segment.color || '#f97316',
-                    strokeOpacity: 0.8,
+                    strokeColor: color,
+                    strokeOpacity: mode?.railBound ? 1 : 0.8,
                     strokeWeight: 6,
                 }}
               />
               
               {/* Segment Start Marker */}
-              {segment.type === 'bus' && (
+              {mode && (
                   <Marker 
                      position={segment.start}
                      title={segment.start.name}
@@ -156,30 +172,31 @@ export const MapView: React.FC<MapViewProps> = ({ pickup, drop, busPath, busSegm
                         scale: 6,
                         fillColor: '#ffffff',
                         fillOpacity: 1,
-                        strokeColor: segment.color || '#f97316',
+                        strokeColor: color,
                         strokeWeight: 2,
                      }}
                   />
               )}
 
-              {/* Intermediate Stops for Bus */}
-              {segment.type === 'bus' && segment.stops && segment.stops.map((stop, sIdx) => (
+              {/* Intermediate Stops (stations are drawn larger and filled) */}
+              {mode && segment.stops && segment.stops.map((stop, sIdx) => (
                   <Marker 
                      key={`stop-${index}-${sIdx}`}
                      position={{ lat: stop.lat, lng: stop.lng }}
                      title={stop.name}
                      icon={{
                         path: google.maps.SymbolPath.CIRCLE,
-                        scale: 4,
-                        fillColor: '#ffffff',
+                        scale: mode.railBound ? 5 : 4,
+                        fillColor: mode.railBound ? color : '#ffffff',
                         fillOpacity: 1,
-                        strokeColor: segment.color || '#f97316',
-                        strokeWeight: 1,
+                        strokeColor: mode.railBound ? '#ffffff' : color,
+                        strokeWeight: mode.railBound ? 2 : 1,
                      }}
                   />
               ))}
            </React.Fragment>
-        ))}
+           );
+        })}
 
         {/* Legacy Bus Route (Fallback) */}
         {busPath && !busSegments && (
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Search, MapPin, Navigation } from 'lucide-react';
 import { LocationSearchInput } from './LocationSearchInput';
+import { cityAt, type ServiceCity } from '../utils/cities';
 
 interface SearchFormProps {
   onSearch: (pickup: { lat: string; lng: string }, drop: { lat: string; lng: string }) => void;
@@ -8,12 +9,17 @@ interface SearchFormProps {
   onDropChange: (lat: number, lng: number) => void;
   isLoading: boolean;
   activeTab?: 'cabs' | 'bus';
+  cities?: ServiceCity[];
 }
 
-export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, onPickupChange, onDropChange, isLoading, activeTab = 'cabs' }) => {
+export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, onPickupChange, onDropChange, isLoading, activeTab = 'cabs', cities = [] }) => {
   const [pickup, setPickup] = useState<{lat: number, lng: number} | null>(null);
   const [drop, setDrop] = useState<{lat: number, lng: number} | null>(null);
 
+  // Suggest places in the city of the other end of the trip once it is known
+  const pickupBias = cityAt(cities, drop)?.bounds;
+  const dropBias = cityAt(cities, pickup)?.bounds;
+
   const handlePickupSelect = (lat: number, lng: number, address: string) => {
     setPickup({ lat, lng });
     onPickupChange(lat, lng);
@@ -82,6 +88,7 @@ export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, onPickupChange
                 placeholder="Enter pickup location" 
                 onSelect={handlePickupSelect} 
                 iconColor="text-green-600"
+                bounds={pickupBias}
             />
         </div>
 
@@ -95,6 +102,7 @@ export const SearchForm: React.FC<SearchFormProps> = ({ onSearch, onPickupChange
                 placeholder="Enter drop location" 
                 onSelect={handleDropSelect} 
                 iconColor="text-red-600"
+                bounds={dropBias}
             />
         </div>
 
@@ -0,0 +1,11 @@
+// Mirrors GET /api/cities
+export interface ServiceCity {
+  id: string;
+  name: string;
+  currency: string;
+  bounds: { north: number; south: number; east: number; west: number };
+}
+
+// The city whose bounding box holds the point, to bias place suggestions towards it
+export const cityAt = (cities: ServiceCity[], point: { lat: number; lng: number } | null): ServiceCity | undefined =>
+  point ? cities.find(({ bounds }) => point.lat >= bounds.south && point.lat <= bounds.north && point.lng >= bounds.west && point.lng <= bounds.east) : undefined;
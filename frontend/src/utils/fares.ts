@@ -0,0 +1,41 @@
+// Mirrors the NDJSON events of POST /api/compare-fares/stream
+export type FareStreamEvent<E> =
+  | {
+      type: 'start';
+      city: { id: string; name: string; currency: string; timezone: string };
+      drop_city: string | null;
+      cross_city: boolean;
+      warning?: string;
+      platforms: string[];
+    }
+  | { type: 'platform'; platform: string; count: number; estimates: E[]; error?: string }
+  | { type: 'summary'; success: true; count: number; failed: string[]; elapsed_ms: number; estimates: E[] }
+  | { type: 'error'; error: string };
+
+// The server turned the request down, e.g. a pickup outside every service area
+export class FareStreamError extends Error {}
+
+// POSTs the trip and calls onEvent for each event as it arrives
+export async function streamFares<E>(url: string, payload: unknown, onEvent: (event: FareStreamEvent<E>) => void): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new FareStreamError(data?.error || `Request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
@@ -0,0 +1,28 @@
+import { Bus, TrainFront, Train, TramFront, Ship, CableCar, type LucideIcon } from 'lucide-react';
+
+// Mirrors the backend's TransitMode (GTFS route_type)
+export type TransitMode = 'tram' | 'metro' | 'rail' | 'bus' | 'ferry' | 'cable_car' | 'gondola' | 'funicular' | 'trolleybus' | 'monorail';
+
+export type SegmentType = 'walk' | TransitMode;
+
+export const isTransit = (type: SegmentType): type is TransitMode => type !== 'walk';
+
+interface ModeStyle {
+  label: string;
+  icon: LucideIcon;
+  color: string; // Fallback when the segment has no colour of its own
+  railBound: boolean; // Drawn as a cased "line" on the map, like a metro map
+}
+
+export const MODE_STYLES: Record<TransitMode, ModeStyle> = {
+  bus: { label: 'Bus', icon: Bus, color: '#f97316', railBound: false },
+  trolleybus: { label: 'Trolleybus', icon: Bus, color: '#f97316', railBound: false },
+  tram: { label: 'Tram', icon: TramFront, color: '#db2777', railBound: true },
+  metro: { label: 'Metro', icon: TrainFront, color: '#2563eb', railBound: true },
+  monorail: { label: 'Monorail', icon: TrainFront, color: '#4f46e5', railBound: true },
+  rail: { label: 'Train', icon: Train, color: '#16a34a', railBound: true },
+  ferry: { label: 'Ferry', icon: Ship, color: '#0891b2', railBound: false },
+  cable_car: { label: 'Cable car', icon: CableCar, color: '#7c3aed', railBound: true },
+  gondola: { label: 'Gondola', icon: CableCar, color: '#7c3aed', railBound: true },
+  funicular: { label: 'Funicular', icon: CableCar, color: '#7c3aed', railBound: true },
+};